@@ -20,6 +20,12 @@ echo.
 
 REM Step 1: Deploy database schema
 echo Step 1/3: Deploying database schema...
+call npx wrangler d1 migrations apply bookstore-db --remote
+if %errorlevel% neq 0 (
+  echo Database migrations failed
+  pause
+  exit /b 1
+)
 call npx wrangler d1 execute bookstore-db --remote --file=schema.sql
 
 if %errorlevel% neq 0 (
@@ -23,7 +23,8 @@ echo ""
 
 # Step 1: Deploy database schema to remote
 echo "📊 Step 1/3: Deploying database schema to remote D1..."
-npx wrangler d1 execute bookstore-db --remote --file=schema.sql
+npx wrangler d1 migrations apply bookstore-db --remote && \
+  npx wrangler d1 execute bookstore-db --remote --file=schema.sql
 
 if [ $? -ne 0 ]; then
   echo "❌ Schema deployment failed"
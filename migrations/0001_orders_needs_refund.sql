@@ -0,0 +1,54 @@
+-- Migration 0001: allow 'needs_refund' in orders.payment_status
+-- (a paid order for a copy that had already sold). SQLite can't change a
+-- CHECK constraint, so the table is rebuilt.
+
+PRAGMA defer_foreign_keys = on;
+
+CREATE TABLE orders_new (
+    id TEXT PRIMARY KEY,
+    book_id TEXT NOT NULL,
+    customer_email TEXT,
+
+    -- Payment details
+    book_price INTEGER NOT NULL,  -- in pence
+    profit_amount INTEGER NOT NULL,  -- in pence (book_price - cost_price)
+    charity_name TEXT NOT NULL,
+    stripe_payment_id TEXT NOT NULL,
+    payment_status TEXT NOT NULL DEFAULT 'pending' CHECK(payment_status IN ('pending', 'succeeded', 'failed', 'needs_refund')),
+
+    -- Blockchain tracking
+    base_tx_hash TEXT,
+    blockchain_status TEXT CHECK(blockchain_status IN ('pending', 'confirmed', 'failed')),
+
+    -- Batch tracking for monthly donations
+    month_batch TEXT NOT NULL,  -- Format: YYYY-MM
+    donation_status TEXT NOT NULL DEFAULT 'pending' CHECK(donation_status IN ('pending', 'sent', 'confirmed')),
+
+    -- Timestamps
+    created_at TEXT NOT NULL,
+    paid_at TEXT,
+
+    FOREIGN KEY (book_id) REFERENCES books(id)
+);
+
+INSERT INTO orders_new (
+    id, book_id, customer_email, book_price, profit_amount, charity_name,
+    stripe_payment_id, payment_status, base_tx_hash, blockchain_status,
+    month_batch, donation_status, created_at, paid_at
+)
+SELECT
+    id, book_id, customer_email, book_price, profit_amount, charity_name,
+    stripe_payment_id, payment_status, base_tx_hash, blockchain_status,
+    month_batch, donation_status, created_at, paid_at
+FROM orders;
+
+DROP TABLE orders;
+ALTER TABLE orders_new RENAME TO orders;
+
+CREATE INDEX IF NOT EXISTS idx_orders_book_id ON orders(book_id);
+CREATE INDEX IF NOT EXISTS idx_orders_month_batch ON orders(month_batch);
+CREATE INDEX IF NOT EXISTS idx_orders_donation_status ON orders(donation_status);
+CREATE INDEX IF NOT EXISTS idx_orders_created_at ON orders(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_orders_stripe_payment_id ON orders(stripe_payment_id);
+
+PRAGMA defer_foreign_keys = off;
@@ -0,0 +1,21 @@
+-- Migration 0002: monthly donation batches
+-- Orders record the batch their profit belongs to, and batches track their
+-- own status. Must run before schema.sql, which indexes orders.donation_id.
+
+ALTER TABLE orders ADD COLUMN donation_id TEXT;  -- monthly_donations batch this order's profit belongs to
+
+ALTER TABLE monthly_donations ADD COLUMN status TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending', 'sent', 'confirmed'));
+ALTER TABLE monthly_donations ADD COLUMN confirmed_at TEXT;  -- When the charity confirmed receipt
+
+-- Batches recorded before this have a sent_at but no status
+UPDATE monthly_donations SET status = 'sent' WHERE sent_at IS NOT NULL;
+
+-- Link paid orders to an existing batch for their month and charity
+UPDATE orders
+SET donation_id = (
+    SELECT d.id FROM monthly_donations d
+    WHERE d.month = orders.month_batch AND d.charity_name = orders.charity_name
+    ORDER BY d.created_at
+    LIMIT 1
+)
+WHERE payment_status = 'succeeded';
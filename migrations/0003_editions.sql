@@ -0,0 +1,116 @@
+-- Migration 0003: split editions out of books
+-- Metadata, enrichment and the cover move to one editions row per ISBN;
+-- books keeps one row per physical copy. Each edition takes the id of the
+-- book it came from, so embeddings already stored under that id still match.
+-- Must run before schema.sql, which indexes books.edition_id.
+
+PRAGMA defer_foreign_keys = on;
+
+CREATE TABLE IF NOT EXISTS editions (
+    id TEXT PRIMARY KEY,
+    isbn TEXT UNIQUE NOT NULL,
+    title TEXT NOT NULL,
+    author TEXT NOT NULL,
+    description TEXT,
+    cover_url TEXT,
+
+    -- Metadata and enrichment (stored as JSON)
+    metadata TEXT,  -- JSON: publisher, page_count, categories, etc.
+    vibe_tags TEXT,
+    ai_enrichment TEXT,  -- JSON: emotional_tone, shock_factor, pace, etc.
+    review_summary TEXT,
+
+    -- Search and discovery
+    vector_id TEXT,  -- Reference to Vectorize embedding
+
+    -- Timestamps
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+);
+
+-- books.isbn was unique, so every book becomes its own edition
+INSERT INTO editions (
+    id, isbn, title, author, description, cover_url,
+    metadata, vibe_tags, ai_enrichment, review_summary, vector_id,
+    created_at, updated_at
+)
+SELECT
+    id, isbn, title, author, description, cover_url,
+    metadata, vibe_tags, ai_enrichment, review_summary, vector_id,
+    created_at, updated_at
+FROM books;
+
+-- The old full-text triggers are on books; drop them before rebuilding it
+DROP TRIGGER IF EXISTS books_fts_insert;
+DROP TRIGGER IF EXISTS books_fts_update;
+DROP TRIGGER IF EXISTS books_fts_delete;
+
+CREATE TABLE books_new (
+    id TEXT PRIMARY KEY,
+    edition_id TEXT NOT NULL,
+
+    -- Physical attributes
+    condition TEXT NOT NULL CHECK(condition IN ('like_new', 'very_good', 'good', 'acceptable')),
+    cost_price INTEGER NOT NULL,  -- in pence
+    sell_price INTEGER NOT NULL,  -- in pence
+    in_stock INTEGER NOT NULL DEFAULT 1,  -- boolean (0 or 1)
+
+    -- Status tracking
+    status TEXT NOT NULL DEFAULT 'draft' CHECK(status IN ('draft', 'pending_review', 'live', 'sold', 'removed')),
+
+    -- Timestamps
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    sold_at TEXT,
+
+    FOREIGN KEY (edition_id) REFERENCES editions(id)
+);
+
+INSERT INTO books_new (
+    id, edition_id, condition, cost_price, sell_price, in_stock, status,
+    created_at, updated_at, sold_at
+)
+SELECT
+    b.id, e.id, b.condition, b.cost_price, b.sell_price, b.in_stock, b.status,
+    b.created_at, b.updated_at, b.sold_at
+FROM books b
+JOIN editions e ON e.isbn = b.isbn;
+
+DROP TABLE books;
+ALTER TABLE books_new RENAME TO books;
+
+CREATE INDEX IF NOT EXISTS idx_editions_created_at ON editions(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_books_edition ON books(edition_id);
+CREATE INDEX IF NOT EXISTS idx_books_status_stock ON books(status, in_stock);
+CREATE INDEX IF NOT EXISTS idx_books_created_at ON books(created_at DESC);
+
+-- Rebuild full-text search over editions
+DROP TABLE IF EXISTS books_fts;
+
+CREATE VIRTUAL TABLE books_fts USING fts5(
+    edition_id UNINDEXED,
+    title,
+    author,
+    description,
+    vibe_tags
+);
+
+INSERT INTO books_fts(rowid, edition_id, title, author, description, vibe_tags)
+SELECT rowid, id, title, author, description, vibe_tags FROM editions;
+
+CREATE TRIGGER books_fts_insert AFTER INSERT ON editions BEGIN
+    INSERT INTO books_fts(rowid, edition_id, title, author, description, vibe_tags)
+    VALUES (new.rowid, new.id, new.title, new.author, new.description, new.vibe_tags);
+END;
+
+CREATE TRIGGER books_fts_update AFTER UPDATE ON editions BEGIN
+    DELETE FROM books_fts WHERE rowid = old.rowid;
+    INSERT INTO books_fts(rowid, edition_id, title, author, description, vibe_tags)
+    VALUES (new.rowid, new.id, new.title, new.author, new.description, new.vibe_tags);
+END;
+
+CREATE TRIGGER books_fts_delete AFTER DELETE ON editions BEGIN
+    DELETE FROM books_fts WHERE rowid = old.rowid;
+END;
+
+PRAGMA defer_foreign_keys = off;
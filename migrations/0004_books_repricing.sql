@@ -0,0 +1,11 @@
+-- Migration 0004: automatic repricing columns on books
+
+ALTER TABLE books ADD COLUMN reprice_exempt INTEGER NOT NULL DEFAULT 0;  -- boolean: never marked down automatically
+ALTER TABLE books ADD COLUMN base_price INTEGER;  -- in pence, price the markdown applies to (NULL: derive from sell_price)
+ALTER TABLE books ADD COLUMN markdown REAL NOT NULL DEFAULT 0;  -- fraction currently taken off base_price
+ALTER TABLE books ADD COLUMN live_at TEXT;  -- When the copy last went live
+
+-- Repricing only considers copies with a live_at. The last update to a copy
+-- that is live now came no earlier than it went live, so markdowns start from
+-- there rather than never.
+UPDATE books SET live_at = updated_at WHERE status = 'live';
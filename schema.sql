@@ -1,9 +1,11 @@
 -- Database Schema for AI-Powered Charitable Bookstore
 -- Version: 1.0
+-- Existing databases: apply migrations/ first (wrangler d1 migrations apply),
+-- since CREATE TABLE IF NOT EXISTS leaves tables that already exist unchanged
 
--- ==================== BOOKS TABLE ====================
--- Stores all book information, metadata, and AI enrichment
-CREATE TABLE IF NOT EXISTS books (
+-- ==================== EDITIONS TABLE ====================
+-- One row per ISBN: metadata, AI enrichment and cover shared by every copy
+CREATE TABLE IF NOT EXISTS editions (
     id TEXT PRIMARY KEY,
     isbn TEXT UNIQUE NOT NULL,
     title TEXT NOT NULL,
@@ -11,12 +13,6 @@ CREATE TABLE IF NOT EXISTS books (
     description TEXT,
     cover_url TEXT,
 
-    -- Physical attributes
-    condition TEXT NOT NULL CHECK(condition IN ('like_new', 'very_good', 'good', 'acceptable')),
-    cost_price INTEGER NOT NULL,  -- in pence
-    sell_price INTEGER NOT NULL,  -- in pence
-    in_stock INTEGER NOT NULL DEFAULT 1,  -- boolean (0 or 1)
-
     -- Metadata and enrichment (stored as JSON)
     metadata TEXT,  -- JSON: publisher, page_count, categories, etc.
     vibe_tags TEXT,
@@ -26,17 +22,46 @@ CREATE TABLE IF NOT EXISTS books (
     -- Search and discovery
     vector_id TEXT,  -- Reference to Vectorize embedding
 
+    -- Timestamps
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+);
+
+-- Index on created_at for sorting
+CREATE INDEX IF NOT EXISTS idx_editions_created_at ON editions(created_at DESC);
+
+
+-- ==================== BOOKS TABLE ====================
+-- One row per physical copy (the unit that is priced, reserved and sold)
+CREATE TABLE IF NOT EXISTS books (
+    id TEXT PRIMARY KEY,
+    edition_id TEXT NOT NULL,
+
+    -- Physical attributes
+    condition TEXT NOT NULL CHECK(condition IN ('like_new', 'very_good', 'good', 'acceptable')),
+    cost_price INTEGER NOT NULL,  -- in pence
+    sell_price INTEGER NOT NULL,  -- in pence
+    in_stock INTEGER NOT NULL DEFAULT 1,  -- boolean (0 or 1)
+
     -- Status tracking
     status TEXT NOT NULL DEFAULT 'draft' CHECK(status IN ('draft', 'pending_review', 'live', 'sold', 'removed')),
 
+    -- Automatic repricing (price decay)
+    reprice_exempt INTEGER NOT NULL DEFAULT 0,  -- boolean: never marked down automatically
+    base_price INTEGER,  -- in pence, price the markdown applies to (NULL: derive from sell_price)
+    markdown REAL NOT NULL DEFAULT 0,  -- fraction currently taken off base_price
+
     -- Timestamps
     created_at TEXT NOT NULL,
     updated_at TEXT NOT NULL,
-    sold_at TEXT
+    live_at TEXT,  -- When the copy last went live
+    sold_at TEXT,
+
+    FOREIGN KEY (edition_id) REFERENCES editions(id)
 );
 
--- Index on ISBN for quick lookups
-CREATE INDEX IF NOT EXISTS idx_books_isbn ON books(isbn);
+-- Index on edition for grouping copies
+CREATE INDEX IF NOT EXISTS idx_books_edition ON books(edition_id);
 
 -- Index on status and stock for filtering
 CREATE INDEX IF NOT EXISTS idx_books_status_stock ON books(status, in_stock);
@@ -46,29 +71,29 @@ CREATE INDEX IF NOT EXISTS idx_books_created_at ON books(created_at DESC);
 
 
 -- ==================== FULL-TEXT SEARCH ====================
--- Virtual table for full-text search on books
--- Note: Using standalone FTS5 table (not content=books) for D1 compatibility
+-- Virtual table for full-text search on editions
+-- Note: Using standalone FTS5 table (not content=editions) for D1 compatibility
 CREATE VIRTUAL TABLE IF NOT EXISTS books_fts USING fts5(
-    book_id UNINDEXED,
+    edition_id UNINDEXED,
     title,
     author,
     description,
     vibe_tags
 );
 
--- Triggers to keep FTS table in sync with books table
-CREATE TRIGGER IF NOT EXISTS books_fts_insert AFTER INSERT ON books BEGIN
-    INSERT INTO books_fts(rowid, book_id, title, author, description, vibe_tags)
+-- Triggers to keep FTS table in sync with editions table
+CREATE TRIGGER IF NOT EXISTS books_fts_insert AFTER INSERT ON editions BEGIN
+    INSERT INTO books_fts(rowid, edition_id, title, author, description, vibe_tags)
     VALUES (new.rowid, new.id, new.title, new.author, new.description, new.vibe_tags);
 END;
 
-CREATE TRIGGER IF NOT EXISTS books_fts_update AFTER UPDATE ON books BEGIN
+CREATE TRIGGER IF NOT EXISTS books_fts_update AFTER UPDATE ON editions BEGIN
     DELETE FROM books_fts WHERE rowid = old.rowid;
-    INSERT INTO books_fts(rowid, book_id, title, author, description, vibe_tags)
+    INSERT INTO books_fts(rowid, edition_id, title, author, description, vibe_tags)
     VALUES (new.rowid, new.id, new.title, new.author, new.description, new.vibe_tags);
 END;
 
-CREATE TRIGGER IF NOT EXISTS books_fts_delete AFTER DELETE ON books BEGIN
+CREATE TRIGGER IF NOT EXISTS books_fts_delete AFTER DELETE ON editions BEGIN
     DELETE FROM books_fts WHERE rowid = old.rowid;
 END;
 
@@ -85,7 +110,7 @@ CREATE TABLE IF NOT EXISTS orders (
     profit_amount INTEGER NOT NULL,  -- in pence (book_price - cost_price)
     charity_name TEXT NOT NULL,
     stripe_payment_id TEXT NOT NULL,
-    payment_status TEXT NOT NULL DEFAULT 'pending' CHECK(payment_status IN ('pending', 'succeeded', 'failed')),
+    payment_status TEXT NOT NULL DEFAULT 'pending' CHECK(payment_status IN ('pending', 'succeeded', 'failed', 'needs_refund')),
 
     -- Blockchain tracking
     base_tx_hash TEXT,
@@ -94,6 +119,7 @@ CREATE TABLE IF NOT EXISTS orders (
     -- Batch tracking for monthly donations
     month_batch TEXT NOT NULL,  -- Format: YYYY-MM
     donation_status TEXT NOT NULL DEFAULT 'pending' CHECK(donation_status IN ('pending', 'sent', 'confirmed')),
+    donation_id TEXT,  -- monthly_donations batch this order's profit belongs to
 
     -- Timestamps
     created_at TEXT NOT NULL,
@@ -107,6 +133,58 @@ CREATE INDEX IF NOT EXISTS idx_orders_book_id ON orders(book_id);
 CREATE INDEX IF NOT EXISTS idx_orders_month_batch ON orders(month_batch);
 CREATE INDEX IF NOT EXISTS idx_orders_donation_status ON orders(donation_status);
 CREATE INDEX IF NOT EXISTS idx_orders_created_at ON orders(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_orders_stripe_payment_id ON orders(stripe_payment_id);
+CREATE INDEX IF NOT EXISTS idx_orders_donation_id ON orders(donation_id);
+
+
+-- ==================== BOOK RESERVATIONS TABLE ====================
+-- Short-lived holds on a single copy while a customer pays
+CREATE TABLE IF NOT EXISTS book_reservations (
+    id TEXT PRIMARY KEY,
+    book_id TEXT NOT NULL,
+    order_id TEXT,
+    status TEXT NOT NULL DEFAULT 'active' CHECK(status IN ('active', 'converted', 'released', 'expired')),
+    expires_at TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    released_at TEXT,  -- When the hold ended (converted, released or expired)
+
+    FOREIGN KEY (book_id) REFERENCES books(id),
+    FOREIGN KEY (order_id) REFERENCES orders(id)
+);
+
+-- At most one active hold per book (enforces single-copy checkout)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reservations_active_book
+    ON book_reservations(book_id) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_reservations_status_expires ON book_reservations(status, expires_at);
+CREATE INDEX IF NOT EXISTS idx_reservations_order_id ON book_reservations(order_id);
+
+
+-- ==================== PRICE HISTORY TABLE ====================
+-- Every change to a copy's sell_price
+CREATE TABLE IF NOT EXISTS price_history (
+    id TEXT PRIMARY KEY,
+    book_id TEXT NOT NULL,
+    old_price INTEGER,  -- in pence, NULL for the first price
+    new_price INTEGER NOT NULL,  -- in pence
+    source TEXT NOT NULL CHECK(source IN ('ingest', 'approval', 'manual', 'repricing')),
+    admin_id TEXT,  -- NULL for automated changes
+    details TEXT,  -- JSON: why the price changed
+    created_at TEXT NOT NULL,
+
+    FOREIGN KEY (book_id) REFERENCES books(id),
+    FOREIGN KEY (admin_id) REFERENCES admin_users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_price_history_book ON price_history(book_id, created_at);
+
+
+-- ==================== STRIPE EVENTS TABLE ====================
+-- Webhook events already processed (replayed events are ignored)
+CREATE TABLE IF NOT EXISTS stripe_events (
+    id TEXT PRIMARY KEY,  -- Stripe event ID (evt_...)
+    type TEXT NOT NULL,
+    processed_at TEXT NOT NULL
+);
 
 
 -- ==================== MONTHLY DONATIONS TABLE ====================
@@ -119,6 +197,7 @@ CREATE TABLE IF NOT EXISTS monthly_donations (
     -- Donation details
     total_amount INTEGER NOT NULL,  -- in pence
     order_count INTEGER NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending', 'sent', 'confirmed')),
 
     -- Proof of donation
     receipt_url TEXT,  -- R2/IPFS URL
@@ -131,6 +210,7 @@ CREATE TABLE IF NOT EXISTS monthly_donations (
     -- Timestamps
     created_at TEXT NOT NULL,
     sent_at TEXT,  -- When donation was sent to charity
+    confirmed_at TEXT,  -- When the charity confirmed receipt
     recorded_at TEXT  -- When recorded on blockchain
 );
 
@@ -138,6 +218,9 @@ CREATE TABLE IF NOT EXISTS monthly_donations (
 CREATE INDEX IF NOT EXISTS idx_donations_month ON monthly_donations(month DESC);
 CREATE INDEX IF NOT EXISTS idx_donations_charity ON monthly_donations(charity_name);
 
+-- One batch per charity per month (keeps the batching job re-runnable)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_donations_month_charity ON monthly_donations(month, charity_name);
+
 
 -- ==================== ADMIN USERS TABLE ====================
 -- Simple admin authentication (expand as needed)
@@ -146,7 +229,7 @@ CREATE TABLE IF NOT EXISTS admin_users (
     email TEXT UNIQUE NOT NULL,
     password_hash TEXT NOT NULL,
     name TEXT,
-    role TEXT NOT NULL DEFAULT 'admin',
+    role TEXT NOT NULL DEFAULT 'admin',  -- 'superadmin', 'admin', 'reviewer', 'volunteer', 'finance'
     active INTEGER NOT NULL DEFAULT 1,
     created_at TEXT NOT NULL,
     last_login TEXT
@@ -191,3 +274,78 @@ CREATE TABLE IF NOT EXISTS blockchain_events (
 CREATE INDEX IF NOT EXISTS idx_blockchain_reference ON blockchain_events(reference_id);
 CREATE INDEX IF NOT EXISTS idx_blockchain_status ON blockchain_events(status);
 CREATE INDEX IF NOT EXISTS idx_blockchain_created_at ON blockchain_events(created_at DESC);
+
+
+-- ==================== INGEST JOBS TABLES ====================
+-- Bulk ISBN ingestion: one job per upload, one row per ISBN
+CREATE TABLE IF NOT EXISTS ingest_jobs (
+    id TEXT PRIMARY KEY,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending', 'processing', 'completed')),
+    total_rows INTEGER NOT NULL,
+    created_by TEXT,  -- admin who uploaded the job
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    completed_at TEXT,
+
+    FOREIGN KEY (created_by) REFERENCES admin_users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ingest_jobs_created_at ON ingest_jobs(created_at DESC);
+
+CREATE TABLE IF NOT EXISTS ingest_job_rows (
+    job_id TEXT NOT NULL,
+    row_number INTEGER NOT NULL,  -- 1-based position in the upload
+    isbn TEXT NOT NULL,
+    condition TEXT,
+    cost_price REAL,  -- in pounds, as uploaded
+    status TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending', 'processing', 'succeeded', 'failed')),
+    book_id TEXT,  -- created copy (succeeded)
+    error TEXT,
+    warnings TEXT,  -- JSON array of non-fatal ingestion errors
+    attempts INTEGER NOT NULL DEFAULT 0,
+    updated_at TEXT NOT NULL,
+
+    PRIMARY KEY (job_id, row_number),
+    FOREIGN KEY (job_id) REFERENCES ingest_jobs(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ingest_job_rows_status ON ingest_job_rows(job_id, status);
+
+
+-- ==================== METADATA CACHE TABLE ====================
+-- Raw metadata provider responses, reused until they expire
+CREATE TABLE IF NOT EXISTS metadata_cache (
+    provider TEXT NOT NULL,
+    isbn TEXT NOT NULL,  -- normalized
+    response TEXT,  -- JSON, NULL when the provider has no such book
+    fetched_at TEXT NOT NULL,
+    expires_at TEXT NOT NULL,
+
+    PRIMARY KEY (provider, isbn)
+);
+
+
+-- ==================== METADATA REFRESH TABLE ====================
+-- Re-fetched metadata / re-run enrichment awaiting field-by-field acceptance
+CREATE TABLE IF NOT EXISTS metadata_refreshes (
+    id TEXT PRIMARY KEY,
+    edition_id TEXT NOT NULL,
+    book_id TEXT NOT NULL,  -- copy the refresh was requested for
+    status TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending', 'applied')),
+    metadata INTEGER NOT NULL,  -- boolean: metadata re-fetched
+    enrichment INTEGER NOT NULL,  -- boolean: enrichment re-run
+    changes TEXT NOT NULL,  -- JSON array of {field, current, proposed, provenance, manual_override}
+    errors TEXT,  -- JSON array
+    accepted TEXT,  -- JSON array of applied fields
+    created_by TEXT,
+    created_at TEXT NOT NULL,
+    applied_by TEXT,
+    applied_at TEXT,
+
+    FOREIGN KEY (edition_id) REFERENCES editions(id),
+    FOREIGN KEY (book_id) REFERENCES books(id),
+    FOREIGN KEY (created_by) REFERENCES admin_users(id),
+    FOREIGN KEY (applied_by) REFERENCES admin_users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_metadata_refreshes_edition ON metadata_refreshes(edition_id, created_at DESC);
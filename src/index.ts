@@ -3,10 +3,22 @@
  * Main entry point for the API
  */
 
-import { Env } from './types';
+import { Env, BlockchainQueueMessage, IngestQueueMessage } from './types';
 import { Router } from './utils/router';
 import * as admin from './routes/admin';
 import * as publicRoutes from './routes/public';
+import * as auth from './routes/auth';
+import * as checkout from './routes/checkout';
+import * as webhooks from './routes/webhooks';
+import * as donations from './routes/donations';
+import * as ingestJobs from './routes/ingest-jobs';
+import * as transparency from './routes/transparency';
+import * as pricing from './routes/pricing';
+import * as metadataRefresh from './routes/metadata-refresh';
+import { requireAdmin, withPermission } from './middleware/auth';
+import { runScheduledJobs } from './jobs';
+import { handleBlockchainBatch } from './workers/blockchain-recorder';
+import { handleIngestBatch } from './workers/bulk-ingester';
 
 // Create router
 const router = new Router();
@@ -21,62 +33,114 @@ router.get('/api/books', publicRoutes.listPublicBooks);
 router.get('/api/books/:id', (req, env, params) =>
   publicRoutes.getPublicBook(req, env, params!.id)
 );
+router.get('/api/books/:id/similar', (req, env, params) =>
+  publicRoutes.getSimilarBooks(req, env, params!.id)
+);
 
 // Search
 router.get('/api/search', publicRoutes.searchBooks);
+router.get('/api/search/vibe', publicRoutes.vibeSearch);
 
-// Serve images from R2
-router.get('/assets/:path', async (req, env, params) => {
-  try {
-    const key = `covers/${params!.path}`;
-    const object = await env.ASSETS.get(key);
+// Checkout
+router.post('/api/checkout', checkout.createCheckout);
 
-    if (!object) {
-      return new Response('Image not found', { status: 404 });
-    }
+// Payment webhooks (authenticated by Stripe signature)
+router.post('/api/webhooks/stripe', webhooks.stripeWebhook);
 
-    return new Response(object.body, {
-      headers: {
-        'Content-Type': object.httpMetadata?.contentType || 'image/jpeg',
-        'Cache-Control': 'public, max-age=31536000',
-        'Access-Control-Allow-Origin': '*'
-      }
-    });
-  } catch (error) {
-    console.error('R2 fetch error:', error);
-    return new Response('Error fetching image', { status: 500 });
-  }
-});
+// Transparency
+router.get('/api/transparency/donations', transparency.listDonations);
+router.get('/api/transparency/summary', transparency.getSummary);
+
+// Serve covers and donation documents from R2
+router.get('/assets/:path', (req, env, params) =>
+  publicRoutes.serveAsset(req, env, 'covers', params!.path)
+);
+router.get('/assets/:folder/:path', (req, env, params) =>
+  publicRoutes.serveAsset(req, env, params!.folder, params!.path)
+);
+
+// ========== AUTH ROUTES ==========
+
+router.post('/api/auth/login', auth.login);
 
 // ========== ADMIN ROUTES ==========
-// TODO: Add authentication middleware
+
+// Every /api/admin/* route requires a valid admin JWT
+router.use('/api/admin', requireAdmin);
+
+// Current admin
+router.get('/api/admin/me', auth.me);
 
 // Book ingestion
-router.post('/api/admin/books/ingest', admin.ingestBook);
+router.post('/api/admin/books/ingest', withPermission('books:ingest', admin.ingestBook));
+router.post('/api/admin/books/manual', withPermission('books:ingest', admin.ingestManualBook));
+
+// Bulk ingestion
+router.post('/api/admin/ingest-jobs', withPermission('books:ingest', ingestJobs.createIngestJob));
+router.get('/api/admin/ingest-jobs/:id', withPermission('books:ingest', (req, env, params) =>
+  ingestJobs.getIngestJob(req, env, params!.id)
+));
 
 // Book management
-router.get('/api/admin/books', admin.listBooks);
-router.get('/api/admin/books/:id', (req, env, params) =>
+router.get('/api/admin/books', withPermission('books:read', admin.listBooks));
+router.get('/api/admin/books/:id', withPermission('books:read', (req, env, params) =>
   admin.getBook(req, env, params!.id)
-);
-router.patch('/api/admin/books/:id', (req, env, params) =>
-  admin.updateBook(req, env, params!.id)
-);
-router.delete('/api/admin/books/:id', (req, env, params) =>
-  admin.rejectBook(req, env, params!.id)
-);
+));
+router.patch('/api/admin/books/:id', withPermission('books:edit', (req, env, params, ctx) =>
+  admin.updateBook(req, env, params!.id, ctx?.admin)
+));
+router.delete('/api/admin/books/:id', withPermission('books:reject', (req, env, params, ctx) =>
+  admin.rejectBook(req, env, params!.id, ctx?.admin)
+));
 
 // Book approval workflow
-router.patch('/api/admin/books/:id/approve', (req, env, params) =>
-  admin.approveBook(req, env, params!.id)
-);
+router.patch('/api/admin/books/:id/approve', withPermission('books:approve', (req, env, params, ctx) =>
+  admin.approveBook(req, env, params!.id, ctx?.admin)
+));
+
+// Metadata refresh
+router.post('/api/admin/books/refresh', withPermission('books:edit', metadataRefresh.refreshBooks));
+router.post('/api/admin/books/:id/refresh', withPermission('books:edit', (req, env, params, ctx) =>
+  metadataRefresh.refreshBook(req, env, params!.id, ctx)
+));
+router.get('/api/admin/metadata-refreshes/:id', withPermission('books:read', (req, env, params) =>
+  metadataRefresh.getRefresh(req, env, params!.id)
+));
+router.post('/api/admin/metadata-refreshes/:id/apply', withPermission('books:edit', (req, env, params, ctx) =>
+  metadataRefresh.applyRefresh(req, env, params!.id, ctx)
+));
+
+// Pricing
+router.get('/api/admin/repricing/preview', withPermission('books:read', pricing.previewRepricing));
+router.get('/api/admin/books/:id/pricing', withPermission('books:read', (req, env, params) =>
+  pricing.getPricingTimeline(req, env, params!.id)
+));
+router.get('/api/admin/pricing/margins', withPermission('orders:manage', pricing.getMarginReport));
+
+// Donations
+router.get('/api/admin/donations', withPermission('donations:manage', donations.listDonations));
+router.post('/api/admin/donations/batch', withPermission('donations:manage', (req, env, _params, ctx) =>
+  donations.createBatches(req, env, ctx?.admin)
+));
+router.get('/api/admin/donations/:id', withPermission('donations:manage', (req, env, params) =>
+  donations.getDonation(req, env, params!.id)
+));
+router.post('/api/admin/donations/:id/documents', withPermission('donations:manage', (req, env, params, ctx) =>
+  donations.uploadDocuments(req, env, params!.id, ctx?.admin)
+));
+router.patch('/api/admin/donations/:id/status', withPermission('donations:manage', (req, env, params, ctx) =>
+  donations.updateStatus(req, env, params!.id, ctx?.admin)
+));
+
+// Audit trail
+router.get('/api/admin/audit', withPermission('audit:read', admin.listAuditLog));
 
 // ========== WORKER EXPORT ==========
 
 export default {
   async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
     try {
-      return await router.route(request, env);
+      return await router.route(request, env, ctx);
     } catch (error) {
       console.error('Worker error:', error);
 
@@ -95,5 +159,27 @@ export default {
         }
       );
     }
+  },
+
+  async scheduled(event: ScheduledEvent, env: Env, ctx: ExecutionContext): Promise<void> {
+    ctx.waitUntil(
+      runScheduledJobs(event.cron, env).catch(error =>
+        console.error(`Scheduled job error (${event.cron}):`, error)
+      )
+    );
+  },
+
+  async queue(
+    batch: MessageBatch<BlockchainQueueMessage | IngestQueueMessage>,
+    env: Env
+  ): Promise<void> {
+    // Queue names as configured in wrangler.toml
+    switch (batch.queue) {
+      case 'ingest-queue':
+        await handleIngestBatch(batch as MessageBatch<IngestQueueMessage>, env);
+        break;
+      default:
+        await handleBlockchainBatch(batch as MessageBatch<BlockchainQueueMessage>, env);
+    }
   }
 };
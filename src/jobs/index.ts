@@ -0,0 +1,68 @@
+import { Env } from '../types';
+import { ReservationService } from '../services/reservations';
+import { DonationService } from '../services/donations';
+import { RepricingService } from '../services/repricing';
+import { IngestJobService } from '../services/ingest-jobs';
+import { getPreviousMonthBatch } from '../utils/helpers';
+
+/**
+ * Scheduled Jobs
+ * Maps each cron trigger in wrangler.toml to the jobs it runs
+ */
+
+export const CRON_RESERVATION_SWEEP = '*/5 * * * *';
+export const CRON_MONTHLY_DONATIONS = '0 9 1 * *';
+export const CRON_DAILY_REPRICING = '0 3 * * *';
+
+export async function runScheduledJobs(cron: string, env: Env): Promise<void> {
+  switch (cron) {
+    case CRON_RESERVATION_SWEEP:
+      await expireReservations(env);
+      await sweepIngestJobs(env);
+      break;
+
+    case CRON_MONTHLY_DONATIONS:
+      await batchMonthlyDonations(env);
+      break;
+
+    case CRON_DAILY_REPRICING:
+      await repriceSlowStock(env);
+      break;
+
+    default:
+      console.warn(`No scheduled job registered for cron: ${cron}`);
+  }
+}
+
+/**
+ * Release checkout holds that have passed their expiry time
+ */
+export async function expireReservations(env: Env): Promise<void> {
+  const reservationService = new ReservationService(env);
+  await reservationService.expireStale();
+}
+
+/**
+ * Recover stalled bulk ingestion rows, and process pending ones when
+ * INGEST_QUEUE isn't bound
+ */
+export async function sweepIngestJobs(env: Env): Promise<void> {
+  const ingestJobService = new IngestJobService(env);
+  await ingestJobService.sweep();
+}
+
+/**
+ * Batch last month's paid orders into per-charity donations
+ */
+export async function batchMonthlyDonations(env: Env): Promise<void> {
+  const donationService = new DonationService(env);
+  await donationService.createMonthlyBatches(getPreviousMonthBatch());
+}
+
+/**
+ * Mark down copies that have been live past the repricing tiers
+ */
+export async function repriceSlowStock(env: Env): Promise<void> {
+  const repricingService = new RepricingService(env);
+  await repricingService.run();
+}
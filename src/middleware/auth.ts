@@ -0,0 +1,46 @@
+import { Env, Permission, RequestContext } from '../types';
+import { AuthService } from '../services/auth';
+import { RouteHandler } from '../utils/router';
+import { assertPermission } from '../utils/permissions';
+import { errorResponse, handleError } from '../utils/helpers';
+
+/**
+ * Admin Authentication Middleware
+ * Requires a valid `Authorization: Bearer <token>` header and exposes
+ * the authenticated admin to handlers via context.admin
+ */
+export async function requireAdmin(
+  request: Request,
+  env: Env,
+  context: RequestContext
+): Promise<Response | void> {
+  const header = request.headers.get('Authorization') || '';
+  const match = header.match(/^Bearer\s+(.+)$/i);
+
+  if (!match) {
+    return errorResponse('Authentication required', 401);
+  }
+
+  try {
+    const authService = new AuthService(env);
+    context.admin = await authService.authenticate(match[1].trim());
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+/**
+ * Wrap a route handler so it only runs if the authenticated admin's role
+ * grants the given permission (403 otherwise)
+ */
+export function withPermission(permission: Permission, handler: RouteHandler): RouteHandler {
+  return async (request, env, params, context) => {
+    try {
+      assertPermission(context?.admin, permission);
+    } catch (error) {
+      return handleError(error);
+    }
+
+    return handler(request, env, params, context);
+  };
+}
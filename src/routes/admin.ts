@@ -1,6 +1,7 @@
-import { Env, IngestBookRequest } from '../types';
+import { Env, IngestBookRequest, ManualIngestRequest, BookCondition, AdminUser, AuditEntityType, RequestContext } from '../types';
 import { IngestionService } from '../services/ingestion';
 import { DatabaseService } from '../services/database';
+import { AuditService } from '../services/audit';
 import {
   parseJSON,
   successResponse,
@@ -18,7 +19,12 @@ import {
  * POST /api/admin/books/ingest
  * Ingest a new book from ISBN
  */
-export async function ingestBook(request: Request, env: Env): Promise<Response> {
+export async function ingestBook(
+  request: Request,
+  env: Env,
+  _params?: Record<string, string>,
+  context?: RequestContext
+): Promise<Response> {
   try {
     const body = await parseJSON<IngestBookRequest>(request);
 
@@ -36,7 +42,61 @@ export async function ingestBook(request: Request, env: Env): Promise<Response>
     }
 
     const ingestionService = new IngestionService(env);
-    const result = await ingestionService.ingestBook(body);
+    const result = await ingestionService.ingestBook(body, context?.admin?.id);
+
+    return successResponse(result, 201);
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+/**
+ * POST /api/admin/books/manual
+ * Catalogue a book by hand (no ISBN, or one no provider knows).
+ * multipart/form-data with an optional `cover` image, or JSON without one.
+ */
+export async function ingestManualBook(
+  request: Request,
+  env: Env,
+  _params?: Record<string, string>,
+  context?: RequestContext
+): Promise<Response> {
+  try {
+    const contentType = request.headers.get('Content-Type') || '';
+    let fields: Record<string, unknown>;
+    let cover: File | undefined;
+
+    if (contentType.includes('multipart/form-data')) {
+      let form: FormData;
+      try {
+        form = await request.formData();
+      } catch (error) {
+        return errorResponse('Invalid multipart/form-data body', 400);
+      }
+
+      fields = {};
+      form.forEach((value, key) => {
+        if (typeof value === 'string') fields[key] = value;
+      });
+
+      const file = form.get('cover') as unknown;
+      if (file instanceof File && file.size > 0) {
+        cover = file;
+      }
+    } else {
+      const json = await parseJSON<unknown>(request);
+
+      if (typeof json !== 'object' || json === null || Array.isArray(json)) {
+        return errorResponse('Request body must be a JSON object', 400);
+      }
+
+      fields = json as Record<string, unknown>;
+    }
+
+    const body = parseManualIngest(fields);
+
+    const ingestionService = new IngestionService(env);
+    const result = await ingestionService.ingestManualBook(body, cover, context?.admin?.id);
 
     return successResponse(result, 201);
   } catch (error) {
@@ -51,7 +111,8 @@ export async function ingestBook(request: Request, env: Env): Promise<Response>
 export async function approveBook(
   request: Request,
   env: Env,
-  bookId: string
+  bookId: string,
+  admin?: AdminUser
 ): Promise<Response> {
   try {
     const body = await parseJSON<{
@@ -63,7 +124,7 @@ export async function approveBook(
     }>(request);
 
     const ingestionService = new IngestionService(env);
-    const book = await ingestionService.approveBook(bookId, body);
+    const book = await ingestionService.approveBook(bookId, body, admin?.id);
 
     return successResponse({
       success: true,
@@ -81,11 +142,12 @@ export async function approveBook(
 export async function rejectBook(
   request: Request,
   env: Env,
-  bookId: string
+  bookId: string,
+  admin?: AdminUser
 ): Promise<Response> {
   try {
     const ingestionService = new IngestionService(env);
-    await ingestionService.rejectBook(bookId);
+    await ingestionService.rejectBook(bookId, admin?.id);
 
     return successResponse({
       success: true,
@@ -158,20 +220,152 @@ export async function getBook(
 export async function updateBook(
   request: Request,
   env: Env,
-  bookId: string
+  bookId: string,
+  admin?: AdminUser
 ): Promise<Response> {
   try {
     const body = await parseJSON<any>(request);
     const db = new DatabaseService(env);
 
-    const book = await db.updateBook(bookId, body);
+    const before = await db.getBook(bookId);
+    const book = before
+      ? await db.updateBook(bookId, body, { source: 'manual', admin_id: admin?.id })
+      : null;
 
-    if (!book) {
+    if (!before || !book) {
       return errorResponse('Book not found', 404);
     }
 
+    const audit = new AuditService(env);
+    await audit.recordBookChange('update_book', before, book, admin?.id);
+
     return successResponse({ book });
   } catch (error) {
     return handleError(error);
   }
 }
+
+/**
+ * GET /api/admin/audit
+ * List audit log entries (filterable by entity, admin and date range)
+ */
+export async function listAuditLog(request: Request, env: Env): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const entity_type = url.searchParams.get('entity_type') as AuditEntityType | null;
+    const entity_id = url.searchParams.get('entity_id');
+    const admin_id = url.searchParams.get('admin_id');
+    const from = url.searchParams.get('from');
+    const to = url.searchParams.get('to');
+    const limit = parseInt(url.searchParams.get('limit') || '50');
+    const offset = parseInt(url.searchParams.get('offset') || '0');
+
+    if (entity_type && !['book', 'order', 'donation'].includes(entity_type)) {
+      return errorResponse('entity_type must be one of: book, order, donation', 400);
+    }
+
+    for (const [name, value] of [['from', from], ['to', to]]) {
+      if (value && isNaN(Date.parse(value))) {
+        return errorResponse(`Invalid ${name} date`, 400);
+      }
+    }
+
+    const db = new DatabaseService(env);
+    const result = await db.listAuditLogs({
+      entity_type: entity_type || undefined,
+      entity_id: entity_id || undefined,
+      admin_id: admin_id || undefined,
+      from: from ? new Date(from).toISOString() : undefined,
+      to: to ? new Date(to).toISOString() : undefined,
+      limit,
+      offset
+    });
+
+    return successResponse({
+      entries: result.entries,
+      total: result.total,
+      limit,
+      offset,
+      has_more: offset + result.entries.length < result.total
+    });
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+// ========== HELPERS ==========
+
+const CONDITIONS: BookCondition[] = ['like_new', 'very_good', 'good', 'acceptable'];
+
+/**
+ * A manual ingest request from JSON or form fields
+ * Form values are all strings, so numbers may also be given as numeric strings
+ */
+function parseManualIngest(fields: Record<string, unknown>): ManualIngestRequest {
+  const title = optionalString(fields, 'title');
+  const author = optionalString(fields, 'author');
+
+  if (!title?.trim() || !author?.trim()) {
+    throw new BookstoreError('Title and author are required', 400);
+  }
+
+  const condition = fields.condition;
+  if (typeof condition !== 'string' || !CONDITIONS.includes(condition as BookCondition)) {
+    throw new BookstoreError(`Condition must be one of: ${CONDITIONS.join(', ')}`, 400);
+  }
+
+  const costPrice = optionalNumber(fields, 'cost_price');
+  if (costPrice === undefined) {
+    throw new BookstoreError('cost_price is required', 400);
+  }
+
+  // Comma-separated in a form, an array in JSON
+  const categories = fields.categories;
+  if (Array.isArray(categories) && !categories.every(category => typeof category === 'string')) {
+    throw new BookstoreError('categories must be a list of strings', 400);
+  }
+
+  return {
+    title,
+    author,
+    condition: condition as BookCondition,
+    cost_price: costPrice,
+    isbn: optionalString(fields, 'isbn'),
+    description: optionalString(fields, 'description'),
+    publisher: optionalString(fields, 'publisher'),
+    publish_date: optionalString(fields, 'publish_date'),
+    page_count: optionalNumber(fields, 'page_count'),
+    categories: Array.isArray(categories)
+      ? categories as string[]
+      : optionalString(fields, 'categories')?.split(','),
+    language: optionalString(fields, 'language')?.toLowerCase()
+  };
+}
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+function optionalString(fields: Record<string, unknown>, name: string): string | undefined {
+  const value = fields[name];
+  if (isBlank(value)) return undefined;
+
+  if (typeof value !== 'string') {
+    throw new BookstoreError(`${name} must be a string`, 400);
+  }
+
+  return value;
+}
+
+function optionalNumber(fields: Record<string, unknown>, name: string): number | undefined {
+  const value = fields[name];
+  if (isBlank(value)) return undefined;
+
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+
+  if (typeof number !== 'number' || !Number.isFinite(number)) {
+    throw new BookstoreError(`${name} must be a number`, 400);
+  }
+
+  return number;
+}
@@ -0,0 +1,51 @@
+import { Env, LoginRequest, RequestContext } from '../types';
+import { AuthService } from '../services/auth';
+import {
+  parseJSON,
+  successResponse,
+  errorResponse,
+  handleError
+} from '../utils/helpers';
+
+/**
+ * Auth API Routes
+ * Handles admin login and session lookup
+ */
+
+/**
+ * POST /api/auth/login
+ * Exchange admin email/password for a JWT
+ */
+export async function login(request: Request, env: Env): Promise<Response> {
+  try {
+    const body = await parseJSON<LoginRequest>(request);
+
+    if (!body.email || !body.password) {
+      return errorResponse('Email and password are required', 400);
+    }
+
+    const authService = new AuthService(env);
+    const result = await authService.login(body.email, body.password);
+
+    return successResponse(result);
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+/**
+ * GET /api/admin/me
+ * Return the currently authenticated admin
+ */
+export async function me(
+  _request: Request,
+  _env: Env,
+  _params?: Record<string, string>,
+  context?: RequestContext
+): Promise<Response> {
+  if (!context?.admin) {
+    return errorResponse('Authentication required', 401);
+  }
+
+  return successResponse({ admin: context.admin });
+}
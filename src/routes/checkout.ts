@@ -0,0 +1,38 @@
+import { Env, CheckoutRequest } from '../types';
+import { CheckoutService } from '../services/checkout';
+import {
+  parseJSON,
+  successResponse,
+  errorResponse,
+  handleError
+} from '../utils/helpers';
+
+/**
+ * Checkout API Routes
+ * Handles Stripe payment intent creation for customers
+ */
+
+/**
+ * POST /api/checkout
+ * Start checkout for a single book
+ */
+export async function createCheckout(request: Request, env: Env): Promise<Response> {
+  try {
+    const body = await parseJSON<CheckoutRequest>(request);
+
+    if (!body.book_id) {
+      return errorResponse('book_id is required', 400);
+    }
+
+    if (body.customer_email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(body.customer_email)) {
+      return errorResponse('Invalid customer_email', 400);
+    }
+
+    const checkoutService = new CheckoutService(env);
+    const result = await checkoutService.createCheckout(body);
+
+    return successResponse(result, 201);
+  } catch (error) {
+    return handleError(error);
+  }
+}
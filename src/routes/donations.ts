@@ -0,0 +1,192 @@
+import { Env, AdminUser, DonationStatus, DonationDocumentType } from '../types';
+import { DonationService } from '../services/donations';
+import { DatabaseService } from '../services/database';
+import { AuditService } from '../services/audit';
+import {
+  parseJSON,
+  parseOptionalJSON,
+  successResponse,
+  errorResponse,
+  handleError,
+  getPreviousMonthBatch
+} from '../utils/helpers';
+
+/**
+ * Donation Admin Routes
+ * Handles monthly donation batches for finance admins
+ */
+
+/**
+ * POST /api/admin/donations/batch
+ * (Re-)run donation batching for a month (defaults to last month)
+ */
+export async function createBatches(
+  request: Request,
+  env: Env,
+  admin?: AdminUser
+): Promise<Response> {
+  try {
+    const body = await parseOptionalJSON<{ month?: string }>(request);
+    const month = body.month || getPreviousMonthBatch();
+
+    if (typeof month !== 'string') {
+      return errorResponse('month must be a YYYY-MM string', 400);
+    }
+
+    const donationService = new DonationService(env);
+    const result = await donationService.createMonthlyBatches(month);
+
+    const audit = new AuditService(env);
+    for (const batch of result.batches) {
+      await audit.record('batch_donation', 'donation', batch.id, admin?.id, {
+        month: batch.month,
+        charity_name: batch.charity_name,
+        total_amount: batch.total_amount,
+        order_count: batch.order_count
+      });
+    }
+
+    return successResponse(result);
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+/**
+ * GET /api/admin/donations
+ * List donation batches (filter by status, month, charity)
+ */
+export async function listDonations(request: Request, env: Env): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const status = url.searchParams.get('status') as DonationStatus | null;
+    const month = url.searchParams.get('month');
+    const charity = url.searchParams.get('charity');
+    const limit = parseInt(url.searchParams.get('limit') || '50');
+    const offset = parseInt(url.searchParams.get('offset') || '0');
+
+    const db = new DatabaseService(env);
+    const result = await db.listDonations({
+      status: status || undefined,
+      month: month || undefined,
+      charity_name: charity || undefined,
+      limit,
+      offset
+    });
+
+    return successResponse({
+      donations: result.donations,
+      total: result.total,
+      limit,
+      offset,
+      has_more: offset + result.donations.length < result.total
+    });
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+/**
+ * GET /api/admin/donations/:id
+ * Get a donation batch with its orders
+ */
+export async function getDonation(
+  _request: Request,
+  env: Env,
+  donationId: string
+): Promise<Response> {
+  try {
+    const donationService = new DonationService(env);
+    const result = await donationService.getDonationWithOrders(donationId);
+
+    return successResponse(result);
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+/**
+ * POST /api/admin/donations/:id/documents
+ * Upload proof documents (multipart form fields: receipt, bank_statement)
+ */
+export async function uploadDocuments(
+  request: Request,
+  env: Env,
+  donationId: string,
+  admin?: AdminUser
+): Promise<Response> {
+  try {
+    let form: FormData;
+    try {
+      form = await request.formData();
+    } catch (error) {
+      return errorResponse('Expected multipart/form-data body', 400);
+    }
+
+    const documentTypes: DonationDocumentType[] = ['receipt', 'bank_statement'];
+    const files: Array<{ type: DonationDocumentType; file: File }> = [];
+    for (const type of documentTypes) {
+      const value = form.get(type) as unknown;
+      if (value instanceof File) {
+        files.push({ type, file: value });
+      }
+    }
+
+    if (files.length === 0) {
+      return errorResponse('Attach a receipt and/or bank_statement file', 400);
+    }
+
+    const donationService = new DonationService(env);
+    const audit = new AuditService(env);
+    let donation;
+
+    for (const { type, file } of files) {
+      donation = await donationService.attachDocument(donationId, type, file);
+
+      await audit.record('upload_donation_document', 'donation', donationId, admin?.id, {
+        document_type: type,
+        file_name: file.name,
+        url: type === 'receipt' ? donation.receipt_url : donation.bank_statement_url
+      });
+    }
+
+    return successResponse({ donation });
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+/**
+ * PATCH /api/admin/donations/:id/status
+ * Mark a batch as sent or confirmed (cascades to its orders)
+ */
+export async function updateStatus(
+  request: Request,
+  env: Env,
+  donationId: string,
+  admin?: AdminUser
+): Promise<Response> {
+  try {
+    const body = await parseJSON<{ status?: DonationStatus }>(request);
+
+    if (body.status !== 'sent' && body.status !== 'confirmed') {
+      return errorResponse("status must be 'sent' or 'confirmed'", 400);
+    }
+
+    const donationService = new DonationService(env);
+    const donation = body.status === 'sent'
+      ? await donationService.markSent(donationId)
+      : await donationService.markConfirmed(donationId);
+
+    const audit = new AuditService(env);
+    await audit.record('update_donation_status', 'donation', donationId, admin?.id, {
+      status: donation.status,
+      total_amount: donation.total_amount,
+      order_count: donation.order_count
+    });
+
+    return successResponse({ donation });
+  } catch (error) {
+    return handleError(error);
+  }
+}
@@ -0,0 +1,65 @@
+import { Env, RequestContext } from '../types';
+import { IngestJobService } from '../services/ingest-jobs';
+import { parseJSON, successResponse, errorResponse, handleError } from '../utils/helpers';
+
+/**
+ * Bulk Ingestion Routes
+ * Upload many ISBNs at once and follow the job's progress
+ */
+
+/**
+ * POST /api/admin/ingest-jobs
+ * Body: JSON { rows: [{ isbn, condition, cost_price }] } or { csv: "..." },
+ * or a raw text/csv upload with an isbn,condition,cost_price header
+ */
+export async function createIngestJob(
+  request: Request,
+  env: Env,
+  _params?: Record<string, string>,
+  context?: RequestContext
+): Promise<Response> {
+  try {
+    const ingestJobService = new IngestJobService(env);
+    const contentType = request.headers.get('Content-Type') || '';
+    let rows: unknown[];
+
+    if (contentType.includes('text/csv')) {
+      rows = ingestJobService.parseCSV(await request.text());
+    } else {
+      const body = await parseJSON<{ rows?: unknown; csv?: unknown }>(request);
+
+      if (typeof body.csv === 'string') {
+        rows = ingestJobService.parseCSV(body.csv);
+      } else if (Array.isArray(body.rows)) {
+        rows = body.rows;
+      } else {
+        return errorResponse('Provide rows (array) or csv (string)', 400);
+      }
+    }
+
+    const job = await ingestJobService.createJob(rows, context?.admin?.id, context?.execution);
+
+    return successResponse(job, 202);
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+/**
+ * GET /api/admin/ingest-jobs/:id
+ * Job progress with per-row status, errors and created book IDs
+ */
+export async function getIngestJob(
+  _request: Request,
+  env: Env,
+  jobId: string
+): Promise<Response> {
+  try {
+    const ingestJobService = new IngestJobService(env);
+    const job = await ingestJobService.getProgress(jobId);
+
+    return successResponse(job);
+  } catch (error) {
+    return handleError(error);
+  }
+}
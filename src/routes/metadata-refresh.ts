@@ -0,0 +1,178 @@
+import { Env, RefreshField, RefreshFilter, RefreshOptions, RequestContext } from '../types';
+import { MetadataRefreshService } from '../services/metadata-refresh';
+import { parseJSON, parseOptionalJSON, successResponse, errorResponse, handleError } from '../utils/helpers';
+
+/**
+ * Metadata Refresh Routes
+ * Re-fetch metadata / re-run enrichment for catalogued books, review the
+ * diff and accept it field by field
+ */
+
+const MISSING_FIELDS = ['description', 'cover_url', 'categories', 'ai_enrichment'];
+
+/**
+ * POST /api/admin/books/:id/refresh
+ * Body: { metadata?: boolean, enrichment?: boolean } (both default true; the body may be omitted)
+ * Returns the proposed changes; nothing is applied yet
+ */
+export async function refreshBook(
+  request: Request,
+  env: Env,
+  bookId: string,
+  context?: RequestContext
+): Promise<Response> {
+  try {
+    const body = await parseOptionalJSON<Record<string, any>>(request);
+    const options = parseOptions(body);
+
+    if (typeof options === 'string') {
+      return errorResponse(options, 400);
+    }
+
+    const refreshService = new MetadataRefreshService(env);
+    const refresh = await refreshService.refreshBook(bookId, options, context?.admin?.id);
+
+    return successResponse(refresh, 201);
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+/**
+ * POST /api/admin/books/refresh
+ * Body: { filter: { book_ids?, status?, missing?, enrichment_provider?, created_before?, limit? },
+ *         metadata?, enrichment?, accept?: string[] | 'all' }
+ * Refreshes up to 25 editions; `accept` applies those fields straight away
+ * (never over manual overrides)
+ */
+export async function refreshBooks(
+  request: Request,
+  env: Env,
+  _params?: Record<string, string>,
+  context?: RequestContext
+): Promise<Response> {
+  try {
+    const body = await parseJSON<Record<string, any>>(request);
+    const options = parseOptions(body);
+    const filter = (body.filter ?? {}) as RefreshFilter;
+
+    if (typeof options === 'string') {
+      return errorResponse(options, 400);
+    }
+
+    if (typeof filter !== 'object' || Array.isArray(filter)) {
+      return errorResponse('filter must be an object', 400);
+    }
+
+    if (filter.book_ids !== undefined && !isStringArray(filter.book_ids)) {
+      return errorResponse('filter.book_ids must be an array of book IDs', 400);
+    }
+
+    if (filter.missing !== undefined && !MISSING_FIELDS.includes(filter.missing)) {
+      return errorResponse(`filter.missing must be one of: ${MISSING_FIELDS.join(', ')}`, 400);
+    }
+
+    if (filter.limit !== undefined && !(Number.isInteger(filter.limit) && filter.limit > 0)) {
+      return errorResponse('filter.limit must be a positive integer', 400);
+    }
+
+    if (filter.created_before !== undefined && isNaN(Date.parse(filter.created_before))) {
+      return errorResponse('Invalid filter.created_before date', 400);
+    }
+
+    if (body.accept !== undefined && body.accept !== 'all' && !isStringArray(body.accept)) {
+      return errorResponse("accept must be an array of field names or 'all'", 400);
+    }
+
+    const refreshService = new MetadataRefreshService(env);
+    const results = await refreshService.refreshBooks(
+      {
+        ...filter,
+        created_before: filter.created_before ? new Date(filter.created_before).toISOString() : undefined
+      },
+      options,
+      body.accept as RefreshField[] | 'all' | undefined,
+      context?.admin?.id
+    );
+
+    return successResponse({
+      results,
+      total: results.length,
+      failed: results.filter(result => result.error).length
+    });
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+/**
+ * GET /api/admin/metadata-refreshes/:id
+ */
+export async function getRefresh(
+  _request: Request,
+  env: Env,
+  refreshId: string
+): Promise<Response> {
+  try {
+    const refreshService = new MetadataRefreshService(env);
+    const refresh = await refreshService.getRefresh(refreshId);
+
+    return successResponse(refresh);
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+/**
+ * POST /api/admin/metadata-refreshes/:id/apply
+ * Body: { accept: string[] | 'all' } - 'all' skips manual overrides,
+ * which are only replaced when named
+ */
+export async function applyRefresh(
+  request: Request,
+  env: Env,
+  refreshId: string,
+  context?: RequestContext
+): Promise<Response> {
+  try {
+    const body = await parseJSON<{ accept?: unknown }>(request);
+
+    if (body.accept !== 'all' && !isStringArray(body.accept)) {
+      return errorResponse("accept must be an array of field names or 'all'", 400);
+    }
+
+    const refreshService = new MetadataRefreshService(env);
+    const result = await refreshService.applyRefresh(
+      refreshId,
+      body.accept as RefreshField[] | 'all',
+      context?.admin?.id
+    );
+
+    return successResponse(result);
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+// ========== HELPERS ==========
+
+/**
+ * Refresh options, or an error message
+ */
+function parseOptions(body: Record<string, any>): RefreshOptions | string {
+  for (const key of ['metadata', 'enrichment']) {
+    if (body[key] !== undefined && typeof body[key] !== 'boolean') {
+      return `${key} must be a boolean`;
+    }
+  }
+
+  if (body.metadata === false && body.enrichment === false) {
+    return 'Nothing to refresh - enable metadata and/or enrichment';
+  }
+
+  return { metadata: body.metadata, enrichment: body.enrichment };
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.length > 0 && value.every(item => typeof item === 'string');
+}
@@ -0,0 +1,98 @@
+import { Env, PricingTimeline } from '../types';
+import { RepricingService } from '../services/repricing';
+import { DatabaseService } from '../services/database';
+import { successResponse, errorResponse, handleError } from '../utils/helpers';
+
+/**
+ * Pricing API Routes
+ * Automatic repricing, price history and realized margins
+ */
+
+/**
+ * GET /api/admin/repricing/preview
+ * Markdowns the next scheduled repricing run would make
+ */
+export async function previewRepricing(_request: Request, env: Env): Promise<Response> {
+  try {
+    const repricingService = new RepricingService(env);
+    const run = await repricingService.preview();
+
+    return successResponse({
+      ...run,
+      total: run.changes.length
+    });
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+/**
+ * GET /api/admin/books/:id/pricing
+ * A copy's pricing timeline, with its realized margin once sold
+ */
+export async function getPricingTimeline(
+  _request: Request,
+  env: Env,
+  bookId: string
+): Promise<Response> {
+  try {
+    const db = new DatabaseService(env);
+    const book = await db.getBook(bookId);
+
+    if (!book) {
+      return errorResponse('Book not found', 404);
+    }
+
+    const timeline: PricingTimeline = {
+      book_id: book.id,
+      isbn: book.isbn,
+      title: book.title,
+      status: book.status,
+      cost_price: book.cost_price,
+      sell_price: book.sell_price,
+      history: await db.getPriceHistory(book.id),
+      margin: (await db.getBookMargin(book.id)) || undefined
+    };
+
+    return successResponse(timeline);
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+/**
+ * GET /api/admin/pricing/margins
+ * Realized margins on sold copies (filterable by sale date), with totals
+ */
+export async function getMarginReport(request: Request, env: Env): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const from = url.searchParams.get('from');
+    const to = url.searchParams.get('to');
+    const limit = Math.min(parseInt(url.searchParams.get('limit') || '50') || 50, 200);
+    const offset = parseInt(url.searchParams.get('offset') || '0') || 0;
+
+    for (const [name, value] of [['from', from], ['to', to]]) {
+      if (value && isNaN(Date.parse(value))) {
+        return errorResponse(`Invalid ${name} date`, 400);
+      }
+    }
+
+    const db = new DatabaseService(env);
+    const report = await db.listBookMargins({
+      from: from ? new Date(from).toISOString() : undefined,
+      to: to ? new Date(to).toISOString() : undefined,
+      limit,
+      offset
+    });
+
+    return successResponse({
+      ...report,
+      limit,
+      offset,
+      has_more: offset + report.sales.length < report.total
+    });
+  } catch (error) {
+    return handleError(error);
+  }
+}
@@ -1,6 +1,16 @@
-import { Env } from '../types';
+import { Env, BookCondition, SearchFilters } from '../types';
 import { DatabaseService } from '../services/database';
-import { successResponse, errorResponse, handleError } from '../utils/helpers';
+import { EmbeddingService } from '../services/embeddings';
+import { SearchService } from '../services/search';
+import { RecommendationService } from '../services/recommendations';
+import {
+  successResponse,
+  errorResponse,
+  handleError,
+  poundsToPence,
+  BookstoreError
+} from '../utils/helpers';
+import { toListings, toPublicBook } from '../utils/listings';
 
 /**
  * Public API Routes
@@ -9,7 +19,7 @@ import { successResponse, errorResponse, handleError } from '../utils/helpers';
 
 /**
  * GET /api/books
- * List all available books (live and in stock)
+ * List available titles (live, in stock copies grouped by edition)
  */
 export async function listPublicBooks(request: Request, env: Env): Promise<Response> {
   try {
@@ -18,19 +28,14 @@ export async function listPublicBooks(request: Request, env: Env): Promise<Respo
     const offset = parseInt(url.searchParams.get('offset') || '0');
 
     const db = new DatabaseService(env);
-    const result = await db.listBooks({
-      status: 'live',
-      in_stock: true,
-      limit,
-      offset
-    });
+    const result = await db.listPublicListings(limit, offset);
 
     return successResponse({
-      books: result.books,
+      books: result.listings,
       total: result.total,
       limit,
       offset,
-      has_more: offset + result.books.length < result.total
+      has_more: offset + result.listings.length < result.total
     });
   } catch (error) {
     return handleError(error);
@@ -39,7 +44,8 @@ export async function listPublicBooks(request: Request, env: Env): Promise<Respo
 
 /**
  * GET /api/books/:id
- * Get a single book by ID (public view)
+ * Get a single copy by ID (public view), with every available copy of
+ * its edition. An edition ID (as used by listings) returns its cheapest copy.
  */
 export async function getPublicBook(
   request: Request,
@@ -48,7 +54,7 @@ export async function getPublicBook(
 ): Promise<Response> {
   try {
     const db = new DatabaseService(env);
-    const book = await db.getBook(bookId);
+    const book = await db.getBookOrListingCopy(bookId);
 
     if (!book) {
       return errorResponse('Book not found', 404);
@@ -59,7 +65,35 @@ export async function getPublicBook(
       return errorResponse('Book not available', 404);
     }
 
-    return successResponse({ book });
+    const [listing] = toListings(await db.getAvailableBooksByEditionIds([book.edition_id]));
+
+    return successResponse({ book: toPublicBook(book), listing: listing || null });
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+/**
+ * GET /api/books/:id/similar (copy or edition ID)
+ * "More like this" - related live books with the scoring explained
+ */
+export async function getSimilarBooks(
+  request: Request,
+  env: Env,
+  bookId: string
+): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const limit = Math.min(parseInt(url.searchParams.get('limit') || '6') || 6, 20);
+
+    const recommendations = new RecommendationService(env);
+    const results = await recommendations.getSimilarBooks(bookId, limit);
+
+    return successResponse({
+      book_id: bookId,
+      results,
+      total: results.length
+    });
   } catch (error) {
     return handleError(error);
   }
@@ -67,31 +101,187 @@ export async function getPublicBook(
 
 /**
  * GET /api/search
- * Search books by keyword (uses D1 FTS)
+ * Hybrid keyword + semantic search with facet filters
+ * `q` is optional - filters alone browse the newest listings
  */
 export async function searchBooks(request: Request, env: Env): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const query = url.searchParams.get('q')?.trim() || undefined;
+    const limit = Math.min(parseInt(url.searchParams.get('limit') || '20') || 20, 100);
+    const offset = Math.max(parseInt(url.searchParams.get('offset') || '0') || 0, 0);
+    const filters = parseSearchFilters(url.searchParams);
+
+    const search = new SearchService(env);
+    const result = await search.search(query, filters, limit, offset);
+
+    return successResponse({
+      ...result,
+      filters,
+      limit,
+      offset,
+      has_more: offset + result.results.length < result.total
+    });
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+/**
+ * GET /api/search/vibe
+ * Semantic search by mood/feel (e.g. "cosy autumn mystery") using embeddings
+ */
+export async function vibeSearch(request: Request, env: Env): Promise<Response> {
   try {
     const url = new URL(request.url);
     const query = url.searchParams.get('q');
-    const limit = parseInt(url.searchParams.get('limit') || '20');
+    const limit = Math.min(parseInt(url.searchParams.get('limit') || '20') || 20, 50);
 
     if (!query || query.trim().length === 0) {
       return errorResponse('Search query is required', 400);
     }
 
+    // Over-fetch: some matches will be sold, reserved or not yet live
+    const embeddings = new EmbeddingService(env);
+    const matches = await embeddings.searchByText(query.trim(), limit * 3);
+
+    // Vector IDs are edition IDs
     const db = new DatabaseService(env);
-    const books = await db.searchBooksByKeyword(query, limit);
+    const listings = toListings(
+      await db.getAvailableBooksByEditionIds(matches.map(match => match.id))
+    );
+    const listingsById = new Map(listings.map(listing => [listing.id, listing]));
+
+    const results = matches
+      .filter(match => listingsById.has(match.id))
+      .slice(0, limit)
+      .map(match => ({ ...listingsById.get(match.id)!, similarity: match.score }));
 
     return successResponse({
       query,
-      results: books,
-      total: books.length
+      results,
+      total: results.length
     });
   } catch (error) {
     return handleError(error);
   }
 }
 
+// R2 folders that may be served publicly
+const PUBLIC_ASSET_FOLDERS = ['covers', 'donations'];
+
+/**
+ * GET /assets/:folder/:path
+ * Serve a cover image or donation proof document from R2
+ */
+export async function serveAsset(
+  _request: Request,
+  env: Env,
+  folder: string,
+  path: string
+): Promise<Response> {
+  if (!PUBLIC_ASSET_FOLDERS.includes(folder)) {
+    return new Response('Not found', { status: 404 });
+  }
+
+  try {
+    const key = `${folder}/${path}`;
+    const object = await env.ASSETS.get(key);
+
+    if (!object) {
+      return new Response('File not found', { status: 404 });
+    }
+
+    return new Response(object.body, {
+      headers: {
+        'Content-Type': object.httpMetadata?.contentType || 'image/jpeg',
+        'Cache-Control': 'public, max-age=31536000',
+        'Access-Control-Allow-Origin': '*'
+      }
+    });
+  } catch (error) {
+    console.error('R2 fetch error:', error);
+    return new Response('Error fetching file', { status: 500 });
+  }
+}
+
+// ========== SEARCH FILTER PARSING ==========
+
+const CONDITIONS: BookCondition[] = ['like_new', 'very_good', 'good', 'acceptable'];
+const PACES = ['slow_burn', 'moderate', 'fast_paced'];
+
+/**
+ * Read facet filters from query params
+ * Lists are comma-separated; prices are in pounds
+ */
+function parseSearchFilters(params: URLSearchParams): SearchFilters {
+  const filters: SearchFilters = {};
+
+  const condition = parseList(params, 'condition');
+  if (condition) {
+    const invalid = condition.filter(value => !CONDITIONS.includes(value as BookCondition));
+    if (invalid.length > 0) {
+      throw new BookstoreError(`Invalid condition: ${invalid.join(', ')}`, 400);
+    }
+    filters.condition = condition as BookCondition[];
+  }
+
+  const pace = parseList(params, 'pace');
+  if (pace) {
+    const invalid = pace.filter(value => !PACES.includes(value));
+    if (invalid.length > 0) {
+      throw new BookstoreError(`Invalid pace: ${invalid.join(', ')}`, 400);
+    }
+    filters.pace = pace;
+  }
+
+  filters.categories = parseList(params, 'category');
+  filters.emotional_tone = parseList(params, 'tone');
+  filters.exclude_tone = parseList(params, 'exclude_tone');
+
+  const minPrice = parseNumber(params, 'min_price', 0);
+  const maxPrice = parseNumber(params, 'max_price', 0);
+  if (minPrice !== undefined) filters.min_price = poundsToPence(minPrice);
+  if (maxPrice !== undefined) filters.max_price = poundsToPence(maxPrice);
+
+  filters.min_shock_factor = parseNumber(params, 'min_shock', 1, 10);
+  filters.max_shock_factor = parseNumber(params, 'max_shock', 1, 10);
+
+  // Drop unset keys so the echoed filters stay readable
+  return Object.fromEntries(
+    Object.entries(filters).filter(([, value]) => value !== undefined)
+  ) as SearchFilters;
+}
+
+function parseList(params: URLSearchParams, name: string): string[] | undefined {
+  const raw = params.get(name);
+  if (!raw) return undefined;
+
+  const values = raw
+    .split(',')
+    .map(value => value.trim().toLowerCase())
+    .filter(Boolean);
+
+  return values.length > 0 ? values : undefined;
+}
+
+function parseNumber(
+  params: URLSearchParams,
+  name: string,
+  min: number,
+  max: number = Infinity
+): number | undefined {
+  const raw = params.get(name);
+  if (raw === null || raw.trim() === '') return undefined;
+
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < min || value > max) {
+    throw new BookstoreError(`Invalid ${name}: ${raw}`, 400);
+  }
+
+  return value;
+}
+
 /**
  * GET /api/health
  * Health check endpoint
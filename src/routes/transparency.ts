@@ -0,0 +1,55 @@
+import { Env } from '../types';
+import { TransparencyService } from '../services/transparency';
+import { successResponse, handleError } from '../utils/helpers';
+
+/**
+ * Transparency API Routes
+ * Public donation and impact reporting for donors
+ */
+
+/**
+ * GET /api/transparency/donations
+ * List donation batches per charity and month, with proof links
+ */
+export async function listDonations(request: Request, env: Env): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const month = url.searchParams.get('month');
+    const charity = url.searchParams.get('charity');
+    const limit = Math.min(parseInt(url.searchParams.get('limit') || '50'), 100);
+    const offset = parseInt(url.searchParams.get('offset') || '0');
+
+    const transparencyService = new TransparencyService(env);
+    const result = await transparencyService.listDonations({
+      month: month || undefined,
+      charity_name: charity || undefined,
+      limit,
+      offset
+    });
+
+    return successResponse({
+      donations: result.donations,
+      total: result.total,
+      limit,
+      offset,
+      has_more: offset + result.donations.length < result.total
+    });
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+/**
+ * GET /api/transparency/summary
+ * Books sold, profit raised and donated, per charity
+ */
+export async function getSummary(_request: Request, env: Env): Promise<Response> {
+  try {
+    const transparencyService = new TransparencyService(env);
+    const summary = await transparencyService.getSummary();
+
+    return successResponse(summary);
+  } catch (error) {
+    return handleError(error);
+  }
+}
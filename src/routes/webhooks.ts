@@ -0,0 +1,58 @@
+import { Env } from '../types';
+import { StripeService } from '../services/stripe';
+import { CheckoutService } from '../services/checkout';
+import { DatabaseService } from '../services/database';
+import { successResponse, handleError } from '../utils/helpers';
+
+/**
+ * Webhook Routes
+ * Receives payment notifications from Stripe
+ */
+
+/**
+ * POST /api/webhooks/stripe
+ * Verify the Stripe signature and settle the matching order
+ */
+export async function stripeWebhook(request: Request, env: Env): Promise<Response> {
+  try {
+    // Signature covers the raw body, so read it before parsing
+    const payload = await request.text();
+
+    const stripe = new StripeService(env);
+    const event = await stripe.constructWebhookEvent(
+      payload,
+      request.headers.get('Stripe-Signature')
+    );
+
+    const db = new DatabaseService(env);
+    if (await db.hasProcessedStripeEvent(event.id)) {
+      return successResponse({ received: true, duplicate: true });
+    }
+
+    const checkoutService = new CheckoutService(env);
+    const intent = event.data.object;
+
+    switch (event.type) {
+      case 'payment_intent.succeeded':
+        await checkoutService.settlePaymentSucceeded(intent.id);
+        break;
+
+      case 'payment_intent.payment_failed':
+        await checkoutService.settlePaymentFailed(
+          intent.id,
+          intent.last_payment_error?.message
+        );
+        break;
+
+      default:
+        console.log(`Ignoring Stripe event type: ${event.type}`);
+    }
+
+    // Only mark processed once handling succeeded, so Stripe retries failures
+    await db.recordStripeEvent(event.id, event.type);
+
+    return successResponse({ received: true });
+  } catch (error) {
+    return handleError(error);
+  }
+}
@@ -0,0 +1,80 @@
+import { Env, Book, AuditEntityType, FieldChange } from '../types';
+import { DatabaseService } from './database';
+
+/**
+ * Audit Service
+ * Records admin mutations in audit_log so every change is attributable
+ */
+export class AuditService {
+  private db: DatabaseService;
+
+  // Fields that change on every write and carry no meaning in a diff
+  private readonly IGNORED_BOOK_FIELDS = ['updated_at'];
+
+  constructor(env: Env) {
+    this.db = new DatabaseService(env);
+  }
+
+  /**
+   * Record an admin action
+   * Audit failures are logged, never thrown - the mutation has already happened
+   */
+  async record(
+    action: string,
+    entityType: AuditEntityType,
+    entityId: string,
+    adminId?: string,
+    details?: Record<string, any>
+  ): Promise<void> {
+    try {
+      await this.db.createAuditLog({
+        admin_id: adminId,
+        action,
+        entity_type: entityType,
+        entity_id: entityId,
+        details
+      });
+    } catch (error) {
+      console.error(`Failed to write audit log (${action} ${entityType}:${entityId}):`, error);
+    }
+  }
+
+  /**
+   * Record a book mutation with a before/after diff of changed fields
+   */
+  async recordBookChange(
+    action: string,
+    before: Book,
+    after: Book,
+    adminId?: string,
+    details: Record<string, any> = {}
+  ): Promise<void> {
+    const changes = this.diffBooks(before, after);
+
+    await this.record(action, 'book', after.id, adminId, {
+      ...details,
+      changes
+    });
+  }
+
+  /**
+   * Compare two versions of a book and return only the fields that changed
+   */
+  diffBooks(before: Book, after: Book): Record<string, FieldChange> {
+    const changes: Record<string, FieldChange> = {};
+    const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+    for (const field of fields) {
+      if (this.IGNORED_BOOK_FIELDS.includes(field)) continue;
+
+      const oldValue = before[field as keyof Book] ?? null;
+      const newValue = after[field as keyof Book] ?? null;
+
+      if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+        changes[field] = { before: oldValue, after: newValue };
+      }
+    }
+
+    return changes;
+  }
+}
@@ -0,0 +1,217 @@
+import { Env, AdminUser, AuthTokenPayload, LoginResponse } from '../types';
+import { DatabaseService } from './database';
+import { BookstoreError } from '../utils/helpers';
+
+/**
+ * Admin Authentication Service
+ * Verifies admin credentials against admin_users and issues/validates
+ * HS256 JWTs signed with JWT_SECRET
+ */
+export class AuthService {
+  private readonly TOKEN_TTL_SECONDS = 24 * 60 * 60; // 24h
+  private readonly PBKDF2_ITERATIONS = 100000; // Workers maximum
+  private db: DatabaseService;
+
+  constructor(private env: Env) {
+    this.db = new DatabaseService(env);
+  }
+
+  /**
+   * Verify email/password, record the login and issue a token
+   */
+  async login(email: string, password: string): Promise<LoginResponse> {
+    const credentials = await this.db.getAdminUserCredentials(email);
+
+    // Same error for unknown email, inactive account and bad password
+    if (!credentials || !credentials.admin.active) {
+      throw new BookstoreError('Invalid email or password', 401);
+    }
+
+    const valid = await this.verifyPassword(password, credentials.password_hash);
+    if (!valid) {
+      throw new BookstoreError('Invalid email or password', 401);
+    }
+
+    const admin = credentials.admin;
+    admin.last_login = await this.db.updateAdminLastLogin(admin.id);
+
+    const now = Math.floor(Date.now() / 1000);
+    const payload: AuthTokenPayload = {
+      sub: admin.id,
+      email: admin.email,
+      role: admin.role,
+      iat: now,
+      exp: now + this.TOKEN_TTL_SECONDS
+    };
+
+    return {
+      token: await this.signToken(payload),
+      expires_at: new Date(payload.exp * 1000).toISOString(),
+      admin
+    };
+  }
+
+  /**
+   * Resolve a bearer token to an active admin user
+   */
+  async authenticate(token: string): Promise<AdminUser> {
+    const payload = await this.verifyToken(token);
+    const admin = await this.db.getAdminUser(payload.sub);
+
+    // Tokens die with the account
+    if (!admin || !admin.active) {
+      throw new BookstoreError('Admin account is not active', 401);
+    }
+
+    return admin;
+  }
+
+  // ========== PASSWORDS ==========
+
+  /**
+   * Hash a password for storage in admin_users.password_hash
+   * Format: pbkdf2_sha256$<iterations>$<salt>$<hash> (base64url)
+   */
+  async hashPassword(password: string): Promise<string> {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const hash = await this.pbkdf2(password, salt, this.PBKDF2_ITERATIONS);
+
+    return [
+      'pbkdf2_sha256',
+      this.PBKDF2_ITERATIONS,
+      base64UrlEncode(salt),
+      base64UrlEncode(hash)
+    ].join('$');
+  }
+
+  async verifyPassword(password: string, storedHash: string): Promise<boolean> {
+    const [scheme, iterations, salt, hash] = storedHash.split('$');
+
+    if (scheme !== 'pbkdf2_sha256' || !iterations || !salt || !hash) {
+      console.warn('Unsupported password hash format');
+      return false;
+    }
+
+    const computed = await this.pbkdf2(
+      password,
+      base64UrlDecode(salt),
+      parseInt(iterations)
+    );
+
+    return timingSafeEqual(computed, base64UrlDecode(hash));
+  }
+
+  private async pbkdf2(
+    password: string,
+    salt: Uint8Array,
+    iterations: number
+  ): Promise<Uint8Array> {
+    const key = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(password),
+      'PBKDF2',
+      false,
+      ['deriveBits']
+    );
+
+    const bits = await crypto.subtle.deriveBits(
+      { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+      key,
+      256
+    );
+
+    return new Uint8Array(bits);
+  }
+
+  // ========== TOKENS ==========
+
+  async signToken(payload: AuthTokenPayload): Promise<string> {
+    const header = base64UrlEncode(
+      new TextEncoder().encode(JSON.stringify({ alg: 'HS256', typ: 'JWT' }))
+    );
+    const body = base64UrlEncode(new TextEncoder().encode(JSON.stringify(payload)));
+    const signature = await this.sign(`${header}.${body}`);
+
+    return `${header}.${body}.${base64UrlEncode(signature)}`;
+  }
+
+  async verifyToken(token: string): Promise<AuthTokenPayload> {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+      throw new BookstoreError('Malformed token', 401);
+    }
+
+    const [header, body, signature] = parts;
+    const expected = await this.sign(`${header}.${body}`);
+
+    if (!timingSafeEqual(expected, base64UrlDecode(signature))) {
+      throw new BookstoreError('Invalid token signature', 401);
+    }
+
+    let payload: AuthTokenPayload;
+    try {
+      const decodedHeader = JSON.parse(new TextDecoder().decode(base64UrlDecode(header)));
+      if (decodedHeader.alg !== 'HS256') {
+        throw new Error(`Unsupported algorithm: ${decodedHeader.alg}`);
+      }
+      payload = JSON.parse(new TextDecoder().decode(base64UrlDecode(body)));
+    } catch (error) {
+      throw new BookstoreError('Malformed token', 401);
+    }
+
+    if (!payload.sub || !payload.exp || payload.exp <= Math.floor(Date.now() / 1000)) {
+      throw new BookstoreError('Token expired', 401);
+    }
+
+    return payload;
+  }
+
+  private async sign(data: string): Promise<Uint8Array> {
+    if (!this.env.JWT_SECRET) {
+      throw new BookstoreError('JWT_SECRET is not configured', 500);
+    }
+
+    const key = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(this.env.JWT_SECRET),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign']
+    );
+
+    const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(data));
+    return new Uint8Array(signature);
+  }
+}
+
+// ========== ENCODING HELPERS ==========
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function base64UrlDecode(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+
+  try {
+    const binary = atob(padded);
+    return Uint8Array.from(binary, char => char.charCodeAt(0));
+  } catch (error) {
+    return new Uint8Array(0);
+  }
+}
+
+function timingSafeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i];
+  }
+  return diff === 0;
+}
@@ -0,0 +1,212 @@
+import {
+  Env,
+  BlockchainEvent,
+  BlockchainEventType,
+  BlockchainQueueMessage
+} from '../types';
+import { DatabaseService } from './database';
+import { ChainClient, ChainRecord, createChainClient } from './chain';
+import { getCurrentTimestamp } from '../utils/helpers';
+
+export type BlockchainProcessResult =
+  | { action: 'ack' }
+  | { action: 'retry'; delaySeconds: number };
+
+/**
+ * Blockchain Recording Service
+ * Producer: creates a blockchain_events row and queues it on BLOCKCHAIN_QUEUE.
+ * Consumer: submits queued events through a ChainClient and tracks them
+ * pending → submitted → confirmed/failed, mirroring the outcome onto the
+ * order or donation. Never blocks the purchase/donation flow.
+ */
+export class BlockchainService {
+  private readonly MAX_ATTEMPTS = 10;
+  private readonly BASE_RETRY_DELAY_SECONDS = 30;
+  private readonly MAX_RETRY_DELAY_SECONDS = 3600;
+  private readonly RECEIPT_POLL_DELAY_SECONDS = 60;
+
+  private db: DatabaseService;
+
+  constructor(private env: Env, private chainClient?: ChainClient) {
+    this.db = new DatabaseService(env);
+  }
+
+  // ========== PRODUCER ==========
+
+  async recordPurchase(orderId: string): Promise<BlockchainEvent | null> {
+    return this.enqueue('purchase', orderId);
+  }
+
+  async recordDonation(donationId: string): Promise<BlockchainEvent | null> {
+    return this.enqueue('donation', donationId);
+  }
+
+  /**
+   * Create an event and queue it (at most one live event per reference)
+   * Failures are logged, not thrown
+   */
+  private async enqueue(
+    eventType: BlockchainEventType,
+    referenceId: string
+  ): Promise<BlockchainEvent | null> {
+    try {
+      const existing = await this.db.getActiveBlockchainEvent(eventType, referenceId);
+      if (existing) {
+        console.log(`Blockchain ${eventType} for ${referenceId} already ${existing.status}`);
+        return existing;
+      }
+
+      const event = await this.db.createBlockchainEvent(eventType, referenceId);
+      await this.db.updateReferenceBlockchainStatus(eventType, referenceId, 'pending');
+
+      if (!this.env.BLOCKCHAIN_QUEUE) {
+        console.warn(`BLOCKCHAIN_QUEUE not bound - event ${event.id} left pending`);
+        return event;
+      }
+
+      await this.env.BLOCKCHAIN_QUEUE.send({ event_id: event.id });
+      return event;
+    } catch (error) {
+      console.error(`Failed to queue blockchain ${eventType} for ${referenceId}:`, error);
+      return null;
+    }
+  }
+
+  // ========== CONSUMER ==========
+
+  /**
+   * Process one queued event
+   * `attempts` is the queue delivery count (1 on first delivery)
+   */
+  async processMessage(
+    message: BlockchainQueueMessage,
+    attempts: number
+  ): Promise<BlockchainProcessResult> {
+    const event = await this.db.getBlockchainEvent(message.event_id);
+
+    if (!event) {
+      console.warn(`Blockchain event ${message.event_id} not found - dropping message`);
+      return { action: 'ack' };
+    }
+
+    if (event.status === 'confirmed' || event.status === 'failed') {
+      return { action: 'ack' };
+    }
+
+    try {
+      const client = this.chainClient || createChainClient(this.env);
+      let txHash = event.tx_hash;
+
+      // Only submit once - redeliveries just poll the receipt
+      if (!txHash) {
+        const record = await this.buildRecord(event);
+        txHash = await client.submit(record);
+
+        await this.db.updateBlockchainEvent(event.id, {
+          status: 'submitted',
+          tx_hash: txHash
+        });
+        await this.db.updateReferenceBlockchainStatus(
+          event.event_type,
+          event.reference_id,
+          'pending',
+          txHash
+        );
+      }
+
+      const receipt = await client.getReceipt(txHash);
+
+      if (receipt.status === 'confirmed') {
+        await this.db.updateBlockchainEvent(event.id, {
+          status: 'confirmed',
+          block_number: receipt.block_number,
+          gas_used: receipt.gas_used,
+          confirmed_at: getCurrentTimestamp()
+        });
+        await this.db.updateReferenceBlockchainStatus(
+          event.event_type,
+          event.reference_id,
+          'confirmed',
+          txHash
+        );
+
+        console.log(`Blockchain ${event.event_type} ${event.reference_id} confirmed: ${txHash}`);
+        return { action: 'ack' };
+      }
+
+      if (receipt.status === 'failed') {
+        // Reverts are deterministic - retrying the same call won't help
+        await this.markFailed(event, `Transaction reverted: ${txHash}`);
+        return { action: 'ack' };
+      }
+
+      // Not mined yet
+      if (attempts >= this.MAX_ATTEMPTS) {
+        await this.markFailed(event, `Transaction not confirmed after ${attempts} checks: ${txHash}`);
+        return { action: 'ack' };
+      }
+
+      return { action: 'retry', delaySeconds: this.RECEIPT_POLL_DELAY_SECONDS };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Blockchain event ${event.id} attempt ${attempts} failed:`, message);
+
+      if (attempts >= this.MAX_ATTEMPTS) {
+        await this.markFailed(event, message);
+        return { action: 'ack' };
+      }
+
+      await this.db.updateBlockchainEvent(event.id, { error_message: message });
+      return { action: 'retry', delaySeconds: this.retryDelay(attempts) };
+    }
+  }
+
+  // ========== HELPER METHODS ==========
+
+  private async buildRecord(event: BlockchainEvent): Promise<ChainRecord> {
+    if (event.event_type === 'purchase') {
+      const order = await this.db.getOrder(event.reference_id);
+      if (!order) throw new Error(`Order ${event.reference_id} not found`);
+
+      return {
+        type: 'purchase',
+        order_id: order.id,
+        book_price: order.book_price,
+        profit_amount: order.profit_amount,
+        charity_name: order.charity_name
+      };
+    }
+
+    const donation = await this.db.getDonation(event.reference_id);
+    if (!donation) throw new Error(`Donation ${event.reference_id} not found`);
+
+    return {
+      type: 'donation',
+      donation_id: donation.id,
+      month: donation.month,
+      charity_name: donation.charity_name,
+      total_amount: donation.total_amount,
+      order_count: donation.order_count,
+      receipt_url: donation.receipt_url || '',
+      bank_statement_url: donation.bank_statement_url || ''
+    };
+  }
+
+  private async markFailed(event: BlockchainEvent, errorMessage: string): Promise<void> {
+    await this.db.updateBlockchainEvent(event.id, {
+      status: 'failed',
+      error_message: errorMessage
+    });
+    await this.db.updateReferenceBlockchainStatus(event.event_type, event.reference_id, 'failed');
+  }
+
+  /**
+   * Exponential backoff: 30s, 60s, 120s ... capped at an hour
+   */
+  private retryDelay(attempts: number): number {
+    return Math.min(
+      this.BASE_RETRY_DELAY_SECONDS * 2 ** Math.max(attempts - 1, 0),
+      this.MAX_RETRY_DELAY_SECONDS
+    );
+  }
+}
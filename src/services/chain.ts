@@ -0,0 +1,225 @@
+import { Env } from '../types';
+import { BookstoreError } from '../utils/helpers';
+
+/**
+ * Chain Clients
+ * Submit transparency records to the BookstoreTransparency contract on Base.
+ * The JSON-RPC client works against any node or local stand-in (anvil,
+ * hardhat) that signs for BLOCKCHAIN_FROM_ADDRESS; the mock client needs
+ * no network at all.
+ */
+
+export type ChainRecord =
+  | {
+      type: 'purchase';
+      order_id: string;
+      book_price: number; // in pence
+      profit_amount: number; // in pence
+      charity_name: string;
+    }
+  | {
+      type: 'donation';
+      donation_id: string;
+      month: string;
+      charity_name: string;
+      total_amount: number; // in pence
+      order_count: number;
+      receipt_url: string;
+      bank_statement_url: string;
+    };
+
+export interface ChainReceipt {
+  status: 'pending' | 'confirmed' | 'failed';
+  block_number?: number;
+  gas_used?: number;
+}
+
+export interface ChainClient {
+  /** Submit a record and return its transaction hash */
+  submit(record: ChainRecord): Promise<string>;
+
+  /** Look up the outcome of a submitted transaction */
+  getReceipt(txHash: string): Promise<ChainReceipt>;
+}
+
+/**
+ * Pick the chain client configured by BLOCKCHAIN_CLIENT
+ * Falls back to the mock outside production so local runs work offline
+ */
+export function createChainClient(env: Env): ChainClient {
+  const client = env.BLOCKCHAIN_CLIENT || (env.ENVIRONMENT === 'production' ? undefined : 'mock');
+
+  switch (client) {
+    case 'jsonrpc':
+      return new JsonRpcChainClient(env);
+    case 'mock':
+      return new MockChainClient();
+    default:
+      throw new BookstoreError('BLOCKCHAIN_CLIENT is not configured', 500);
+  }
+}
+
+// ========== JSON-RPC CLIENT ==========
+
+// keccak256 selectors for the contract functions
+const SELECTORS = {
+  // recordPurchase(string,uint256,uint256,string)
+  purchase: '55434a80',
+  // recordDonation(string,string,string,uint256,uint256,string,string)
+  donation: 'b25322a7'
+};
+
+export class JsonRpcChainClient implements ChainClient {
+  private rpcUrl: string;
+  private from: string;
+  private contract: string;
+  private requestId = 0;
+
+  constructor(env: Env) {
+    if (!env.BLOCKCHAIN_RPC_URL || !env.BLOCKCHAIN_FROM_ADDRESS || !env.CONTRACT_ADDRESS) {
+      throw new BookstoreError(
+        'BLOCKCHAIN_RPC_URL, BLOCKCHAIN_FROM_ADDRESS and CONTRACT_ADDRESS are required',
+        500
+      );
+    }
+
+    this.rpcUrl = env.BLOCKCHAIN_RPC_URL;
+    this.from = env.BLOCKCHAIN_FROM_ADDRESS;
+    this.contract = env.CONTRACT_ADDRESS;
+  }
+
+  async submit(record: ChainRecord): Promise<string> {
+    return this.call<string>('eth_sendTransaction', [{
+      from: this.from,
+      to: this.contract,
+      data: encodeRecord(record)
+    }]);
+  }
+
+  async getReceipt(txHash: string): Promise<ChainReceipt> {
+    const receipt = await this.call<any>('eth_getTransactionReceipt', [txHash]);
+
+    // Not mined yet
+    if (!receipt) {
+      return { status: 'pending' };
+    }
+
+    return {
+      status: receipt.status === '0x1' ? 'confirmed' : 'failed',
+      block_number: receipt.blockNumber ? parseInt(receipt.blockNumber, 16) : undefined,
+      gas_used: receipt.gasUsed ? parseInt(receipt.gasUsed, 16) : undefined
+    };
+  }
+
+  private async call<T>(method: string, params: unknown[]): Promise<T> {
+    const response = await fetch(this.rpcUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: ++this.requestId,
+        method,
+        params
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`JSON-RPC HTTP error: ${response.status}`);
+    }
+
+    const data = await response.json<{ result?: T; error?: { message?: string } }>();
+
+    if (data.error) {
+      throw new Error(`JSON-RPC error (${method}): ${data.error.message || 'unknown'}`);
+    }
+
+    return data.result as T;
+  }
+}
+
+// ========== MOCK CLIENT ==========
+
+/**
+ * Offline client: derives a deterministic tx hash from the record and
+ * reports every transaction as confirmed
+ */
+export class MockChainClient implements ChainClient {
+  async submit(record: ChainRecord): Promise<string> {
+    const digest = await crypto.subtle.digest(
+      'SHA-256',
+      new TextEncoder().encode(JSON.stringify(record))
+    );
+    return '0x' + toHex(new Uint8Array(digest));
+  }
+
+  async getReceipt(txHash: string): Promise<ChainReceipt> {
+    return {
+      status: 'confirmed',
+      block_number: parseInt(txHash.slice(2, 10), 16) || 1,
+      gas_used: 21000
+    };
+  }
+}
+
+// ========== ABI ENCODING ==========
+
+type AbiValue = { type: 'string'; value: string } | { type: 'uint256'; value: number };
+
+function encodeRecord(record: ChainRecord): string {
+  if (record.type === 'purchase') {
+    return encodeCall(SELECTORS.purchase, [
+      { type: 'string', value: record.order_id },
+      { type: 'uint256', value: record.book_price },
+      { type: 'uint256', value: record.profit_amount },
+      { type: 'string', value: record.charity_name }
+    ]);
+  }
+
+  return encodeCall(SELECTORS.donation, [
+    { type: 'string', value: record.donation_id },
+    { type: 'string', value: record.month },
+    { type: 'string', value: record.charity_name },
+    { type: 'uint256', value: record.total_amount },
+    { type: 'uint256', value: record.order_count },
+    { type: 'string', value: record.receipt_url },
+    { type: 'string', value: record.bank_statement_url }
+  ]);
+}
+
+/**
+ * Encode a call with static uint256 and dynamic string arguments
+ * Head: one word per argument (value or tail offset); tail: length + padded bytes
+ */
+function encodeCall(selector: string, args: AbiValue[]): string {
+  const head: string[] = [];
+  const tail: string[] = [];
+  let tailOffset = args.length * 32;
+
+  for (const arg of args) {
+    if (arg.type === 'uint256') {
+      head.push(encodeUint(arg.value));
+      continue;
+    }
+
+    const bytes = new TextEncoder().encode(arg.value);
+    const paddedLength = Math.ceil(bytes.length / 32) * 32;
+    const data = toHex(bytes).padEnd(paddedLength * 2, '0');
+
+    head.push(encodeUint(tailOffset));
+    tail.push(encodeUint(bytes.length) + data);
+    tailOffset += 32 + paddedLength;
+  }
+
+  return '0x' + selector + head.join('') + tail.join('');
+}
+
+function encodeUint(value: number): string {
+  if (!Number.isSafeInteger(value) || value < 0) {
+    throw new Error(`Cannot ABI-encode uint256 value: ${value}`);
+  }
+  return value.toString(16).padStart(64, '0');
+}
+
+function toHex(bytes: Uint8Array): string {
+  return [...bytes].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,190 @@
+import { Env, CheckoutRequest, CheckoutResponse, Order } from '../types';
+import { DatabaseService } from './database';
+import { StripeService } from './stripe';
+import { ReservationService } from './reservations';
+import { BlockchainService } from './blockchain';
+import { BookstoreError } from '../utils/helpers';
+
+/**
+ * Checkout Service
+ * Turns a "Buy Now" click into a Stripe PaymentIntent and a pending order,
+ * and settles the order when Stripe reports the payment outcome
+ */
+export class CheckoutService {
+  private readonly CURRENCY = 'gbp';
+
+  private db: DatabaseService;
+  private stripe: StripeService;
+  private reservations: ReservationService;
+
+  constructor(private env: Env) {
+    this.db = new DatabaseService(env);
+    this.stripe = new StripeService(env);
+    this.reservations = new ReservationService(env);
+  }
+
+  /**
+   * Create a PaymentIntent and pending order for a single book
+   */
+  async createCheckout(request: CheckoutRequest): Promise<CheckoutResponse> {
+    const book = await this.db.getBook(request.book_id);
+
+    if (!book || book.status !== 'live' || !book.in_stock) {
+      throw new BookstoreError('Book not available', 404);
+    }
+
+    const charity_name = await this.resolveCharity(request.charity);
+
+    // Never donate a negative amount if a book sells below cost
+    const profit_amount = Math.max(book.sell_price - book.cost_price, 0);
+
+    // Each book is a single copy - hold it so two checkouts can't both pay
+    const reservation = await this.reservations.hold(book.id);
+
+    let intent;
+    try {
+      intent = await this.stripe.createPaymentIntent({
+        amount: book.sell_price,
+        currency: this.CURRENCY,
+        receipt_email: request.customer_email,
+        idempotency_key: `checkout-${reservation.id}`,
+        metadata: {
+          book_id: book.id,
+          reservation_id: reservation.id,
+          profit_amount: String(profit_amount),
+          charity: charity_name
+        }
+      });
+    } catch (error) {
+      await this.reservations.release(reservation.id);
+      throw error;
+    }
+
+    try {
+      const order = await this.db.createOrder({
+        book_id: book.id,
+        customer_email: request.customer_email,
+        book_price: book.sell_price,
+        profit_amount,
+        charity_name,
+        stripe_payment_id: intent.id
+      });
+
+      await this.reservations.attachOrder(reservation.id, order.id);
+
+      console.log(`Checkout created: order ${order.id} for book ${book.id}`);
+
+      return {
+        order_id: order.id,
+        reservation_expires_at: reservation.expires_at,
+        client_secret: intent.client_secret,
+        payment_intent_id: intent.id,
+        amount: book.sell_price,
+        currency: this.CURRENCY,
+        charity_name
+      };
+    } catch (error) {
+      // Don't leave a chargeable intent or a hold behind without an order
+      await this.stripe.cancelPaymentIntent(intent.id).catch(cancelError =>
+        console.error('Failed to cancel orphaned PaymentIntent:', cancelError)
+      );
+      await this.reservations.release(reservation.id);
+      throw error;
+    }
+  }
+
+  /**
+   * Settle an order after payment_intent.succeeded
+   * Safe to call repeatedly - an already-settled order is left untouched
+   */
+  async settlePaymentSucceeded(paymentIntentId: string): Promise<Order | null> {
+    const order = await this.db.getOrderByStripePaymentId(paymentIntentId);
+
+    if (!order) {
+      console.warn(`No order for PaymentIntent ${paymentIntentId}`);
+      return null;
+    }
+
+    if (order.payment_status === 'succeeded' || order.payment_status === 'needs_refund') {
+      console.log(`Order ${order.id} already settled`);
+      return order;
+    }
+
+    // Book sold, order paid and hold converted in one transaction - unless the
+    // hold lapsed and the copy has since sold or been reserved by someone else
+    if (!(await this.db.completeSale(order.id, order.book_id))) {
+      // Kept out of donation and transparency totals until refunded
+      console.error(`Book ${order.book_id} no longer available - order ${order.id} needs a refund`);
+      await this.db.updateOrderPaymentStatus(order.id, 'needs_refund');
+      await this.reservations.releaseForOrder(order.id);
+      return this.db.getOrder(order.id);
+    }
+
+    console.log(`Order ${order.id} paid, book ${order.book_id} marked as sold`);
+
+    // Record on-chain asynchronously - never blocks settlement
+    await new BlockchainService(this.env).recordPurchase(order.id);
+
+    return this.db.getOrder(order.id);
+  }
+
+  /**
+   * Record a failed payment (payment_intent.payment_failed)
+   * A later success for the same intent still wins
+   */
+  async settlePaymentFailed(paymentIntentId: string, reason?: string): Promise<Order | null> {
+    const order = await this.db.getOrderByStripePaymentId(paymentIntentId);
+
+    if (!order) {
+      console.warn(`No order for PaymentIntent ${paymentIntentId}`);
+      return null;
+    }
+
+    if (order.payment_status !== 'pending') {
+      console.log(`Order ${order.id} already ${order.payment_status}, ignoring failure`);
+      return order;
+    }
+
+    await this.db.updateOrderPaymentStatus(order.id, 'failed');
+    await this.reservations.releaseForOrder(order.id);
+
+    console.log(`Order ${order.id} payment failed: ${reason || 'unknown reason'}`);
+
+    return this.db.getOrder(order.id);
+  }
+
+  /**
+   * Pick the charity for an order
+   * CONFIG KV 'charities' holds a JSON array of names; the first is the default
+   */
+  private async resolveCharity(requested?: string): Promise<string> {
+    let charities: string[] = [];
+
+    try {
+      charities = (await this.env.CONFIG.get<string[]>('charities', 'json')) || [];
+    } catch (error) {
+      console.warn('Invalid charities config, using default:', error);
+    }
+
+    if (charities.length === 0 && this.env.DEFAULT_CHARITY_NAME) {
+      charities = [this.env.DEFAULT_CHARITY_NAME];
+    }
+
+    if (charities.length === 0) {
+      throw new BookstoreError('No charities configured', 500);
+    }
+
+    if (!requested) {
+      return charities[0];
+    }
+
+    if (!charities.includes(requested)) {
+      throw new BookstoreError(
+        `Unknown charity. Choose one of: ${charities.join(', ')}`,
+        400
+      );
+    }
+
+    return requested;
+  }
+}
@@ -1,5 +1,84 @@
-import { Env, Book, Order, BookCondition, BookStatus } from '../types';
+import {
+  Env,
+  Book,
+  Order,
+  OrderPaymentStatus,
+  BookCondition,
+  BookStatus,
+  AdminUser,
+  AuditLogEntry,
+  AuditEntityType,
+  BookReservation,
+  MonthlyDonation,
+  DonationStatus,
+  CharityImpact,
+  BlockchainEvent,
+  BlockchainEventType,
+  IngestJob,
+  IngestJobRow,
+  IngestRowStatus,
+  Edition,
+  BookListing,
+  PriceChangeContext,
+  PriceHistoryEntry,
+  BookMargin,
+  MarginReport,
+  MarginTotals,
+  MetadataProvenance,
+  MetadataRefresh,
+  RefreshField,
+  RefreshFilter,
+  SearchFilters,
+  SearchFilterGroup,
+  FacetBucket,
+  FacetCount
+} from '../types';
 import { generateUUID, getCurrentTimestamp } from '../utils/helpers';
+import { SNIPPET_OPEN, SNIPPET_CLOSE, formatSnippet } from '../utils/search-query';
+import { toListings } from '../utils/listings';
+
+// Copies joined with their edition's shared fields (deserializeBook shape)
+const BOOK_SELECT = `
+  SELECT b.*, e.isbn, e.title, e.author, e.description, e.cover_url,
+    e.metadata, e.vibe_tags, e.ai_enrichment, e.review_summary, e.vector_id
+  FROM books b
+  JOIN editions e ON e.id = b.edition_id
+`;
+
+// Paid sales, one row per sold copy, with its pricing history summarised
+// (deserializeBookMargin shape)
+const SALES_CTE = `
+  WITH sales AS (
+    SELECT b.id as book_id, e.isbn, e.title, b.condition, b.cost_price, b.live_at,
+      o.book_price as sold_price, COALESCE(o.paid_at, o.created_at) as sold_at,
+      (SELECT ph.new_price FROM price_history ph WHERE ph.book_id = b.id
+        ORDER BY ph.created_at ASC, ph.rowid ASC LIMIT 1) as initial_price,
+      (SELECT ph.source FROM price_history ph WHERE ph.book_id = b.id
+        ORDER BY ph.created_at DESC, ph.rowid DESC LIMIT 1) as final_price_source,
+      (SELECT COUNT(*) FROM price_history ph WHERE ph.book_id = b.id
+        AND ph.old_price IS NOT NULL) as price_changes
+    FROM orders o
+    JOIN books b ON b.id = o.book_id
+    JOIN editions e ON e.id = b.edition_id
+    WHERE o.payment_status = 'succeeded'
+  )
+`;
+
+// Updatable columns on each table
+const COPY_FIELDS = ['sell_price', 'in_stock', 'status', 'reprice_exempt'];
+const EDITION_FIELDS = [
+  'title', 'author', 'description', 'cover_url', 'metadata',
+  'vibe_tags', 'ai_enrichment', 'review_summary', 'vector_id'
+];
+
+// Edition columns whose hand edits are marked in metadata.provenance
+const MANUAL_FIELDS: Record<string, keyof MetadataProvenance> = {
+  title: 'title',
+  author: 'authors',
+  description: 'description',
+  cover_url: 'cover_url',
+  vibe_tags: 'vibe_tags'
+};
 
 /**
  * D1 Database Service
@@ -8,125 +87,227 @@ import { generateUUID, getCurrentTimestamp } from '../utils/helpers';
 export class DatabaseService {
   constructor(private env: Env) {}
 
-  // ========== BOOK OPERATIONS ==========
+  // ========== EDITION OPERATIONS ==========
 
-  async createBook(bookData: Partial<Book>): Promise<Book> {
-    const id = generateUUID();
+  async createEdition(
+    editionData: Omit<Edition, 'id' | 'created_at' | 'updated_at'>
+  ): Promise<Edition> {
     const now = getCurrentTimestamp();
-
-    const book: Book = {
-      id,
-      isbn: bookData.isbn!,
-      title: bookData.title!,
-      author: bookData.author!,
-      description: bookData.description,
-      cover_url: bookData.cover_url,
-      condition: bookData.condition || 'good',
-      cost_price: bookData.cost_price!,
-      sell_price: bookData.sell_price!,
-      in_stock: true,
-      metadata: bookData.metadata,
-      vibe_tags: bookData.vibe_tags,
-      ai_enrichment: bookData.ai_enrichment,
-      review_summary: bookData.review_summary,
-      vector_id: bookData.vector_id,
-      status: bookData.status || 'draft',
+    const edition: Edition = {
+      ...editionData,
+      id: generateUUID(),
       created_at: now,
       updated_at: now
     };
 
     await this.env.DB.prepare(`
-      INSERT INTO books (
+      INSERT INTO editions (
         id, isbn, title, author, description, cover_url,
-        condition, cost_price, sell_price, in_stock,
         metadata, vibe_tags, ai_enrichment, review_summary,
-        vector_id, status, created_at, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        vector_id, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `).bind(
-      book.id,
-      book.isbn,
-      book.title,
-      book.author,
-      book.description || null,
-      book.cover_url || null,
-      book.condition,
-      book.cost_price,
-      book.sell_price,
-      book.in_stock ? 1 : 0,
-      book.metadata ? JSON.stringify(book.metadata) : null,
-      book.vibe_tags || null,
-      book.ai_enrichment ? JSON.stringify(book.ai_enrichment) : null,
-      book.review_summary || null,
-      book.vector_id || null,
-      book.status,
-      book.created_at,
-      book.updated_at
+      edition.id,
+      edition.isbn,
+      edition.title,
+      edition.author,
+      edition.description || null,
+      edition.cover_url || null,
+      edition.metadata ? JSON.stringify(edition.metadata) : null,
+      edition.vibe_tags || null,
+      edition.ai_enrichment ? JSON.stringify(edition.ai_enrichment) : null,
+      edition.review_summary || null,
+      edition.vector_id || null,
+      edition.created_at,
+      edition.updated_at
     ).run();
 
+    return edition;
+  }
+
+  async getEdition(id: string): Promise<Edition | null> {
+    const result = await this.env.DB.prepare(`
+      SELECT * FROM editions WHERE id = ?
+    `).bind(id).first<any>();
+
+    return result ? this.deserializeEdition(result) : null;
+  }
+
+  async getEditionByISBN(isbn: string): Promise<Edition | null> {
+    const result = await this.env.DB.prepare(`
+      SELECT * FROM editions WHERE isbn = ?
+    `).bind(isbn).first<any>();
+
+    return result ? this.deserializeEdition(result) : null;
+  }
+
+  async updateEdition(
+    id: string,
+    updates: Partial<Omit<Edition, 'id' | 'isbn' | 'created_at' | 'updated_at'>>
+  ): Promise<void> {
+    const { fields, values } = this.buildUpdate(updates, EDITION_FIELDS);
+    if (fields.length === 0) return;
+
+    await this.env.DB.prepare(`
+      UPDATE editions SET ${fields.join(', ')}, updated_at = ? WHERE id = ?
+    `).bind(...values, getCurrentTimestamp(), id).run();
+  }
+
+  /**
+   * Copies of an edition that haven't been removed
+   */
+  async countActiveCopies(editionId: string): Promise<number> {
+    const result = await this.env.DB.prepare(`
+      SELECT COUNT(*) as count FROM books WHERE edition_id = ? AND status != 'removed'
+    `).bind(editionId).first<{ count: number }>();
+
+    return result?.count || 0;
+  }
+
+  // ========== BOOK (COPY) OPERATIONS ==========
+
+  /**
+   * Create a copy of an existing edition (with bookData.id, if given)
+   * Its first price is recorded in price_history as an 'ingest' suggestion
+   */
+  async createBook(
+    bookData: Partial<Book> & { edition_id: string },
+    priceChange: Omit<PriceChangeContext, 'source'> = {}
+  ): Promise<Book> {
+    const id = bookData.id || generateUUID();
+    const now = getCurrentTimestamp();
+
+    await this.env.DB.batch([
+      this.env.DB.prepare(`
+        INSERT INTO books (
+          id, edition_id, condition, cost_price, sell_price, in_stock,
+          status, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).bind(
+        id,
+        bookData.edition_id,
+        bookData.condition || 'good',
+        bookData.cost_price!,
+        bookData.sell_price!,
+        1,
+        bookData.status || 'draft',
+        now,
+        now
+      ),
+      this.priceHistoryStatement(id, null, bookData.sell_price!, { ...priceChange, source: 'ingest' }, now)
+    ]);
+
+    const book = await this.getBook(id);
+    if (!book) {
+      throw new Error(`Edition ${bookData.edition_id} not found for new copy`);
+    }
+
     return book;
   }
 
   async getBook(id: string): Promise<Book | null> {
     const result = await this.env.DB.prepare(`
-      SELECT * FROM books WHERE id = ?
+      ${BOOK_SELECT} WHERE b.id = ?
     `).bind(id).first<any>();
 
     if (!result) return null;
     return this.deserializeBook(result);
   }
 
+  /**
+   * A copy by ID or, since listings are keyed by edition, an edition's
+   * cheapest available copy
+   */
+  async getBookOrListingCopy(id: string): Promise<Book | null> {
+    const book = await this.getBook(id);
+    if (book) return book;
+
+    const copies = await this.getAvailableBooksByEditionIds([id]);
+    if (copies.length === 0) return null;
+
+    return copies.reduce((cheapest, copy) => (copy.sell_price < cheapest.sell_price ? copy : cheapest));
+  }
+
+  /**
+   * Any copy of the ISBN (most recent first)
+   */
   async getBookByISBN(isbn: string): Promise<Book | null> {
     const result = await this.env.DB.prepare(`
-      SELECT * FROM books WHERE isbn = ? LIMIT 1
+      ${BOOK_SELECT} WHERE e.isbn = ? ORDER BY b.created_at DESC LIMIT 1
     `).bind(isbn).first<any>();
 
     if (!result) return null;
     return this.deserializeBook(result);
   }
 
-  async updateBook(id: string, updates: Partial<Book>): Promise<Book | null> {
+  /**
+   * Update a copy. Edition fields (title, description, enrichment...) are
+   * shared, so changing them changes every copy of the edition.
+   * A sell_price change is recorded in price_history (a 'manual' edit unless
+   * `priceChange` says otherwise).
+   */
+  async updateBook(
+    id: string,
+    updates: Partial<Book>,
+    priceChange: PriceChangeContext = { source: 'manual' }
+  ): Promise<Book | null> {
     const existing = await this.getBook(id);
     if (!existing) return null;
 
     const now = getCurrentTimestamp();
-    const fields: string[] = [];
-    const values: any[] = [];
+    const statements: D1PreparedStatement[] = [];
 
-    // Build dynamic UPDATE query
-    const allowedFields = [
-      'title', 'author', 'description', 'cover_url',
-      'sell_price', 'in_stock', 'metadata', 'vibe_tags',
-      'ai_enrichment', 'review_summary', 'vector_id', 'status'
-    ];
+    const copyUpdate = this.buildUpdate(updates, COPY_FIELDS);
 
-    for (const field of allowedFields) {
-      if (updates[field as keyof Book] !== undefined) {
-        fields.push(`${field} = ?`);
-        let value = updates[field as keyof Book];
+    // Going live starts the repricing clock
+    if (updates.status === 'live' && existing.status !== 'live') {
+      copyUpdate.fields.push('live_at = ?');
+      copyUpdate.values.push(now);
+    }
 
-        // Serialize JSON fields
-        if (['metadata', 'ai_enrichment'].includes(field) && value) {
-          value = JSON.stringify(value);
-        }
+    // A price set by hand becomes the new base for markdowns
+    if (updates.sell_price !== undefined && updates.sell_price !== existing.sell_price) {
+      copyUpdate.fields.push('base_price = NULL');
+      statements.push(this.priceHistoryStatement(id, existing.sell_price, updates.sell_price, priceChange, now));
+    }
 
-        // Handle boolean
-        if (field === 'in_stock' && typeof value === 'boolean') {
-          value = value ? 1 : 0;
-        }
+    if (copyUpdate.fields.length > 0) {
+      statements.push(this.env.DB.prepare(`
+        UPDATE books SET ${copyUpdate.fields.join(', ')}, updated_at = ? WHERE id = ?
+      `).bind(...copyUpdate.values, now, id));
+    }
 
-        values.push(value);
+    // Mark hand edits so metadata refreshes don't silently undo them
+    const edited = Object.keys(MANUAL_FIELDS).filter(field => {
+      const value = updates[field as keyof Book];
+      return value !== undefined && value !== existing[field as keyof Book];
+    });
+
+    if (edited.length > 0 && updates.metadata === undefined) {
+      const provenance = { ...existing.metadata?.provenance };
+      for (const field of edited) {
+        provenance[MANUAL_FIELDS[field]] = { sources: ['manual'], strategy: 'manual' };
       }
+      updates = { ...updates, metadata: { ...existing.metadata, provenance } };
     }
 
-    if (fields.length === 0) return existing;
+    const editionUpdate = this.buildUpdate(updates, EDITION_FIELDS);
+    if (editionUpdate.fields.length > 0) {
+      statements.push(this.env.DB.prepare(`
+        UPDATE editions SET ${editionUpdate.fields.join(', ')}, updated_at = ? WHERE id = ?
+      `).bind(...editionUpdate.values, now, existing.edition_id));
 
-    fields.push('updated_at = ?');
-    values.push(now);
-    values.push(id);
+      // Copy's updated_at still reflects the edit
+      if (copyUpdate.fields.length === 0) {
+        statements.push(this.env.DB.prepare(`
+          UPDATE books SET updated_at = ? WHERE id = ?
+        `).bind(now, id));
+      }
+    }
 
-    await this.env.DB.prepare(`
-      UPDATE books SET ${fields.join(', ')} WHERE id = ?
-    `).bind(...values).run();
+    if (statements.length === 0) return existing;
+
+    await this.env.DB.batch(statements);
 
     return this.getBook(id);
   }
@@ -134,40 +315,24 @@ export class DatabaseService {
   async listBooks(filters: {
     status?: BookStatus;
     in_stock?: boolean;
+    exclude_reserved?: boolean; // hide books held by an active checkout
     limit?: number;
     offset?: number;
   } = {}): Promise<{ books: Book[]; total: number }> {
-    const { status, in_stock, limit = 50, offset = 0 } = filters;
-
-    let whereClause = '';
-    const conditions: string[] = [];
-    const params: any[] = [];
-
-    if (status) {
-      conditions.push('status = ?');
-      params.push(status);
-    }
-
-    if (in_stock !== undefined) {
-      conditions.push('in_stock = ?');
-      params.push(in_stock ? 1 : 0);
-    }
-
-    if (conditions.length > 0) {
-      whereClause = 'WHERE ' + conditions.join(' AND ');
-    }
+    const { whereClause, params } = this.buildBookFilters(filters);
+    const { limit = 50, offset = 0 } = filters;
 
     // Get total count
     const countResult = await this.env.DB.prepare(`
-      SELECT COUNT(*) as count FROM books ${whereClause}
+      SELECT COUNT(*) as count FROM books b ${whereClause}
     `).bind(...params).first<{ count: number }>();
 
     const total = countResult?.count || 0;
 
     // Get books
     const results = await this.env.DB.prepare(`
-      SELECT * FROM books ${whereClause}
-      ORDER BY created_at DESC
+      ${BOOK_SELECT} ${whereClause}
+      ORDER BY b.created_at DESC
       LIMIT ? OFFSET ?
     `).bind(...params, limit, offset).all<any>();
 
@@ -176,6 +341,43 @@ export class DatabaseService {
     return { books, total };
   }
 
+  /**
+   * Public catalogue: editions with at least one available copy, newest
+   * copy first, each with all of its available copies
+   */
+  async listPublicListings(
+    limit: number = 20,
+    offset: number = 0
+  ): Promise<{ listings: BookListing[]; total: number }> {
+    const { whereClause, params } = this.buildBookFilters({
+      status: 'live',
+      in_stock: true,
+      exclude_reserved: true
+    });
+
+    const countResult = await this.env.DB.prepare(`
+      SELECT COUNT(DISTINCT b.edition_id) as count FROM books b ${whereClause}
+    `).bind(...params).first<{ count: number }>();
+
+    const editions = await this.env.DB.prepare(`
+      SELECT b.edition_id FROM books b ${whereClause}
+      GROUP BY b.edition_id
+      ORDER BY MAX(b.created_at) DESC
+      LIMIT ? OFFSET ?
+    `).bind(...params, limit, offset).all<{ edition_id: string }>();
+
+    const editionIds = editions.results.map(row => row.edition_id);
+    const listings = toListings(await this.getAvailableBooksByEditionIds(editionIds));
+    const byEdition = new Map(listings.map(listing => [listing.id, listing]));
+
+    return {
+      listings: editionIds
+        .map(id => byEdition.get(id))
+        .filter((listing): listing is BookListing => listing !== undefined),
+      total: countResult?.count || 0
+    };
+  }
+
   async markBookAsSold(bookId: string): Promise<void> {
     const now = getCurrentTimestamp();
     await this.env.DB.prepare(`
@@ -185,6 +387,151 @@ export class DatabaseService {
     `).bind(now, now, bookId).run();
   }
 
+  // ========== REPRICING OPERATIONS ==========
+
+  /**
+   * Live, in-stock, unreserved copies that went live on or before the given
+   * time and aren't exempt from automatic repricing (oldest first)
+   */
+  async listRepricingCandidates(liveBefore: string): Promise<Book[]> {
+    const results = await this.env.DB.prepare(`
+      ${BOOK_SELECT}
+      WHERE b.status = 'live' AND b.in_stock = 1 AND b.reprice_exempt = 0
+        AND b.live_at IS NOT NULL AND b.live_at <= ?
+        AND ${this.notReservedCondition('b')}
+      ORDER BY b.live_at ASC
+    `).bind(liveBefore, getCurrentTimestamp()).all<any>();
+
+    return results.results.map(row => this.deserializeBook(row));
+  }
+
+  /**
+   * Mark a copy down and record it in price_history, atomically
+   * Only applies if the copy is still live, unreserved and at `old_price`;
+   * returns false otherwise (e.g. an admin changed the price meanwhile)
+   */
+  async applyMarkdown(change: {
+    book_id: string;
+    old_price: number;
+    new_price: number;
+    base_price: number;
+    markdown: number;
+    details?: Record<string, any>;
+  }): Promise<boolean> {
+    const now = getCurrentTimestamp();
+    const guard = `id = ? AND sell_price = ? AND status = 'live' AND ${this.notReservedCondition('books')}`;
+
+    const [, update] = await this.env.DB.batch([
+      this.env.DB.prepare(`
+        INSERT INTO price_history (id, book_id, old_price, new_price, source, details, created_at)
+        SELECT ?, id, sell_price, ?, 'repricing', ?, ? FROM books WHERE ${guard}
+      `).bind(
+        generateUUID(),
+        change.new_price,
+        change.details ? JSON.stringify(change.details) : null,
+        now,
+        change.book_id,
+        change.old_price,
+        now
+      ),
+      this.env.DB.prepare(`
+        UPDATE books SET sell_price = ?, base_price = ?, markdown = ?, updated_at = ?
+        WHERE ${guard}
+      `).bind(
+        change.new_price,
+        change.base_price,
+        change.markdown,
+        now,
+        change.book_id,
+        change.old_price,
+        now
+      )
+    ]);
+
+    return (update.meta.changes || 0) > 0;
+  }
+
+  // ========== PRICE HISTORY OPERATIONS ==========
+
+  /**
+   * A copy's price changes, oldest first
+   */
+  async getPriceHistory(bookId: string): Promise<PriceHistoryEntry[]> {
+    const results = await this.env.DB.prepare(`
+      SELECT * FROM price_history WHERE book_id = ? ORDER BY created_at ASC, rowid ASC
+    `).bind(bookId).all<any>();
+
+    return results.results.map(row => this.deserializePriceHistoryEntry(row));
+  }
+
+  /**
+   * Realized margin for a sold copy (null until it has a paid order)
+   */
+  async getBookMargin(bookId: string): Promise<BookMargin | null> {
+    const result = await this.env.DB.prepare(`
+      ${SALES_CTE} SELECT * FROM sales WHERE book_id = ? LIMIT 1
+    `).bind(bookId).first<any>();
+
+    return result ? this.deserializeBookMargin(result) : null;
+  }
+
+  /**
+   * Realized margins on copies sold (paid) in the date range, most recent
+   * first, with totals over the whole range
+   */
+  async listBookMargins(filters: {
+    from?: string; // ISO timestamp, inclusive
+    to?: string; // ISO timestamp, inclusive
+    limit?: number;
+    offset?: number;
+  } = {}): Promise<MarginReport> {
+    const { from, to, limit = 50, offset = 0 } = filters;
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (from) {
+      conditions.push('sold_at >= ?');
+      params.push(from);
+    }
+
+    if (to) {
+      conditions.push('sold_at <= ?');
+      params.push(to);
+    }
+
+    const whereClause = conditions.length > 0 ? 'WHERE ' + conditions.join(' AND ') : '';
+    const totals = `
+      COUNT(*) as count, COALESCE(SUM(sold_price), 0) as revenue, COALESCE(SUM(cost_price), 0) as cost
+    `;
+
+    const [rows, summary, bySource] = await this.env.DB.batch<any>([
+      this.env.DB.prepare(`
+        ${SALES_CTE} SELECT * FROM sales ${whereClause}
+        ORDER BY sold_at DESC LIMIT ? OFFSET ?
+      `).bind(...params, limit, offset),
+      this.env.DB.prepare(`
+        ${SALES_CTE} SELECT ${totals} FROM sales ${whereClause}
+      `).bind(...params),
+      this.env.DB.prepare(`
+        ${SALES_CTE} SELECT final_price_source, ${totals} FROM sales ${whereClause}
+        GROUP BY final_price_source
+      `).bind(...params)
+    ]);
+
+    const summaryRow = summary.results[0] || { count: 0, revenue: 0, cost: 0 };
+
+    return {
+      sales: rows.results.map(row => this.deserializeBookMargin(row)),
+      total: summaryRow.count,
+      summary: {
+        ...this.toMarginTotals(summaryRow),
+        by_final_price_source: Object.fromEntries(
+          bySource.results.map(row => [row.final_price_source || 'unknown', this.toMarginTotals(row)])
+        )
+      }
+    };
+  }
+
   // ========== ORDER OPERATIONS ==========
 
   async createOrder(orderData: {
@@ -239,50 +586,1477 @@ export class DatabaseService {
     return result || null;
   }
 
+  async getOrderByStripePaymentId(paymentIntentId: string): Promise<Order | null> {
+    const result = await this.env.DB.prepare(`
+      SELECT * FROM orders WHERE stripe_payment_id = ? LIMIT 1
+    `).bind(paymentIntentId).first<Order>();
+
+    return result || null;
+  }
+
   async updateOrderPaymentStatus(
     orderId: string,
-    status: 'succeeded' | 'failed',
+    status: Exclude<OrderPaymentStatus, 'pending'>,
     txHash?: string
   ): Promise<void> {
     const now = getCurrentTimestamp();
 
     await this.env.DB.prepare(`
       UPDATE orders
-      SET payment_status = ?, paid_at = ?, base_tx_hash = ?, updated_at = ?
+      SET payment_status = ?, paid_at = ?, base_tx_hash = COALESCE(?, base_tx_hash)
       WHERE id = ?
     `).bind(
       status,
-      status === 'succeeded' ? now : null,
+      status === 'failed' ? null : now,
       txHash || null,
-      now,
       orderId
     ).run();
   }
 
-  // ========== HELPER METHODS ==========
+  /**
+   * Record a successful payment in one transaction: book sold, order paid
+   * and the checkout hold converted
+   * Returns false (and changes nothing) if the book is no longer live or
+   * another customer holds it
+   */
+  async completeSale(orderId: string, bookId: string): Promise<boolean> {
+    const now = getCurrentTimestamp();
 
-  private deserializeBook(row: any): Book {
-    return {
-      ...row,
-      in_stock: Boolean(row.in_stock),
-      metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
-      ai_enrichment: row.ai_enrichment ? JSON.parse(row.ai_enrichment) : undefined
+    const [sold] = await this.env.DB.batch([
+      this.env.DB.prepare(`
+        UPDATE books
+        SET in_stock = 0, status = 'sold', sold_at = ?, updated_at = ?
+        WHERE id = ? AND status = 'live'
+        AND NOT EXISTS (
+          SELECT 1 FROM book_reservations
+          WHERE book_id = ? AND status = 'active' AND (order_id IS NULL OR order_id != ?)
+        )
+      `).bind(now, now, bookId, bookId, orderId),
+      // Only if the book update above went through
+      this.env.DB.prepare(`
+        UPDATE orders SET payment_status = 'succeeded', paid_at = ?
+        WHERE id = ? AND EXISTS (
+          SELECT 1 FROM books WHERE id = ? AND status = 'sold' AND sold_at = ?
+        )
+      `).bind(now, orderId, bookId, now),
+      this.env.DB.prepare(`
+        UPDATE book_reservations
+        SET status = 'converted', released_at = ?
+        WHERE order_id = ? AND status = 'active' AND EXISTS (
+          SELECT 1 FROM books WHERE id = ? AND status = 'sold' AND sold_at = ?
+        )
+      `).bind(now, orderId, bookId, now)
+    ]);
+
+    return sold.meta.changes > 0;
+  }
+
+  // ========== DONATION OPERATIONS ==========
+
+  /**
+   * Profit totals per charity for paid orders in a month not yet in a batch
+   */
+  async getUnbatchedDonationTotals(month: string): Promise<Array<{
+    charity_name: string;
+    total_amount: number;
+    order_count: number;
+  }>> {
+    const results = await this.env.DB.prepare(`
+      SELECT charity_name, SUM(profit_amount) as total_amount, COUNT(*) as order_count
+      FROM orders
+      WHERE month_batch = ? AND payment_status = 'succeeded' AND donation_id IS NULL
+      GROUP BY charity_name
+      ORDER BY charity_name
+    `).bind(month).all<{ charity_name: string; total_amount: number; order_count: number }>();
+
+    return results.results;
+  }
+
+  async getDonation(id: string): Promise<MonthlyDonation | null> {
+    const result = await this.env.DB.prepare(`
+      SELECT * FROM monthly_donations WHERE id = ?
+    `).bind(id).first<MonthlyDonation>();
+
+    return result || null;
+  }
+
+  async getDonationByMonthAndCharity(
+    month: string,
+    charityName: string
+  ): Promise<MonthlyDonation | null> {
+    const result = await this.env.DB.prepare(`
+      SELECT * FROM monthly_donations WHERE month = ? AND charity_name = ? LIMIT 1
+    `).bind(month, charityName).first<MonthlyDonation>();
+
+    return result || null;
+  }
+
+  async createDonation(month: string, charityName: string): Promise<MonthlyDonation> {
+    const donation: MonthlyDonation = {
+      id: generateUUID(),
+      month,
+      charity_name: charityName,
+      total_amount: 0,
+      order_count: 0,
+      status: 'pending',
+      created_at: getCurrentTimestamp()
     };
+
+    await this.env.DB.prepare(`
+      INSERT INTO monthly_donations (
+        id, month, charity_name, total_amount, order_count, status, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      donation.id,
+      donation.month,
+      donation.charity_name,
+      donation.total_amount,
+      donation.order_count,
+      donation.status,
+      donation.created_at
+    ).run();
+
+    return donation;
   }
 
-  // ========== SEARCH ==========
+  /**
+   * Link a charity's unbatched paid orders for the month to a batch and
+   * recompute the batch totals from its orders, in one transaction
+   * Returns the number of orders newly linked
+   */
+  async addOrdersToDonation(donation: MonthlyDonation): Promise<number> {
+    const [assigned] = await this.env.DB.batch([
+      this.env.DB.prepare(`
+        UPDATE orders SET donation_id = ?
+        WHERE month_batch = ? AND charity_name = ?
+        AND payment_status = 'succeeded' AND donation_id IS NULL
+      `).bind(donation.id, donation.month, donation.charity_name),
+      this.env.DB.prepare(`
+        UPDATE monthly_donations
+        SET total_amount = (
+              SELECT COALESCE(SUM(profit_amount), 0) FROM orders WHERE donation_id = ?
+            ),
+            order_count = (SELECT COUNT(*) FROM orders WHERE donation_id = ?)
+        WHERE id = ?
+      `).bind(donation.id, donation.id, donation.id)
+    ]);
+
+    return assigned.meta.changes;
+  }
+
+  async listDonations(filters: {
+    status?: DonationStatus;
+    month?: string;
+    charity_name?: string;
+    limit?: number;
+    offset?: number;
+  } = {}): Promise<{ donations: MonthlyDonation[]; total: number }> {
+    const { status, month, charity_name, limit = 50, offset = 0 } = filters;
+
+    let whereClause = '';
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (status) {
+      conditions.push('status = ?');
+      params.push(status);
+    }
+
+    if (month) {
+      conditions.push('month = ?');
+      params.push(month);
+    }
+
+    if (charity_name) {
+      conditions.push('charity_name = ?');
+      params.push(charity_name);
+    }
+
+    if (conditions.length > 0) {
+      whereClause = 'WHERE ' + conditions.join(' AND ');
+    }
+
+    const countResult = await this.env.DB.prepare(`
+      SELECT COUNT(*) as count FROM monthly_donations ${whereClause}
+    `).bind(...params).first<{ count: number }>();
+
+    const total = countResult?.count || 0;
 
-  async searchBooksByKeyword(query: string, limit: number = 20): Promise<Book[]> {
-    // Use D1's FTS (Full-Text Search) with content table
-    // Since we use content=books, we query directly from books_fts and join back
     const results = await this.env.DB.prepare(`
-      SELECT b.* FROM books_fts fts
-      JOIN books b ON b.rowid = fts.rowid
-      WHERE fts.books_fts MATCH ?
-      AND b.status = 'live' AND b.in_stock = 1
-      ORDER BY bm25(books_fts)
+      SELECT * FROM monthly_donations ${whereClause}
+      ORDER BY month DESC, charity_name
+      LIMIT ? OFFSET ?
+    `).bind(...params, limit, offset).all<MonthlyDonation>();
+
+    return { donations: results.results, total };
+  }
+
+  /**
+   * Profit and donation totals per charity for the transparency summary
+   */
+  async getCharityImpact(): Promise<CharityImpact[]> {
+    const results = await this.env.DB.prepare(`
+      SELECT
+        o.charity_name,
+        COUNT(*) as books_sold,
+        COALESCE(SUM(o.profit_amount), 0) as total_profit,
+        COALESCE(SUM(CASE WHEN o.donation_status IN ('sent', 'confirmed')
+          THEN o.profit_amount ELSE 0 END), 0) as total_donated
+      FROM orders o
+      WHERE o.payment_status = 'succeeded'
+      GROUP BY o.charity_name
+      ORDER BY total_profit DESC
+    `).all<CharityImpact>();
+
+    return results.results;
+  }
+
+  async getLatestDonationMonth(): Promise<string | undefined> {
+    const result = await this.env.DB.prepare(`
+      SELECT MAX(month) as month FROM monthly_donations
+      WHERE status IN ('sent', 'confirmed')
+    `).first<{ month: string | null }>();
+
+    return result?.month || undefined;
+  }
+
+  async getDonationOrders(donationId: string): Promise<Order[]> {
+    const results = await this.env.DB.prepare(`
+      SELECT * FROM orders WHERE donation_id = ? ORDER BY created_at
+    `).bind(donationId).all<Order>();
+
+    return results.results;
+  }
+
+  async updateDonationDocuments(
+    id: string,
+    documents: { receipt_url?: string; bank_statement_url?: string }
+  ): Promise<void> {
+    await this.env.DB.prepare(`
+      UPDATE monthly_donations
+      SET receipt_url = COALESCE(?, receipt_url),
+          bank_statement_url = COALESCE(?, bank_statement_url)
+      WHERE id = ?
+    `).bind(
+      documents.receipt_url || null,
+      documents.bank_statement_url || null,
+      id
+    ).run();
+  }
+
+  /**
+   * Move a batch (and its orders) to 'sent' or 'confirmed'
+   */
+  async updateDonationStatus(
+    id: string,
+    status: 'sent' | 'confirmed'
+  ): Promise<void> {
+    const now = getCurrentTimestamp();
+    const timestampColumn = status === 'sent' ? 'sent_at' : 'confirmed_at';
+
+    await this.env.DB.batch([
+      this.env.DB.prepare(`
+        UPDATE monthly_donations
+        SET status = ?, ${timestampColumn} = COALESCE(${timestampColumn}, ?)
+        WHERE id = ?
+      `).bind(status, now, id),
+      this.env.DB.prepare(`
+        UPDATE orders SET donation_status = ? WHERE donation_id = ?
+      `).bind(status, id)
+    ]);
+  }
+
+  // ========== RESERVATION OPERATIONS ==========
+
+  /**
+   * Place a hold on a live, in-stock book
+   * Returns null if the book is unavailable or already held (lapsed holds
+   * count until expired - see ReservationService.expireStale)
+   */
+  async createReservation(bookId: string, expiresAt: string): Promise<BookReservation | null> {
+    const now = getCurrentTimestamp();
+
+    const reservation: BookReservation = {
+      id: generateUUID(),
+      book_id: bookId,
+      status: 'active',
+      expires_at: expiresAt,
+      created_at: now
+    };
+
+    // Single statement so the availability check and insert can't interleave
+    const result = await this.env.DB.prepare(`
+      INSERT INTO book_reservations (id, book_id, status, expires_at, created_at)
+      SELECT ?, ?, 'active', ?, ?
+      WHERE EXISTS (
+        SELECT 1 FROM books WHERE id = ? AND status = 'live' AND in_stock = 1
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM book_reservations WHERE book_id = ? AND status = 'active'
+      )
+    `).bind(
+      reservation.id,
+      reservation.book_id,
+      reservation.expires_at,
+      reservation.created_at,
+      bookId,
+      bookId
+    ).run();
+
+    return result.meta.changes > 0 ? reservation : null;
+  }
+
+  async attachReservationOrder(reservationId: string, orderId: string): Promise<void> {
+    await this.env.DB.prepare(`
+      UPDATE book_reservations SET order_id = ? WHERE id = ?
+    `).bind(orderId, reservationId).run();
+  }
+
+  async getActiveReservationForOrder(orderId: string): Promise<BookReservation | null> {
+    const result = await this.env.DB.prepare(`
+      SELECT * FROM book_reservations WHERE order_id = ? AND status = 'active' LIMIT 1
+    `).bind(orderId).first<BookReservation>();
+
+    return result || null;
+  }
+
+  /**
+   * End an active hold early (payment failed, checkout aborted)
+   */
+  async releaseReservation(reservationId: string): Promise<void> {
+    await this.env.DB.prepare(`
+      UPDATE book_reservations
+      SET status = 'released', released_at = ?
+      WHERE id = ? AND status = 'active'
+    `).bind(getCurrentTimestamp(), reservationId).run();
+  }
+
+  /**
+   * Expire every active hold past its expiry time, or only a book's
+   * Returns the holds that were expired
+   */
+  async expireReservations(
+    bookId?: string,
+    now: string = getCurrentTimestamp()
+  ): Promise<BookReservation[]> {
+    const results = await this.env.DB.prepare(`
+      UPDATE book_reservations
+      SET status = 'expired', released_at = ?
+      WHERE status = 'active' AND expires_at <= ? AND (? IS NULL OR book_id = ?)
+      RETURNING *
+    `).bind(now, now, bookId ?? null, bookId ?? null).all<BookReservation>();
+
+    return results.results;
+  }
+
+  // ========== BLOCKCHAIN EVENT OPERATIONS ==========
+
+  async createBlockchainEvent(
+    eventType: BlockchainEventType,
+    referenceId: string
+  ): Promise<BlockchainEvent> {
+    const event: BlockchainEvent = {
+      id: generateUUID(),
+      event_type: eventType,
+      reference_id: referenceId,
+      status: 'pending',
+      created_at: getCurrentTimestamp()
+    };
+
+    await this.env.DB.prepare(`
+      INSERT INTO blockchain_events (id, event_type, reference_id, status, created_at)
+      VALUES (?, ?, ?, ?, ?)
+    `).bind(
+      event.id,
+      event.event_type,
+      event.reference_id,
+      event.status,
+      event.created_at
+    ).run();
+
+    return event;
+  }
+
+  async getBlockchainEvent(id: string): Promise<BlockchainEvent | null> {
+    const result = await this.env.DB.prepare(`
+      SELECT * FROM blockchain_events WHERE id = ?
+    `).bind(id).first<BlockchainEvent>();
+
+    return result || null;
+  }
+
+  /**
+   * Latest event for an order/donation that hasn't failed
+   */
+  async getActiveBlockchainEvent(
+    eventType: BlockchainEventType,
+    referenceId: string
+  ): Promise<BlockchainEvent | null> {
+    const result = await this.env.DB.prepare(`
+      SELECT * FROM blockchain_events
+      WHERE event_type = ? AND reference_id = ? AND status != 'failed'
+      ORDER BY created_at DESC
+      LIMIT 1
+    `).bind(eventType, referenceId).first<BlockchainEvent>();
+
+    return result || null;
+  }
+
+  async updateBlockchainEvent(
+    id: string,
+    updates: Partial<Pick<BlockchainEvent,
+      'status' | 'tx_hash' | 'error_message' | 'gas_used' | 'block_number' | 'confirmed_at'
+    >>
+  ): Promise<void> {
+    const fields: string[] = [];
+    const values: any[] = [];
+
+    for (const [field, value] of Object.entries(updates)) {
+      if (value === undefined) continue;
+      fields.push(`${field} = ?`);
+      values.push(value);
+    }
+
+    if (fields.length === 0) return;
+
+    await this.env.DB.prepare(`
+      UPDATE blockchain_events SET ${fields.join(', ')} WHERE id = ?
+    `).bind(...values, id).run();
+  }
+
+  /**
+   * Mirror a blockchain event's outcome onto its order or donation
+   */
+  async updateReferenceBlockchainStatus(
+    eventType: BlockchainEventType,
+    referenceId: string,
+    status: 'pending' | 'confirmed' | 'failed',
+    txHash?: string
+  ): Promise<void> {
+    if (eventType === 'purchase') {
+      await this.env.DB.prepare(`
+        UPDATE orders
+        SET blockchain_status = ?, base_tx_hash = COALESCE(?, base_tx_hash)
+        WHERE id = ?
+      `).bind(status, txHash || null, referenceId).run();
+      return;
+    }
+
+    await this.env.DB.prepare(`
+      UPDATE monthly_donations
+      SET blockchain_status = ?,
+          base_tx_hash = COALESCE(?, base_tx_hash),
+          recorded_at = CASE WHEN ? = 'confirmed' THEN ? ELSE recorded_at END
+      WHERE id = ?
+    `).bind(status, txHash || null, status, getCurrentTimestamp(), referenceId).run();
+  }
+
+  // ========== INGEST JOB OPERATIONS ==========
+
+  /**
+   * Create a job and its rows in one batch
+   * Rows that failed validation can be passed in already 'failed'
+   */
+  async createIngestJob(
+    rows: Array<Pick<IngestJobRow, 'isbn' | 'condition' | 'cost_price' | 'status' | 'error'>>,
+    createdBy?: string
+  ): Promise<IngestJob> {
+    const now = getCurrentTimestamp();
+    const hasWork = rows.some(row => row.status === 'pending');
+    const job: IngestJob = {
+      id: generateUUID(),
+      status: hasWork ? 'pending' : 'completed',
+      total_rows: rows.length,
+      created_by: createdBy,
+      created_at: now,
+      updated_at: now,
+      completed_at: hasWork ? undefined : now
+    };
+
+    const statements = [
+      this.env.DB.prepare(`
+        INSERT INTO ingest_jobs (id, status, total_rows, created_by, created_at, updated_at, completed_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `).bind(
+        job.id,
+        job.status,
+        job.total_rows,
+        createdBy || null,
+        now,
+        now,
+        job.completed_at || null
+      ),
+      ...rows.map((row, index) => this.env.DB.prepare(`
+        INSERT INTO ingest_job_rows (
+          job_id, row_number, isbn, condition, cost_price, status, error, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `).bind(
+        job.id,
+        index + 1,
+        row.isbn,
+        row.condition || null,
+        row.cost_price ?? null,
+        row.status,
+        row.error || null,
+        now
+      ))
+    ];
+
+    await this.env.DB.batch(statements);
+
+    return job;
+  }
+
+  async getIngestJob(id: string): Promise<IngestJob | null> {
+    const result = await this.env.DB.prepare(`
+      SELECT * FROM ingest_jobs WHERE id = ?
+    `).bind(id).first<any>();
+
+    if (!result) return null;
+
+    return {
+      ...result,
+      created_by: result.created_by || undefined,
+      completed_at: result.completed_at || undefined
+    };
+  }
+
+  async getIngestJobRows(jobId: string): Promise<IngestJobRow[]> {
+    const results = await this.env.DB.prepare(`
+      SELECT * FROM ingest_job_rows WHERE job_id = ? ORDER BY row_number
+    `).bind(jobId).all<any>();
+
+    return results.results.map(row => this.deserializeIngestJobRow(row));
+  }
+
+  /**
+   * @param updates book_id null clears it; undefined leaves it as is
+   */
+  async updateIngestJobRow(
+    jobId: string,
+    rowNumber: number,
+    updates: {
+      status: IngestRowStatus;
+      book_id?: string | null;
+      error?: string | null;
+      warnings?: string[];
+      attempts?: number;
+    }
+  ): Promise<void> {
+    const now = getCurrentTimestamp();
+
+    await this.env.DB.batch([
+      this.env.DB.prepare(`
+        UPDATE ingest_job_rows
+        SET status = ?,
+            book_id = CASE WHEN ? THEN ? ELSE book_id END,
+            error = ?,
+            warnings = COALESCE(?, warnings),
+            attempts = COALESCE(?, attempts),
+            updated_at = ?
+        WHERE job_id = ? AND row_number = ?
+      `).bind(
+        updates.status,
+        updates.book_id !== undefined ? 1 : 0,
+        updates.book_id ?? null,
+        updates.error || null,
+        updates.warnings?.length ? JSON.stringify(updates.warnings) : null,
+        updates.attempts ?? null,
+        now,
+        jobId,
+        rowNumber
+      ),
+      this.ingestJobStatusStatement(jobId, now)
+    ]);
+  }
+
+  /**
+   * Move a pending row to 'processing' for one worker
+   * The row keeps the copy ID it was first claimed with, so a retry can
+   * tell whether an earlier attempt already created the copy
+   * Returns null if the row isn't pending (done, or another worker has it)
+   */
+  async claimIngestJobRow(
+    jobId: string,
+    rowNumber: number,
+    attempts: number,
+    copyId: string
+  ): Promise<IngestJobRow | null> {
+    const now = getCurrentTimestamp();
+
+    const [claimed] = await this.env.DB.batch([
+      this.env.DB.prepare(`
+        UPDATE ingest_job_rows
+        SET status = 'processing', attempts = ?, book_id = COALESCE(book_id, ?), updated_at = ?
+        WHERE job_id = ? AND row_number = ? AND status = 'pending'
+        RETURNING *
+      `).bind(attempts, copyId, now, jobId, rowNumber),
+      this.ingestJobStatusStatement(jobId, now)
+    ]);
+
+    const row = claimed.results[0];
+    return row ? this.deserializeIngestJobRow(row) : null;
+  }
+
+  /**
+   * Rows no worker has touched since `before`: 'processing' rows (their
+   * worker died) go back to 'pending', or fail once out of attempts, and
+   * 'pending' rows are touched
+   * Returns the rows now pending
+   */
+  async resetStaleIngestRows(before: string, maxAttempts: number): Promise<IngestJobRow[]> {
+    const now = getCurrentTimestamp();
+
+    const results = await this.env.DB.prepare(`
+      UPDATE ingest_job_rows
+      SET status = CASE
+            WHEN status = 'processing' AND attempts >= ? THEN 'failed'
+            ELSE 'pending'
+          END,
+          error = CASE
+            WHEN status = 'processing' AND attempts >= ? THEN 'Timed out while processing'
+            ELSE error
+          END,
+          book_id = CASE
+            WHEN status = 'processing' AND attempts >= ? THEN NULL
+            ELSE book_id
+          END,
+          updated_at = ?
+      WHERE status IN ('pending', 'processing') AND updated_at < ?
+      RETURNING *
+    `).bind(maxAttempts, maxAttempts, maxAttempts, now, before).all<any>();
+
+    const rows = results.results.map(row => this.deserializeIngestJobRow(row));
+    const jobIds = [...new Set(rows.map(row => row.job_id))];
+
+    if (jobIds.length > 0) {
+      await this.env.DB.batch(jobIds.map(jobId => this.ingestJobStatusStatement(jobId, now)));
+    }
+
+    return rows.filter(row => row.status === 'pending');
+  }
+
+  /**
+   * Pending rows across all jobs, oldest first
+   */
+  async listPendingIngestRows(limit: number): Promise<IngestJobRow[]> {
+    const results = await this.env.DB.prepare(`
+      SELECT r.* FROM ingest_job_rows r
+      JOIN ingest_jobs j ON j.id = r.job_id
+      WHERE r.status = 'pending'
+      ORDER BY j.created_at, r.row_number
+      LIMIT ?
+    `).bind(limit).all<any>();
+
+    return results.results.map(row => this.deserializeIngestJobRow(row));
+  }
+
+  // ========== METADATA CACHE OPERATIONS ==========
+
+  /**
+   * Unexpired cached response; `response` is null when the provider had no such book
+   */
+  async getMetadataCache(
+    provider: string,
+    isbn: string
+  ): Promise<{ response: unknown | null; fetched_at: string } | null> {
+    const result = await this.env.DB.prepare(`
+      SELECT response, fetched_at FROM metadata_cache
+      WHERE provider = ? AND isbn = ? AND expires_at > ?
+    `).bind(provider, isbn, getCurrentTimestamp()).first<{ response: string | null; fetched_at: string }>();
+
+    if (!result) return null;
+
+    return {
+      response: result.response ? JSON.parse(result.response) : null,
+      fetched_at: result.fetched_at
+    };
+  }
+
+  async putMetadataCache(
+    provider: string,
+    isbn: string,
+    response: unknown | null,
+    ttlSeconds: number
+  ): Promise<void> {
+    const now = new Date();
+
+    await this.env.DB.prepare(`
+      INSERT OR REPLACE INTO metadata_cache (provider, isbn, response, fetched_at, expires_at)
+      VALUES (?, ?, ?, ?, ?)
+    `).bind(
+      provider,
+      isbn,
+      response === null ? null : JSON.stringify(response),
+      now.toISOString(),
+      new Date(now.getTime() + ttlSeconds * 1000).toISOString()
+    ).run();
+  }
+
+  // ========== METADATA REFRESH OPERATIONS ==========
+
+  /**
+   * One copy per edition matching the filter, oldest editions first
+   */
+  async listBooksForRefresh(filter: RefreshFilter & { limit: number }): Promise<Book[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filter.book_ids?.length) {
+      conditions.push(`b.id IN (${filter.book_ids.map(() => '?').join(', ')})`);
+      params.push(...filter.book_ids);
+    }
+
+    if (filter.status) {
+      conditions.push('b.status = ?');
+      params.push(filter.status);
+    }
+
+    switch (filter.missing) {
+      case 'description':
+      case 'cover_url':
+        conditions.push(`(e.${filter.missing} IS NULL OR e.${filter.missing} = '')`);
+        break;
+      case 'categories':
+        conditions.push(`COALESCE(json_array_length(e.metadata, '$.categories'), 0) = 0`);
+        break;
+      case 'ai_enrichment':
+        conditions.push('e.ai_enrichment IS NULL');
+        break;
+    }
+
+    if (filter.enrichment_provider) {
+      conditions.push(`json_extract(e.ai_enrichment, '$.provider') = ?`);
+      params.push(filter.enrichment_provider);
+    }
+
+    if (filter.created_before) {
+      conditions.push('e.created_at < ?');
+      params.push(filter.created_before);
+    }
+
+    const whereClause = conditions.length > 0 ? 'WHERE ' + conditions.join(' AND ') : '';
+
+    // Refreshes are per edition - any matching copy can stand for it
+    const results = await this.env.DB.prepare(`
+      ${BOOK_SELECT} ${whereClause}
+      GROUP BY b.edition_id
+      ORDER BY e.created_at ASC
+      LIMIT ?
+    `).bind(...params, filter.limit).all<any>();
+
+    return results.results.map(row => this.deserializeBook(row));
+  }
+
+  async createMetadataRefresh(
+    refresh: Omit<MetadataRefresh, 'id' | 'status' | 'created_at'>
+  ): Promise<MetadataRefresh> {
+    const created: MetadataRefresh = {
+      ...refresh,
+      id: generateUUID(),
+      status: 'pending',
+      created_at: getCurrentTimestamp()
+    };
+
+    await this.env.DB.prepare(`
+      INSERT INTO metadata_refreshes (
+        id, edition_id, book_id, status, metadata, enrichment, changes, errors, created_by, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      created.id,
+      created.edition_id,
+      created.book_id,
+      created.status,
+      created.metadata ? 1 : 0,
+      created.enrichment ? 1 : 0,
+      JSON.stringify(created.changes),
+      created.errors?.length ? JSON.stringify(created.errors) : null,
+      created.created_by || null,
+      created.created_at
+    ).run();
+
+    return created;
+  }
+
+  async getMetadataRefresh(id: string): Promise<MetadataRefresh | null> {
+    const result = await this.env.DB.prepare(`
+      SELECT * FROM metadata_refreshes WHERE id = ?
+    `).bind(id).first<any>();
+
+    return result ? this.deserializeMetadataRefresh(result) : null;
+  }
+
+  /**
+   * Update the edition and mark a pending refresh applied, in one
+   * transaction. The update is built from the edition as last read, so it
+   * only applies if the edition is unchanged since (`editionUpdatedAt`);
+   * false (and nothing changed) if it was edited or the refresh already applied
+   */
+  async applyMetadataRefresh(
+    id: string,
+    editionId: string,
+    editionUpdatedAt: string,
+    updates: Partial<Omit<Edition, 'id' | 'isbn' | 'created_at' | 'updated_at'>>,
+    accepted: RefreshField[],
+    appliedBy?: string
+  ): Promise<boolean> {
+    const { fields, values } = this.buildUpdate(updates, EDITION_FIELDS);
+    const now = getCurrentTimestamp();
+
+    const [edited, applied] = await this.env.DB.batch([
+      this.env.DB.prepare(`
+        UPDATE editions SET ${[...fields, 'updated_at = ?'].join(', ')}
+        WHERE id = ? AND updated_at = ?
+        AND EXISTS (SELECT 1 FROM metadata_refreshes WHERE id = ? AND status = 'pending')
+      `).bind(...values, now, editionId, editionUpdatedAt, id),
+      // Only if the edition update above went through
+      this.env.DB.prepare(`
+        UPDATE metadata_refreshes
+        SET status = 'applied', accepted = ?, applied_by = ?, applied_at = ?
+        WHERE id = ? AND status = 'pending' AND EXISTS (
+          SELECT 1 FROM editions WHERE id = ? AND updated_at = ?
+        )
+      `).bind(JSON.stringify(accepted), appliedBy || null, now, id, editionId, now)
+    ]);
+
+    return edited.meta.changes > 0 && applied.meta.changes > 0;
+  }
+
+  // ========== STRIPE EVENT OPERATIONS ==========
+
+  async hasProcessedStripeEvent(eventId: string): Promise<boolean> {
+    const result = await this.env.DB.prepare(`
+      SELECT id FROM stripe_events WHERE id = ?
+    `).bind(eventId).first();
+
+    return Boolean(result);
+  }
+
+  async recordStripeEvent(eventId: string, type: string): Promise<void> {
+    await this.env.DB.prepare(`
+      INSERT OR IGNORE INTO stripe_events (id, type, processed_at)
+      VALUES (?, ?, ?)
+    `).bind(eventId, type, getCurrentTimestamp()).run();
+  }
+
+  // ========== ADMIN USER OPERATIONS ==========
+
+  async getAdminUser(id: string): Promise<AdminUser | null> {
+    const result = await this.env.DB.prepare(`
+      SELECT * FROM admin_users WHERE id = ?
+    `).bind(id).first<any>();
+
+    if (!result) return null;
+    return this.deserializeAdminUser(result);
+  }
+
+  /**
+   * Look up an admin by email, including the password hash for login checks
+   */
+  async getAdminUserCredentials(
+    email: string
+  ): Promise<{ admin: AdminUser; password_hash: string } | null> {
+    const result = await this.env.DB.prepare(`
+      SELECT * FROM admin_users WHERE lower(email) = ? LIMIT 1
+    `).bind(email.trim().toLowerCase()).first<any>();
+
+    if (!result) return null;
+
+    return {
+      admin: this.deserializeAdminUser(result),
+      password_hash: result.password_hash
+    };
+  }
+
+  async updateAdminLastLogin(id: string): Promise<string> {
+    const now = getCurrentTimestamp();
+    await this.env.DB.prepare(`
+      UPDATE admin_users SET last_login = ? WHERE id = ?
+    `).bind(now, id).run();
+    return now;
+  }
+
+  // ========== AUDIT LOG OPERATIONS ==========
+
+  async createAuditLog(entry: {
+    admin_id?: string;
+    action: string;
+    entity_type: AuditEntityType;
+    entity_id: string;
+    details?: Record<string, any>;
+  }): Promise<AuditLogEntry> {
+    const log: AuditLogEntry = {
+      id: generateUUID(),
+      ...entry,
+      created_at: getCurrentTimestamp()
+    };
+
+    await this.env.DB.prepare(`
+      INSERT INTO audit_log (
+        id, admin_id, action, entity_type, entity_id, details, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      log.id,
+      log.admin_id || null,
+      log.action,
+      log.entity_type,
+      log.entity_id,
+      log.details ? JSON.stringify(log.details) : null,
+      log.created_at
+    ).run();
+
+    return log;
+  }
+
+  async listAuditLogs(filters: {
+    entity_type?: AuditEntityType;
+    entity_id?: string;
+    admin_id?: string;
+    from?: string; // ISO timestamp, inclusive
+    to?: string; // ISO timestamp, inclusive
+    limit?: number;
+    offset?: number;
+  } = {}): Promise<{ entries: AuditLogEntry[]; total: number }> {
+    const { entity_type, entity_id, admin_id, from, to, limit = 50, offset = 0 } = filters;
+
+    let whereClause = '';
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (entity_type) {
+      conditions.push('entity_type = ?');
+      params.push(entity_type);
+    }
+
+    if (entity_id) {
+      conditions.push('entity_id = ?');
+      params.push(entity_id);
+    }
+
+    if (admin_id) {
+      conditions.push('admin_id = ?');
+      params.push(admin_id);
+    }
+
+    if (from) {
+      conditions.push('created_at >= ?');
+      params.push(from);
+    }
+
+    if (to) {
+      conditions.push('created_at <= ?');
+      params.push(to);
+    }
+
+    if (conditions.length > 0) {
+      whereClause = 'WHERE ' + conditions.join(' AND ');
+    }
+
+    const countResult = await this.env.DB.prepare(`
+      SELECT COUNT(*) as count FROM audit_log ${whereClause}
+    `).bind(...params).first<{ count: number }>();
+
+    const total = countResult?.count || 0;
+
+    const results = await this.env.DB.prepare(`
+      SELECT * FROM audit_log ${whereClause}
+      ORDER BY created_at DESC
+      LIMIT ? OFFSET ?
+    `).bind(...params, limit, offset).all<any>();
+
+    const entries = results.results.map(row => ({
+      ...row,
+      admin_id: row.admin_id || undefined,
+      details: row.details ? JSON.parse(row.details) : undefined
+    }));
+
+    return { entries, total };
+  }
+
+  // ========== HELPER METHODS ==========
+
+  /**
+   * SQL condition excluding books with an unexpired active hold
+   * Binds one parameter: the current timestamp
+   */
+  private notReservedCondition(bookAlias: string): string {
+    return `NOT EXISTS (
+      SELECT 1 FROM book_reservations r
+      WHERE r.book_id = ${bookAlias}.id AND r.status = 'active' AND r.expires_at > ?
+    )`;
+  }
+
+  private deserializeAdminUser(row: any): AdminUser {
+    return {
+      id: row.id,
+      email: row.email,
+      name: row.name || undefined,
+      role: row.role,
+      active: Boolean(row.active),
+      created_at: row.created_at,
+      last_login: row.last_login || undefined
+    };
+  }
+
+  /**
+   * SET clauses for the given fields, serializing JSON and booleans
+   */
+  private buildUpdate(
+    updates: Record<string, any>,
+    allowedFields: string[]
+  ): { fields: string[]; values: any[] } {
+    const fields: string[] = [];
+    const values: any[] = [];
+
+    for (const field of allowedFields) {
+      if (updates[field] !== undefined) {
+        fields.push(`${field} = ?`);
+        let value = updates[field];
+
+        // Serialize JSON fields
+        if (['metadata', 'ai_enrichment'].includes(field) && value) {
+          value = JSON.stringify(value);
+        }
+
+        // Handle boolean
+        if (['in_stock', 'reprice_exempt'].includes(field) && typeof value === 'boolean') {
+          value = value ? 1 : 0;
+        }
+
+        values.push(value);
+      }
+    }
+
+    return { fields, values };
+  }
+
+  /**
+   * WHERE clause over copies (alias b)
+   */
+  private buildBookFilters(filters: {
+    status?: BookStatus;
+    in_stock?: boolean;
+    exclude_reserved?: boolean;
+  }): { whereClause: string; params: any[] } {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters.status) {
+      conditions.push('b.status = ?');
+      params.push(filters.status);
+    }
+
+    if (filters.in_stock !== undefined) {
+      conditions.push('b.in_stock = ?');
+      params.push(filters.in_stock ? 1 : 0);
+    }
+
+    if (filters.exclude_reserved) {
+      conditions.push(this.notReservedCondition('b'));
+      params.push(getCurrentTimestamp());
+    }
+
+    return {
+      whereClause: conditions.length > 0 ? 'WHERE ' + conditions.join(' AND ') : '',
+      params
+    };
+  }
+
+  /**
+   * WHERE clause over available copies (alias b) and their editions (alias e)
+   * for search filters
+   * @param skip Filter group to leave out (used for disjunctive facet counts)
+   */
+  private buildSearchFilters(
+    filters: SearchFilters,
+    skip?: SearchFilterGroup
+  ): { whereClause: string; params: any[] } {
+    const { whereClause, params } = this.buildBookFilters({
+      status: 'live',
+      in_stock: true,
+      exclude_reserved: true
+    });
+    const conditions = [whereClause.replace(/^WHERE /, '')];
+    const placeholders = (values: unknown[]) => values.map(() => '?').join(', ');
+
+    // List values are compared lower-cased and trimmed, as parsed from the query
+    const overlaps = (column: string, path: string, values: string[]) => {
+      params.push(...values);
+      return `EXISTS (
+        SELECT 1 FROM json_each(e.${column}, '${path}')
+        WHERE lower(trim(json_each.value)) IN (${placeholders(values)})
+      )`;
+    };
+
+    if (skip !== 'condition' && filters.condition?.length) {
+      conditions.push(`b.condition IN (${placeholders(filters.condition)})`);
+      params.push(...filters.condition);
+    }
+
+    if (skip !== 'price_range') {
+      if (filters.min_price !== undefined) {
+        conditions.push('b.sell_price >= ?');
+        params.push(filters.min_price);
+      }
+      if (filters.max_price !== undefined) {
+        conditions.push('b.sell_price <= ?');
+        params.push(filters.max_price);
+      }
+    }
+
+    if (skip !== 'categories' && filters.categories?.length) {
+      conditions.push(overlaps('metadata', '$.categories', filters.categories));
+    }
+
+    if (skip !== 'pace' && filters.pace?.length) {
+      conditions.push(`json_extract(e.ai_enrichment, '$.pace') IN (${placeholders(filters.pace)})`);
+      params.push(...filters.pace);
+    }
+
+    if (skip !== 'emotional_tone') {
+      if (filters.emotional_tone?.length) {
+        conditions.push(overlaps('ai_enrichment', '$.emotional_tone', filters.emotional_tone));
+      }
+      if (filters.exclude_tone?.length) {
+        conditions.push('NOT ' + overlaps('ai_enrichment', '$.emotional_tone', filters.exclude_tone));
+      }
+    }
+
+    // Unknown shock factor (NULL) can't satisfy a shock filter
+    if (skip !== 'shock_factor') {
+      if (filters.min_shock_factor !== undefined) {
+        conditions.push("json_extract(e.ai_enrichment, '$.shock_factor') >= ?");
+        params.push(filters.min_shock_factor);
+      }
+      if (filters.max_shock_factor !== undefined) {
+        conditions.push("json_extract(e.ai_enrichment, '$.shock_factor') <= ?");
+        params.push(filters.max_shock_factor);
+      }
+    }
+
+    return { whereClause: 'WHERE ' + conditions.join(' AND '), params };
+  }
+
+  /**
+   * CASE expression labelling a numeric column with its facet bucket
+   */
+  private bucketExpression(column: string, buckets: FacetBucket[]): { sql: string; params: any[] } {
+    const params: any[] = [];
+    const cases = buckets.map(([label, min, max]) => {
+      if (!Number.isFinite(max)) {
+        params.push(min, label);
+        return `WHEN ${column} >= ? THEN ?`;
+      }
+      params.push(min, max, label);
+      return `WHEN ${column} >= ? AND ${column} < ? THEN ?`;
+    });
+
+    return { sql: `CASE ${cases.join(' ')} END`, params };
+  }
+
+  private deserializeEdition(row: any): Edition {
+    return {
+      ...row,
+      description: row.description || undefined,
+      cover_url: row.cover_url || undefined,
+      metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
+      vibe_tags: row.vibe_tags || undefined,
+      ai_enrichment: row.ai_enrichment ? JSON.parse(row.ai_enrichment) : undefined,
+      review_summary: row.review_summary || undefined,
+      vector_id: row.vector_id || undefined
+    };
+  }
+
+  private deserializeMetadataRefresh(row: any): MetadataRefresh {
+    return {
+      ...row,
+      metadata: Boolean(row.metadata),
+      enrichment: Boolean(row.enrichment),
+      changes: JSON.parse(row.changes),
+      errors: row.errors ? JSON.parse(row.errors) : undefined,
+      accepted: row.accepted ? JSON.parse(row.accepted) : undefined,
+      created_by: row.created_by || undefined,
+      applied_by: row.applied_by || undefined,
+      applied_at: row.applied_at || undefined
+    };
+  }
+
+  /**
+   * Job is processing while any row is outstanding, completed once none are
+   */
+  private ingestJobStatusStatement(jobId: string, now: string): D1PreparedStatement {
+    return this.env.DB.prepare(`
+      UPDATE ingest_jobs
+      SET status = CASE
+            WHEN EXISTS (
+              SELECT 1 FROM ingest_job_rows
+              WHERE job_id = ? AND status IN ('pending', 'processing')
+            ) THEN 'processing'
+            ELSE 'completed'
+          END,
+          completed_at = CASE
+            WHEN EXISTS (
+              SELECT 1 FROM ingest_job_rows
+              WHERE job_id = ? AND status IN ('pending', 'processing')
+            ) THEN NULL
+            ELSE ?
+          END,
+          updated_at = ?
+      WHERE id = ?
+    `).bind(jobId, jobId, now, now, jobId);
+  }
+
+  private deserializeIngestJobRow(row: any): IngestJobRow {
+    return {
+      ...row,
+      condition: row.condition || undefined,
+      cost_price: row.cost_price ?? undefined,
+      book_id: row.book_id || undefined,
+      error: row.error || undefined,
+      warnings: row.warnings ? JSON.parse(row.warnings) : undefined
+    };
+  }
+
+  /**
+   * INSERT for one price_history row
+   */
+  private priceHistoryStatement(
+    bookId: string,
+    oldPrice: number | null,
+    newPrice: number,
+    change: PriceChangeContext,
+    now: string
+  ): D1PreparedStatement {
+    return this.env.DB.prepare(`
+      INSERT INTO price_history (id, book_id, old_price, new_price, source, admin_id, details, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      generateUUID(),
+      bookId,
+      oldPrice,
+      newPrice,
+      change.source,
+      change.admin_id || null,
+      change.details ? JSON.stringify(change.details) : null,
+      now
+    );
+  }
+
+  private deserializePriceHistoryEntry(row: any): PriceHistoryEntry {
+    return {
+      ...row,
+      old_price: row.old_price ?? undefined,
+      admin_id: row.admin_id || undefined,
+      details: row.details ? JSON.parse(row.details) : undefined
+    };
+  }
+
+  private deserializeBookMargin(row: any): BookMargin {
+    const margin = row.sold_price - row.cost_price;
+    const daysToSell = row.live_at
+      ? Math.floor((Date.parse(row.sold_at) - Date.parse(row.live_at)) / (24 * 60 * 60 * 1000))
+      : undefined;
+
+    return {
+      book_id: row.book_id,
+      isbn: row.isbn,
+      title: row.title,
+      condition: row.condition,
+      cost_price: row.cost_price,
+      initial_price: row.initial_price ?? undefined,
+      sold_price: row.sold_price,
+      margin,
+      margin_rate: row.sold_price > 0 ? Math.round((margin / row.sold_price) * 1000) / 1000 : 0,
+      price_changes: row.price_changes,
+      final_price_source: row.final_price_source || undefined,
+      days_to_sell: daysToSell,
+      sold_at: row.sold_at
+    };
+  }
+
+  private toMarginTotals(row: { count: number; revenue: number; cost: number }): MarginTotals {
+    const margin = row.revenue - row.cost;
+
+    return {
+      count: row.count,
+      revenue: row.revenue,
+      cost: row.cost,
+      margin,
+      margin_rate: row.revenue > 0 ? Math.round((margin / row.revenue) * 1000) / 1000 : 0
+    };
+  }
+
+  private deserializeBook(row: any): Book {
+    return {
+      ...row,
+      in_stock: Boolean(row.in_stock),
+      reprice_exempt: Boolean(row.reprice_exempt),
+      base_price: row.base_price ?? undefined,
+      live_at: row.live_at || undefined,
+      metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
+      ai_enrichment: row.ai_enrichment ? JSON.parse(row.ai_enrichment) : undefined
+    };
+  }
+
+  // ========== SEARCH ==========
+
+  /**
+   * Run a parsed FTS5 expression (see utils/search-query) over editions
+   * Returns their available copies in BM25 order, each with a highlighted snippet
+   */
+  async searchBooksByKeyword(
+    match: string,
+    limit: number = 20
+  ): Promise<Array<{ book: Book; snippet?: string }>> {
+    // Standalone FTS table keyed by editions.rowid - join back to editions, then copies
+    const results = await this.env.DB.prepare(`
+      SELECT b.*, e.isbn, e.title, e.author, e.description, e.cover_url,
+        e.metadata, e.vibe_tags, e.ai_enrichment, e.review_summary, e.vector_id,
+        snippet(books_fts, -1, ?, ?, '…', 16) AS fts_snippet
+      FROM books_fts fts
+      JOIN editions e ON e.rowid = fts.rowid
+      JOIN books b ON b.edition_id = e.id
+      WHERE fts.books_fts MATCH ?
+      AND b.status = 'live' AND b.in_stock = 1
+      AND ${this.notReservedCondition('b')}
+      ORDER BY bm25(books_fts)
+      LIMIT ?
+    `).bind(SNIPPET_OPEN, SNIPPET_CLOSE, match, getCurrentTimestamp(), limit).all<any>();
+
+    return results.results.map(({ fts_snippet, ...row }) => ({
+      book: this.deserializeBook(row),
+      snippet: formatSnippet(fts_snippet)
+    }));
+  }
+
+  /**
+   * Copies of the given editions that are live, in stock and not reserved
+   * Order of the result is not guaranteed
+   */
+  async getAvailableBooksByEditionIds(editionIds: string[]): Promise<Book[]> {
+    if (editionIds.length === 0) return [];
+
+    const placeholders = editionIds.map(() => '?').join(', ');
+    const results = await this.env.DB.prepare(`
+      ${BOOK_SELECT}
+      WHERE b.edition_id IN (${placeholders})
+      AND b.status = 'live' AND b.in_stock = 1
+      AND ${this.notReservedCondition('b')}
+    `).bind(...editionIds, getCurrentTimestamp()).all<any>();
+
+    return results.results.map(row => this.deserializeBook(row));
+  }
+
+  /**
+   * Editions with an available copy passing the filters, newest copy first,
+   * each with its passing copies
+   */
+  async browseSearchEditions(
+    filters: SearchFilters,
+    limit: number,
+    offset: number
+  ): Promise<{ editions: Book[][]; total: number }> {
+    const { whereClause, params } = this.buildSearchFilters(filters);
+
+    const countResult = await this.env.DB.prepare(`
+      SELECT COUNT(DISTINCT b.edition_id) as count
+      FROM books b JOIN editions e ON e.id = b.edition_id
+      ${whereClause}
+    `).bind(...params).first<{ count: number }>();
+
+    const results = await this.env.DB.prepare(`
+      ${BOOK_SELECT} ${whereClause}
+      AND b.edition_id IN (
+        SELECT b.edition_id FROM books b JOIN editions e ON e.id = b.edition_id
+        ${whereClause}
+        GROUP BY b.edition_id
+        ORDER BY MAX(b.created_at) DESC
+        LIMIT ? OFFSET ?
+      )
+      ORDER BY b.created_at DESC
+    `).bind(...params, ...params, limit, offset).all<any>();
+
+    const editions = new Map<string, Book[]>();
+    for (const book of results.results.map(row => this.deserializeBook(row))) {
+      editions.set(book.edition_id, [...(editions.get(book.edition_id) || []), book]);
+    }
+
+    return { editions: [...editions.values()], total: countResult?.count || 0 };
+  }
+
+  /**
+   * Editions per facet value over every available copy
+   * Each facet is counted with every filter but its own (disjunctive facets)
+   */
+  async countSearchFacets(
+    filters: SearchFilters,
+    buckets: { price_range: FacetBucket[]; shock_factor: FacetBucket[] }
+  ): Promise<Record<SearchFilterGroup, FacetCount[]>> {
+    const shockFactor = "json_extract(e.ai_enrichment, '$.shock_factor')";
+
+    // [group, value expression and its params, extra join]
+    const facets: Array<[SearchFilterGroup, { sql: string; params: any[] }, string]> = [
+      ['condition', { sql: 'b.condition', params: [] }, ''],
+      ['price_range', this.bucketExpression('b.sell_price', buckets.price_range), ''],
+      ['categories', { sql: 'lower(trim(j.value))', params: [] }, ", json_each(e.metadata, '$.categories') j"],
+      ['pace', { sql: "json_extract(e.ai_enrichment, '$.pace')", params: [] }, ''],
+      ['emotional_tone', { sql: 'lower(trim(j.value))', params: [] }, ", json_each(e.ai_enrichment, '$.emotional_tone') j"],
+      ['shock_factor', this.bucketExpression(shockFactor, buckets.shock_factor), '']
+    ];
+
+    const results = await this.env.DB.batch<FacetCount>(facets.map(([group, value, join]) => {
+      const { whereClause, params } = this.buildSearchFilters(filters, group);
+
+      return this.env.DB.prepare(`
+        SELECT value, COUNT(DISTINCT edition_id) as count FROM (
+          SELECT ${value.sql} as value, b.edition_id
+          FROM books b JOIN editions e ON e.id = b.edition_id${join}
+          ${whereClause}
+        )
+        WHERE value IS NOT NULL AND value != ''
+        GROUP BY value
+      `).bind(...value.params, ...params);
+    }));
+
+    return Object.fromEntries(
+      facets.map(([group], index) => [group, results[index].results])
+    ) as Record<SearchFilterGroup, FacetCount[]>;
+  }
+
+  /**
+   * Available copies of other editions sharing an author, category, theme
+   * or atmosphere with the given book (candidates for "more like this")
+   */
+  async findRelatedBooks(book: Book, limit: number = 100): Promise<Book[]> {
+    const conditions: string[] = ['lower(e.author) = lower(?)'];
+    const params: any[] = [book.author];
+
+    // [JSON column, path, values to overlap with]
+    const overlaps: Array<[string, string, string[] | undefined]> = [
+      ['metadata', '$.categories', book.metadata?.categories],
+      ['ai_enrichment', '$.themes', book.ai_enrichment?.themes],
+      ['ai_enrichment', '$.atmosphere', book.ai_enrichment?.atmosphere]
+    ];
+
+    for (const [column, path, values] of overlaps) {
+      if (!values?.length) continue;
+
+      conditions.push(`EXISTS (
+        SELECT 1 FROM json_each(e.${column}, '${path}')
+        WHERE lower(json_each.value) IN (${values.map(() => '?').join(', ')})
+      )`);
+      params.push(...values.map(value => value.toLowerCase()));
+    }
+
+    const results = await this.env.DB.prepare(`
+      ${BOOK_SELECT}
+      WHERE b.edition_id != ?
+      AND b.status = 'live' AND b.in_stock = 1
+      AND ${this.notReservedCondition('b')}
+      AND (${conditions.join(' OR ')})
+      ORDER BY b.created_at DESC
       LIMIT ?
-    `).bind(query, limit).all<any>();
+    `).bind(book.edition_id, getCurrentTimestamp(), ...params, limit).all<any>();
 
     return results.results.map(row => this.deserializeBook(row));
   }
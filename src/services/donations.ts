@@ -0,0 +1,168 @@
+import {
+  Env,
+  MonthlyDonation,
+  DonationBatchResult,
+  DonationDocumentType,
+  Order
+} from '../types';
+import { DatabaseService } from './database';
+import { StorageService } from './storage';
+import { BlockchainService } from './blockchain';
+import { BookstoreError, isValidMonthBatch } from '../utils/helpers';
+
+/**
+ * Donation Service
+ * Batches each month's profit per charity into monthly_donations and
+ * tracks batches through pending → sent → confirmed
+ */
+export class DonationService {
+  private readonly MAX_DOCUMENT_BYTES = 10 * 1024 * 1024; // 10MB
+  private readonly DOCUMENT_TYPES = ['application/pdf', 'image/jpeg', 'image/png'];
+
+  private db: DatabaseService;
+  private storage: StorageService;
+  private blockchain: BlockchainService;
+
+  constructor(env: Env) {
+    this.db = new DatabaseService(env);
+    this.storage = new StorageService(env);
+    this.blockchain = new BlockchainService(env);
+  }
+
+  /**
+   * Aggregate paid orders for a month into one batch per charity
+   * Re-runnable: orders already in a batch are never counted again, and
+   * late orders are added to the month's batch while it is still pending
+   */
+  async createMonthlyBatches(month: string): Promise<DonationBatchResult> {
+    if (!isValidMonthBatch(month)) {
+      throw new BookstoreError('Month must be in YYYY-MM format', 400);
+    }
+
+    const totals = await this.db.getUnbatchedDonationTotals(month);
+    const batches: MonthlyDonation[] = [];
+    const skipped_charities: string[] = [];
+    let orders_batched = 0;
+
+    for (const { charity_name } of totals) {
+      let donation = await this.db.getDonationByMonthAndCharity(month, charity_name);
+
+      if (donation && donation.status !== 'pending') {
+        // Money has already left for this batch - needs manual handling
+        console.warn(
+          `Donation batch ${donation.id} (${month}, ${charity_name}) already ${donation.status}; ` +
+          'late orders left unbatched'
+        );
+        skipped_charities.push(charity_name);
+        continue;
+      }
+
+      if (!donation) {
+        donation = await this.db.createDonation(month, charity_name);
+      }
+
+      orders_batched += await this.db.addOrdersToDonation(donation);
+
+      const updated = await this.db.getDonation(donation.id);
+      if (updated) batches.push(updated);
+    }
+
+    console.log(
+      `Donation batching for ${month}: ${orders_batched} order(s) across ${batches.length} batch(es)`
+    );
+
+    return { month, batches, orders_batched, skipped_charities };
+  }
+
+  /**
+   * Mark a batch as sent to the charity; its orders follow
+   */
+  async markSent(donationId: string): Promise<MonthlyDonation> {
+    const donation = await this.getDonationOrThrow(donationId);
+
+    if (donation.status !== 'pending') {
+      throw new BookstoreError(`Donation is already ${donation.status}`, 400);
+    }
+
+    await this.db.updateDonationStatus(donationId, 'sent');
+    return this.getDonationOrThrow(donationId);
+  }
+
+  /**
+   * Mark a sent batch as confirmed by the charity; its orders follow
+   * Requires a receipt so every confirmed donation has proof attached
+   */
+  async markConfirmed(donationId: string): Promise<MonthlyDonation> {
+    const donation = await this.getDonationOrThrow(donationId);
+
+    if (donation.status !== 'sent') {
+      throw new BookstoreError(
+        `Only sent donations can be confirmed (current status: ${donation.status})`,
+        400
+      );
+    }
+
+    if (!donation.receipt_url) {
+      throw new BookstoreError('Upload a receipt before confirming the donation', 400);
+    }
+
+    await this.db.updateDonationStatus(donationId, 'confirmed');
+
+    // Publish the confirmed donation (with proof links) on-chain
+    await this.blockchain.recordDonation(donationId);
+
+    return this.getDonationOrThrow(donationId);
+  }
+
+  /**
+   * Store a proof document in R2 under donations/ and link it to the batch
+   */
+  async attachDocument(
+    donationId: string,
+    type: DonationDocumentType,
+    file: File
+  ): Promise<MonthlyDonation> {
+    const donation = await this.getDonationOrThrow(donationId);
+
+    if (!this.DOCUMENT_TYPES.includes(file.type)) {
+      throw new BookstoreError(
+        `Unsupported file type ${file.type || 'unknown'} (allowed: PDF, JPEG, PNG)`,
+        400
+      );
+    }
+
+    if (file.size > this.MAX_DOCUMENT_BYTES) {
+      throw new BookstoreError('File too large (max 10MB)', 400);
+    }
+
+    // Keep keys predictable and free of path separators
+    const safeName = file.name.replace(/[^a-zA-Z0-9._-]/g, '_') || 'document';
+    const fileName = `${donation.month}-${donation.id}-${type}-${safeName}`;
+    const url = await this.storage.uploadFile(file, fileName, 'donations');
+
+    await this.db.updateDonationDocuments(
+      donationId,
+      type === 'receipt' ? { receipt_url: url } : { bank_statement_url: url }
+    );
+
+    return this.getDonationOrThrow(donationId);
+  }
+
+  async getDonationWithOrders(
+    donationId: string
+  ): Promise<{ donation: MonthlyDonation; orders: Order[] }> {
+    const donation = await this.getDonationOrThrow(donationId);
+    const orders = await this.db.getDonationOrders(donationId);
+    return { donation, orders };
+  }
+
+  private async getDonationOrThrow(donationId: string): Promise<MonthlyDonation> {
+    const donation = await this.db.getDonation(donationId);
+
+    if (!donation) {
+      throw new BookstoreError('Donation not found', 404);
+    }
+
+    return donation;
+  }
+}
@@ -0,0 +1,212 @@
+import { Env, Book } from '../types';
+import { BookstoreError } from '../utils/helpers';
+
+/**
+ * Embedding Service
+ * Turns books and "vibe" queries into 768-dim embeddings and stores them in
+ * Vectorize (book-embeddings, cosine). Outside production, missing AI/Vectorize
+ * bindings are replaced by a hashing embedder and an in-memory index so search
+ * can be exercised locally; in production every call fails instead.
+ */
+
+export const EMBEDDING_DIMENSIONS = 768;
+
+export interface VectorMatch {
+  id: string;
+  score: number; // cosine similarity, higher is closer
+}
+
+export interface Embedder {
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface VectorStore {
+  upsert(vectors: Array<{ id: string; values: number[] }>): Promise<void>;
+  query(vector: number[], topK: number): Promise<VectorMatch[]>;
+  deleteByIds(ids: string[]): Promise<void>;
+}
+
+// ========== EMBEDDERS ==========
+
+/**
+ * Workers AI embeddings (bge-base-en-v1.5, 768 dims)
+ */
+export class WorkersAIEmbedder implements Embedder {
+  constructor(private env: Env, private model: string = '@cf/baai/bge-base-en-v1.5') {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const result = await this.env.AI.run(this.model, { text: texts });
+
+    if (!result?.data || result.data.length !== texts.length) {
+      throw new Error('Workers AI returned no embeddings');
+    }
+
+    return result.data;
+  }
+}
+
+/**
+ * Local stand-in: feature-hashes word unigrams into a normalised vector.
+ * Only shares vocabulary, not meaning, but is deterministic and offline.
+ */
+export class HashingEmbedder implements Embedder {
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => {
+      const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+
+      for (const token of text.toLowerCase().match(/[a-z0-9]+/g) || []) {
+        let hash = 2166136261;
+        for (let i = 0; i < token.length; i++) {
+          hash = Math.imul(hash ^ token.charCodeAt(i), 16777619);
+        }
+        vector[(hash >>> 0) % EMBEDDING_DIMENSIONS] += 1;
+      }
+
+      return normalize(vector);
+    });
+  }
+}
+
+// ========== VECTOR STORES ==========
+
+/**
+ * Adapter over the Vectorize binding
+ */
+export class VectorizeStore implements VectorStore {
+  constructor(private index: VectorizeIndex) {}
+
+  async upsert(vectors: Array<{ id: string; values: number[] }>): Promise<void> {
+    await this.index.upsert(vectors);
+  }
+
+  async query(vector: number[], topK: number): Promise<VectorMatch[]> {
+    const result = await this.index.query(vector, { topK });
+    return result.matches.map(match => ({ id: match.id, score: match.score }));
+  }
+
+  async deleteByIds(ids: string[]): Promise<void> {
+    await this.index.deleteByIds(ids);
+  }
+}
+
+/**
+ * Local stand-in for Vectorize: brute-force cosine similarity in memory
+ * (lives as long as the isolate)
+ */
+export class InMemoryVectorStore implements VectorStore {
+  private vectors = new Map<string, number[]>();
+
+  async upsert(vectors: Array<{ id: string; values: number[] }>): Promise<void> {
+    for (const vector of vectors) {
+      this.vectors.set(vector.id, normalize(vector.values));
+    }
+  }
+
+  async query(vector: number[], topK: number): Promise<VectorMatch[]> {
+    const query = normalize(vector);
+    const matches: VectorMatch[] = [];
+
+    for (const [id, values] of this.vectors) {
+      let score = 0;
+      for (let i = 0; i < values.length; i++) {
+        score += values[i] * query[i];
+      }
+      matches.push({ id, score });
+    }
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, topK);
+  }
+
+  async deleteByIds(ids: string[]): Promise<void> {
+    for (const id of ids) {
+      this.vectors.delete(id);
+    }
+  }
+}
+
+// Shared so the stand-in index survives across requests in one isolate
+const localVectorStore = new InMemoryVectorStore();
+
+// ========== SERVICE ==========
+
+export class EmbeddingService {
+  private embedder: Embedder | null;
+  private store: VectorStore | null;
+
+  constructor(env: Env, embedder?: Embedder, store?: VectorStore) {
+    // The stand-ins never reach production: a per-isolate index starts empty on every cold start
+    const local = env.ENVIRONMENT !== 'production';
+
+    this.embedder = embedder ||
+      (env.AI ? new WorkersAIEmbedder(env) : local ? new HashingEmbedder() : null);
+    this.store = store ||
+      (env.VECTORIZE_INDEX ? new VectorizeStore(env.VECTORIZE_INDEX) : local ? localVectorStore : null);
+  }
+
+  /**
+   * Embed a book's edition and upsert it into the index
+   * Vector IDs are edition IDs, shared by every copy
+   */
+  async indexBook(book: Book): Promise<string> {
+    const { embedder, store } = this.backend();
+    const [values] = await embedder.embed([this.buildBookText(book)]);
+    await store.upsert([{ id: book.edition_id, values }]);
+    return book.edition_id;
+  }
+
+  async removeBook(vectorId: string): Promise<void> {
+    await this.backend().store.deleteByIds([vectorId]);
+  }
+
+  /**
+   * Find the nearest editions to a free-text vibe query
+   */
+  async searchByText(query: string, topK: number): Promise<VectorMatch[]> {
+    const { embedder, store } = this.backend();
+    const [values] = await embedder.embed([query]);
+    return store.query(values, topK);
+  }
+
+  /**
+   * Find the nearest editions to a given book (excluding its own edition)
+   */
+  async searchByBook(book: Book, topK: number): Promise<VectorMatch[]> {
+    const { embedder, store } = this.backend();
+    const [values] = await embedder.embed([this.buildBookText(book)]);
+    const matches = await store.query(values, topK + 1);
+    return matches.filter(match => match.id !== book.edition_id).slice(0, topK);
+  }
+
+  /**
+   * Text that represents a book's "vibe": title, description, tags and enrichment
+   */
+  buildBookText(book: Book): string {
+    const enrichment = book.ai_enrichment;
+    const parts = [
+      book.title,
+      `by ${book.author}`,
+      book.description,
+      book.vibe_tags,
+      enrichment?.vibe_keywords,
+      enrichment?.emotional_tone?.length ? `Tone: ${enrichment.emotional_tone.join(', ')}` : '',
+      enrichment?.atmosphere?.length ? `Atmosphere: ${enrichment.atmosphere.join(', ')}` : '',
+      enrichment?.themes?.length ? `Themes: ${enrichment.themes.join(', ')}` : '',
+      enrichment?.pace ? `Pace: ${enrichment.pace.replace(/_/g, ' ')}` : ''
+    ];
+
+    return parts.filter(Boolean).join('\n');
+  }
+
+  private backend(): { embedder: Embedder; store: VectorStore } {
+    if (!this.embedder || !this.store) {
+      throw new BookstoreError('Vector search is not configured (needs the AI and VECTORIZE_INDEX bindings)', 503);
+    }
+
+    return { embedder: this.embedder, store: this.store };
+  }
+}
+
+function normalize(vector: number[]): number[] {
+  const magnitude = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return magnitude > 0 ? vector.map(value => value / magnitude) : vector;
+}
@@ -0,0 +1,256 @@
+import { Env, AIEnrichment, Review } from '../types';
+
+/**
+ * Enrichment Providers
+ * Each provider turns book details into AIEnrichment. LLM providers return
+ * raw model output which EnrichmentService validates before use; the
+ * heuristic provider is the offline fallback.
+ */
+
+export interface EnrichmentInput {
+  title: string;
+  author: string;
+  description?: string;
+  reviews?: Review[];
+}
+
+export interface EnrichmentProvider {
+  readonly name: string;
+
+  /** Return enrichment, or raw model output (string/object) to be validated */
+  enrich(input: EnrichmentInput): Promise<unknown>;
+}
+
+export type EnrichmentProviderName = 'openai' | 'workers_ai' | 'heuristic';
+
+export interface EnrichmentConfig {
+  provider: EnrichmentProviderName;
+  model?: string;
+}
+
+const SYSTEM_PROMPT = 'You are a literary analyst. Respond only with valid JSON.';
+
+function buildPrompt(input: EnrichmentInput): string {
+  const reviewText = input.reviews
+    ?.slice(0, 5)
+    .map(r => r.text)
+    .join('\n\n') || '';
+
+  return `Analyze this book and provide enrichment data in JSON format:
+
+Title: ${input.title}
+Author: ${input.author}
+Description: ${input.description || 'N/A'}
+
+Sample Reviews:
+${reviewText}
+
+Provide the following in JSON format:
+{
+  "emotional_tone": ["adjective1", "adjective2"],
+  "shock_factor": 1-10,
+  "pace": "slow_burn" | "moderate" | "fast_paced",
+  "atmosphere": ["adjective1", "adjective2"],
+  "vibe_keywords": "short descriptive phrase",
+  "themes": ["theme1", "theme2"],
+  "similar_to": ["author1", "author2"]
+}`;
+}
+
+// ========== OPENAI ==========
+
+/**
+ * OpenAI chat completions (GPT-4o-mini by default)
+ * OPENAI_API_BASE can point at a local mock server
+ */
+export class OpenAIEnrichmentProvider implements EnrichmentProvider {
+  readonly name = 'openai';
+  private readonly DEFAULT_API_BASE = 'https://api.openai.com/v1';
+
+  constructor(private env: Env, private model: string = 'gpt-4o-mini') {}
+
+  async enrich(input: EnrichmentInput): Promise<unknown> {
+    if (!this.env.OPENAI_API_KEY) {
+      throw new Error('OpenAI API key not configured');
+    }
+
+    const base = (this.env.OPENAI_API_BASE || this.DEFAULT_API_BASE).replace(/\/+$/, '');
+    const response = await fetch(`${base}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.env.OPENAI_API_KEY}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: [
+          { role: 'system', content: SYSTEM_PROMPT },
+          { role: 'user', content: buildPrompt(input) }
+        ],
+        response_format: { type: 'json_object' },
+        temperature: 0.7,
+        max_tokens: 500
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`OpenAI API error: ${response.status}`);
+    }
+
+    const data = await response.json<any>();
+    return data.choices?.[0]?.message?.content;
+  }
+}
+
+// ========== WORKERS AI ==========
+
+/**
+ * Cloudflare Workers AI via the AI binding
+ */
+export class WorkersAIEnrichmentProvider implements EnrichmentProvider {
+  readonly name = 'workers_ai';
+
+  constructor(
+    private env: Env,
+    private model: string = '@cf/meta/llama-3.1-8b-instruct'
+  ) {}
+
+  async enrich(input: EnrichmentInput): Promise<unknown> {
+    if (!this.env.AI) {
+      throw new Error('Workers AI binding not configured');
+    }
+
+    const result = await this.env.AI.run(this.model, {
+      messages: [
+        { role: 'system', content: SYSTEM_PROMPT },
+        { role: 'user', content: buildPrompt(input) }
+      ],
+      max_tokens: 500
+    });
+
+    return result?.response;
+  }
+}
+
+// ========== HEURISTICS (Fallback) ==========
+
+/**
+ * Keyword heuristics over the description - no network, never fails
+ */
+export class HeuristicEnrichmentProvider implements EnrichmentProvider {
+  readonly name = 'heuristic';
+
+  async enrich(input: EnrichmentInput): Promise<AIEnrichment> {
+    const { description, reviews } = input;
+
+    return {
+      emotional_tone: this.inferEmotionalTone(description),
+      shock_factor: this.calculateShockFactor(description, reviews),
+      pace: this.inferPace(description),
+      atmosphere: this.inferAtmosphere(description),
+      vibe_keywords: this.extractVibeKeywords(description),
+      themes: this.extractThemes(description),
+      similar_to: []
+    };
+  }
+
+  private extractVibeKeywords(description?: string): string {
+    if (!description) return '';
+
+    // Simple keyword extraction - take first 100 chars
+    return description.substring(0, 100).trim();
+  }
+
+  private extractThemes(description?: string): string[] {
+    if (!description) return [];
+
+    const commonThemes = [
+      'love', 'death', 'war', 'family', 'identity', 'power',
+      'betrayal', 'revenge', 'redemption', 'coming-of-age',
+      'mystery', 'adventure', 'romance', 'tragedy'
+    ];
+
+    const lowerDesc = description.toLowerCase();
+    return commonThemes.filter(theme => lowerDesc.includes(theme));
+  }
+
+  private inferEmotionalTone(description?: string): string[] {
+    if (!description) return ['neutral'];
+
+    const lowerDesc = description.toLowerCase();
+    const tones: string[] = [];
+
+    const toneKeywords = {
+      dark: ['dark', 'grim', 'bleak', 'sinister', 'ominous'],
+      uplifting: ['hope', 'joy', 'triumph', 'inspiring', 'uplifting'],
+      melancholic: ['sad', 'melancholic', 'sorrowful', 'tragic', 'loss'],
+      humorous: ['funny', 'witty', 'comedy', 'humorous', 'satire'],
+      intense: ['intense', 'gripping', 'powerful', 'visceral', 'raw']
+    };
+
+    for (const [tone, keywords] of Object.entries(toneKeywords)) {
+      if (keywords.some(kw => lowerDesc.includes(kw))) {
+        tones.push(tone);
+      }
+    }
+
+    return tones.length > 0 ? tones : ['neutral'];
+  }
+
+  private calculateShockFactor(description?: string, _reviews?: Review[]): number {
+    // Simple heuristic - check for shock-related keywords
+    const shockKeywords = [
+      'shocking', 'disturbing', 'graphic', 'controversial',
+      'provocative', 'unsettling', 'dark', 'twisted'
+    ];
+
+    let score = 5; // Base score
+
+    if (description) {
+      const lowerDesc = description.toLowerCase();
+      const matches = shockKeywords.filter(kw => lowerDesc.includes(kw));
+      score += matches.length;
+    }
+
+    return Math.min(Math.max(score, 1), 10);
+  }
+
+  private inferPace(description?: string): string {
+    if (!description) return 'moderate';
+
+    const lowerDesc = description.toLowerCase();
+
+    if (lowerDesc.includes('slow') || lowerDesc.includes('meditative')) {
+      return 'slow_burn';
+    }
+
+    if (lowerDesc.includes('fast') || lowerDesc.includes('thriller') || lowerDesc.includes('action')) {
+      return 'fast_paced';
+    }
+
+    return 'moderate';
+  }
+
+  private inferAtmosphere(description?: string): string[] {
+    if (!description) return [];
+
+    const lowerDesc = description.toLowerCase();
+    const atmospheres: string[] = [];
+
+    const atmosphereKeywords = {
+      atmospheric: ['atmospheric', 'immersive', 'vivid'],
+      dark: ['dark', 'gothic', 'noir'],
+      light: ['light', 'cheerful', 'bright'],
+      mysterious: ['mystery', 'mysterious', 'enigmatic'],
+      romantic: ['romantic', 'love', 'passion']
+    };
+
+    for (const [atmosphere, keywords] of Object.entries(atmosphereKeywords)) {
+      if (keywords.some(kw => lowerDesc.includes(kw))) {
+        atmospheres.push(atmosphere);
+      }
+    }
+
+    return atmospheres;
+  }
+}
@@ -1,15 +1,34 @@
 import { Env, AIEnrichment, Review } from '../types';
+import {
+  EnrichmentProvider,
+  EnrichmentConfig,
+  EnrichmentProviderName,
+  OpenAIEnrichmentProvider,
+  WorkersAIEnrichmentProvider,
+  HeuristicEnrichmentProvider
+} from './enrichment-providers';
 
 /**
  * AI Enrichment Service
- * Uses AI to generate vibe tags, emotional tone, and other enrichment data
+ * Uses AI to generate vibe tags, emotional tone, and other enrichment data.
+ * The provider (OpenAI, Workers AI or heuristics) is chosen by the
+ * 'enrichment_config' key in CONFIG KV; LLM output is validated and any
+ * error or malformed response falls back to the heuristics.
  */
 export class EnrichmentService {
-  constructor(private env: Env) {}
+  private readonly CONFIG_KEY = 'enrichment_config';
+  private readonly PACES = ['slow_burn', 'moderate', 'fast_paced'];
+  private readonly MAX_LIST_ITEMS = 10;
+
+  private heuristics = new HeuristicEnrichmentProvider();
+
+  /**
+   * @param provider Optional provider override (e.g. a local mock in tests)
+   */
+  constructor(private env: Env, private provider?: EnrichmentProvider) {}
 
   /**
    * Generate AI enrichment data for a book
-   * Uses OpenAI GPT-4o-mini for now (can be replaced with Cloudflare Workers AI)
    */
   async enrichBook(
     title: string,
@@ -17,23 +36,22 @@ export class EnrichmentService {
     description?: string,
     reviews?: Review[]
   ): Promise<AIEnrichment> {
-    try {
-      // For MVP, we'll create a simple enrichment
-      // In production, this would call GPT-4o-mini or similar
-
-      // Simple keyword extraction from description
-      const vibe_keywords = this.extractVibeKeywords(description);
-      const themes = this.extractThemes(description);
+    const input = { title, author, description, reviews };
+    const provider = this.provider || await this.getConfiguredProvider();
+
+    if (provider.name !== this.heuristics.name) {
+      try {
+        const raw = await provider.enrich(input);
+        const enrichment = this.validateEnrichment(raw);
+        return { ...enrichment, provider: provider.name };
+      } catch (error) {
+        console.warn(`Enrichment provider '${provider.name}' failed, using heuristics:`, error);
+      }
+    }
 
-      return {
-        emotional_tone: this.inferEmotionalTone(description),
-        shock_factor: this.calculateShockFactor(description, reviews),
-        pace: this.inferPace(description),
-        atmosphere: this.inferAtmosphere(description),
-        vibe_keywords,
-        themes,
-        similar_to: []
-      };
+    try {
+      const enrichment = await this.heuristics.enrich(input);
+      return { ...enrichment, provider: this.heuristics.name };
     } catch (error) {
       console.error('Enrichment error:', error);
       // Return minimal enrichment on failure
@@ -45,175 +63,108 @@ export class EnrichmentService {
   }
 
   /**
-   * Generate enrichment using OpenAI (if API key is available)
+   * Check raw provider output against AIEnrichment and normalise it
+   * Throws if the output isn't usable
    */
-  private async enrichWithOpenAI(
-    title: string,
-    author: string,
-    description?: string,
-    reviews?: Review[]
-  ): Promise<AIEnrichment> {
-    if (!this.env.OPENAI_API_KEY) {
-      throw new Error('OpenAI API key not configured');
-    }
+  validateEnrichment(raw: unknown): AIEnrichment {
+    const data = typeof raw === 'string' ? this.parseJSONContent(raw) : raw;
 
-    const reviewText = reviews
-      ?.slice(0, 5)
-      .map(r => r.text)
-      .join('\n\n') || '';
-
-    const prompt = `Analyze this book and provide enrichment data in JSON format:
-
-Title: ${title}
-Author: ${author}
-Description: ${description || 'N/A'}
-
-Sample Reviews:
-${reviewText}
-
-Provide the following in JSON format:
-{
-  "emotional_tone": ["adjective1", "adjective2"],
-  "shock_factor": 1-10,
-  "pace": "slow_burn" | "moderate" | "fast_paced",
-  "atmosphere": ["adjective1", "adjective2"],
-  "vibe_keywords": "short descriptive phrase",
-  "themes": ["theme1", "theme2"],
-  "similar_to": ["author1", "author2"]
-}`;
-
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${this.env.OPENAI_API_KEY}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a literary analyst. Respond only with valid JSON.'
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        temperature: 0.7,
-        max_tokens: 500
-      })
-    });
-
-    if (!response.ok) {
-      throw new Error(`OpenAI API error: ${response.status}`);
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      throw new Error('Enrichment output is not a JSON object');
     }
 
-    const data = await response.json();
-    const content = data.choices[0].message.content;
-
-    return JSON.parse(content);
-  }
-
-  // ========== SIMPLE HEURISTIC METHODS (Fallback) ==========
+    const value = data as Record<string, unknown>;
+    const enrichment: AIEnrichment = {
+      emotional_tone: this.toStringList(value.emotional_tone, 'emotional_tone'),
+      atmosphere: this.toStringList(value.atmosphere, 'atmosphere'),
+      themes: this.toStringList(value.themes, 'themes'),
+      similar_to: this.toStringList(value.similar_to, 'similar_to', false)
+    };
 
-  private extractVibeKeywords(description?: string): string {
-    if (!description) return '';
+    if (value.shock_factor !== undefined) {
+      const shock = Number(value.shock_factor);
+      if (!Number.isFinite(shock)) {
+        throw new Error('shock_factor must be a number');
+      }
+      enrichment.shock_factor = Math.min(Math.max(Math.round(shock), 1), 10);
+    }
 
-    // Simple keyword extraction - take first 100 chars
-    return description.substring(0, 100).trim();
-  }
+    if (value.pace !== undefined) {
+      const pace = String(value.pace).toLowerCase().trim().replace(/[\s-]+/g, '_');
+      if (!this.PACES.includes(pace)) {
+        throw new Error(`Invalid pace: ${value.pace}`);
+      }
+      enrichment.pace = pace;
+    }
 
-  private extractThemes(description?: string): string[] {
-    if (!description) return [];
+    if (value.vibe_keywords !== undefined) {
+      if (typeof value.vibe_keywords !== 'string') {
+        throw new Error('vibe_keywords must be a string');
+      }
+      enrichment.vibe_keywords = value.vibe_keywords.trim().substring(0, 200);
+    }
 
-    const commonThemes = [
-      'love', 'death', 'war', 'family', 'identity', 'power',
-      'betrayal', 'revenge', 'redemption', 'coming-of-age',
-      'mystery', 'adventure', 'romance', 'tragedy'
-    ];
+    // Must carry at least the core signals to be worth keeping
+    if (!enrichment.emotional_tone?.length || enrichment.shock_factor === undefined || !enrichment.pace) {
+      throw new Error('Enrichment output missing emotional_tone, shock_factor or pace');
+    }
 
-    const lowerDesc = description.toLowerCase();
-    return commonThemes.filter(theme => lowerDesc.includes(theme));
+    return enrichment;
   }
 
-  private inferEmotionalTone(description?: string): string[] {
-    if (!description) return ['neutral'];
+  // ========== HELPER METHODS ==========
 
-    const lowerDesc = description.toLowerCase();
-    const tones: string[] = [];
+  private async getConfiguredProvider(): Promise<EnrichmentProvider> {
+    let config: EnrichmentConfig | null = null;
 
-    const toneKeywords = {
-      dark: ['dark', 'grim', 'bleak', 'sinister', 'ominous'],
-      uplifting: ['hope', 'joy', 'triumph', 'inspiring', 'uplifting'],
-      melancholic: ['sad', 'melancholic', 'sorrowful', 'tragic', 'loss'],
-      humorous: ['funny', 'witty', 'comedy', 'humorous', 'satire'],
-      intense: ['intense', 'gripping', 'powerful', 'visceral', 'raw']
-    };
-
-    for (const [tone, keywords] of Object.entries(toneKeywords)) {
-      if (keywords.some(kw => lowerDesc.includes(kw))) {
-        tones.push(tone);
-      }
+    try {
+      config = await this.env.CONFIG.get<EnrichmentConfig>(this.CONFIG_KEY, 'json');
+    } catch (error) {
+      console.warn('Invalid enrichment config, using heuristics:', error);
     }
 
-    return tones.length > 0 ? tones : ['neutral'];
+    return this.createProvider(config?.provider || 'heuristic', config?.model);
   }
 
-  private calculateShockFactor(description?: string, reviews?: Review[]): number {
-    // Simple heuristic - check for shock-related keywords
-    const shockKeywords = [
-      'shocking', 'disturbing', 'graphic', 'controversial',
-      'provocative', 'unsettling', 'dark', 'twisted'
-    ];
-
-    let score = 5; // Base score
-
-    if (description) {
-      const lowerDesc = description.toLowerCase();
-      const matches = shockKeywords.filter(kw => lowerDesc.includes(kw));
-      score += matches.length;
+  private createProvider(name: EnrichmentProviderName, model?: string): EnrichmentProvider {
+    switch (name) {
+      case 'openai':
+        return new OpenAIEnrichmentProvider(this.env, model);
+      case 'workers_ai':
+        return new WorkersAIEnrichmentProvider(this.env, model);
+      case 'heuristic':
+        return this.heuristics;
+      default:
+        console.warn(`Unknown enrichment provider '${name}', using heuristics`);
+        return this.heuristics;
     }
-
-    return Math.min(Math.max(score, 1), 10);
   }
 
-  private inferPace(description?: string): string {
-    if (!description) return 'moderate';
-
-    const lowerDesc = description.toLowerCase();
-
-    if (lowerDesc.includes('slow') || lowerDesc.includes('meditative')) {
-      return 'slow_burn';
-    }
+  /**
+   * Parse model output, tolerating markdown code fences and surrounding prose
+   */
+  private parseJSONContent(content: string): unknown {
+    const start = content.indexOf('{');
+    const end = content.lastIndexOf('}');
 
-    if (lowerDesc.includes('fast') || lowerDesc.includes('thriller') || lowerDesc.includes('action')) {
-      return 'fast_paced';
+    if (start === -1 || end <= start) {
+      throw new Error('No JSON object in enrichment output');
     }
 
-    return 'moderate';
+    return JSON.parse(content.substring(start, end + 1));
   }
 
-  private inferAtmosphere(description?: string): string[] {
-    if (!description) return [];
-
-    const lowerDesc = description.toLowerCase();
-    const atmospheres: string[] = [];
+  private toStringList(value: unknown, field: string, lowercase: boolean = true): string[] {
+    if (value === undefined || value === null) return [];
 
-    const atmosphereKeywords = {
-      atmospheric: ['atmospheric', 'immersive', 'vivid'],
-      dark: ['dark', 'gothic', 'noir'],
-      light: ['light', 'cheerful', 'bright'],
-      mysterious: ['mystery', 'mysterious', 'enigmatic'],
-      romantic: ['romantic', 'love', 'passion']
-    };
-
-    for (const [atmosphere, keywords] of Object.entries(atmosphereKeywords)) {
-      if (keywords.some(kw => lowerDesc.includes(kw))) {
-        atmospheres.push(atmosphere);
-      }
+    if (!Array.isArray(value)) {
+      throw new Error(`${field} must be an array`);
     }
 
-    return atmospheres;
+    return value
+      .filter((item): item is string => typeof item === 'string')
+      .map(item => (lowercase ? item.trim().toLowerCase() : item.trim()))
+      .filter(item => item.length > 0)
+      .slice(0, this.MAX_LIST_ITEMS);
   }
 }
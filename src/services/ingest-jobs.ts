@@ -0,0 +1,279 @@
+import {
+  Env,
+  BookCondition,
+  IngestJobProgress,
+  IngestJobRow,
+  IngestQueueMessage,
+  IngestRowStatus
+} from '../types';
+import { DatabaseService } from './database';
+import { IngestionService } from './ingestion';
+import { BookstoreError, isValidISBN, isInternalSKU, generateUUID } from '../utils/helpers';
+import { parseCSVRecords } from '../utils/csv';
+
+export type IngestRowResult =
+  | { action: 'ack' }
+  | { action: 'retry'; delaySeconds: number };
+
+const CONDITIONS: BookCondition[] = ['like_new', 'very_good', 'good', 'acceptable'];
+
+/**
+ * Bulk Ingestion Jobs
+ * Accepts many {isbn, condition, cost_price} rows, stores them as a job and
+ * runs IngestionService.ingestBook per row in the background: one
+ * INGEST_QUEUE message per row or, when no queue is bound, a few rows at a
+ * time from waitUntil() and the scheduled sweep.
+ * Bad rows are recorded on their row and never stop the rest of the job;
+ * ISBNs already catalogued just add another copy.
+ */
+export class IngestJobService {
+  private readonly MAX_ROWS = 500;
+  private readonly MAX_ATTEMPTS = 3;
+  private readonly RETRY_DELAY_SECONDS = 60;
+  private readonly QUEUE_SEND_BATCH = 100; // sendBatch limit
+  private readonly STALE_AFTER_MS = 15 * 60 * 1000; // no worker takes this long on a row
+  private readonly INLINE_FIRST_ROWS = 5; // waitUntil() only runs briefly past the response
+  private readonly SWEEP_ROWS = 25; // per scheduled run without a queue
+
+  private db: DatabaseService;
+  private ingestion: IngestionService;
+
+  constructor(private env: Env) {
+    this.db = new DatabaseService(env);
+    this.ingestion = new IngestionService(env);
+  }
+
+  /**
+   * Validate rows, persist the job and start processing it
+   * @param execution Used to process in the background when INGEST_QUEUE isn't bound
+   */
+  async createJob(
+    rows: unknown[],
+    adminId?: string,
+    execution?: ExecutionContext
+  ): Promise<IngestJobProgress> {
+    if (rows.length === 0) {
+      throw new BookstoreError('At least one row is required', 400);
+    }
+
+    if (rows.length > this.MAX_ROWS) {
+      throw new BookstoreError(`A job can have at most ${this.MAX_ROWS} rows`, 400);
+    }
+
+    const job = await this.db.createIngestJob(rows.map(row => this.validateRow(row)), adminId);
+    const pending = (await this.db.getIngestJobRows(job.id)).filter(row => row.status === 'pending');
+
+    if (this.env.INGEST_QUEUE) {
+      await this.enqueue(pending);
+    } else if (execution) {
+      // The scheduled sweep picks up the rest
+      execution.waitUntil(this.processInline(pending.slice(0, this.INLINE_FIRST_ROWS)));
+    } else {
+      console.warn(`INGEST_QUEUE not bound - job ${job.id} left to the scheduled sweep`);
+    }
+
+    return this.getProgress(job.id);
+  }
+
+  /**
+   * Parse an uploaded CSV with an isbn,condition,cost_price header
+   */
+  parseCSV(text: string): Array<Record<string, string>> {
+    let records: Array<Record<string, string>>;
+
+    try {
+      records = parseCSVRecords(text);
+    } catch (error) {
+      throw new BookstoreError(
+        `Invalid CSV: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        400
+      );
+    }
+
+    if (records.length > 0 && !('isbn' in records[0])) {
+      throw new BookstoreError('CSV must have a header row with an isbn column', 400);
+    }
+
+    return records;
+  }
+
+  async getProgress(jobId: string): Promise<IngestJobProgress> {
+    const job = await this.db.getIngestJob(jobId);
+
+    if (!job) {
+      throw new BookstoreError('Ingest job not found', 404);
+    }
+
+    const rows = await this.db.getIngestJobRows(jobId);
+    const counts: Record<IngestRowStatus, number> = {
+      pending: 0,
+      processing: 0,
+      succeeded: 0,
+      failed: 0
+    };
+
+    for (const row of rows) {
+      counts[row.status]++;
+    }
+
+    return {
+      ...job,
+      counts,
+      book_ids: rows
+        .filter(row => row.status === 'succeeded' && row.book_id)
+        .map(row => row.book_id!),
+      rows
+    };
+  }
+
+  /**
+   * Scheduled sweep: resets rows whose worker died and requeues rows whose
+   * message was lost; without a queue, works through the next pending rows
+   */
+  async sweep(): Promise<void> {
+    const before = new Date(Date.now() - this.STALE_AFTER_MS).toISOString();
+    const stale = await this.db.resetStaleIngestRows(before, this.MAX_ATTEMPTS);
+
+    if (stale.length > 0) {
+      console.log(`Reset ${stale.length} stale ingest row(s)`);
+    }
+
+    if (this.env.INGEST_QUEUE) {
+      await this.enqueue(stale);
+    } else {
+      await this.processInline(await this.db.listPendingIngestRows(this.SWEEP_ROWS));
+    }
+  }
+
+  // ========== PROCESSING ==========
+
+  /**
+   * Ingest one row
+   * `attempts` is the delivery count (1 on first delivery)
+   */
+  async processRow(message: IngestQueueMessage, attempts: number): Promise<IngestRowResult> {
+    const row = await this.db.claimIngestJobRow(message.job_id, message.row_number, attempts, generateUUID());
+
+    // Missing, finished or being processed by another worker
+    if (!row) {
+      return { action: 'ack' };
+    }
+
+    // An earlier attempt created the copy but didn't get to record it
+    if (await this.db.getBook(row.book_id!)) {
+      await this.db.updateIngestJobRow(row.job_id, row.row_number, { status: 'succeeded', error: null });
+      return { action: 'ack' };
+    }
+
+    const job = await this.db.getIngestJob(row.job_id);
+
+    try {
+      const result = await this.ingestion.ingestBook(
+        {
+          isbn: row.isbn,
+          condition: row.condition!,
+          cost_price: row.cost_price!
+        },
+        job?.created_by,
+        row.book_id
+      );
+
+      await this.db.updateIngestJobRow(row.job_id, row.row_number, {
+        status: 'succeeded',
+        book_id: result.book_id,
+        warnings: result.errors
+      });
+      return { action: 'ack' };
+    } catch (error) {
+      return this.handleRowError(row, error, attempts);
+    }
+  }
+
+  private async handleRowError(
+    row: IngestJobRow,
+    error: unknown,
+    attempts: number
+  ): Promise<IngestRowResult> {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+
+    // 4xx (bad ISBN, metadata not found...) won't succeed on retry
+    const retryable = !(error instanceof BookstoreError && error.statusCode < 500);
+
+    if (retryable && attempts < this.MAX_ATTEMPTS) {
+      console.warn(`Ingest row ${row.job_id}#${row.row_number} attempt ${attempts} failed:`, message);
+      await this.db.updateIngestJobRow(row.job_id, row.row_number, { status: 'pending', error: message });
+      return { action: 'retry', delaySeconds: this.RETRY_DELAY_SECONDS };
+    }
+
+    await this.db.updateIngestJobRow(row.job_id, row.row_number, {
+      status: 'failed',
+      book_id: null,
+      error: message
+    });
+    return { action: 'ack' };
+  }
+
+  private async enqueue(rows: IngestJobRow[]): Promise<void> {
+    const messages = rows.map(row => ({ body: { job_id: row.job_id, row_number: row.row_number } }));
+
+    for (let i = 0; i < messages.length; i += this.QUEUE_SEND_BATCH) {
+      await this.env.INGEST_QUEUE!.sendBatch(messages.slice(i, i + this.QUEUE_SEND_BATCH));
+    }
+  }
+
+  /**
+   * No-queue fallback: work through rows one at a time, retrying immediately
+   */
+  private async processInline(rows: IngestJobRow[]): Promise<void> {
+    for (const row of rows) {
+      const message = { job_id: row.job_id, row_number: row.row_number };
+
+      for (let attempts = row.attempts + 1; attempts <= this.MAX_ATTEMPTS; attempts++) {
+        try {
+          const result = await this.processRow(message, attempts);
+          if (result.action === 'ack') break;
+        } catch (error) {
+          console.error(`Ingest row ${row.job_id}#${row.row_number} error:`, error);
+        }
+      }
+    }
+  }
+
+  // ========== HELPER METHODS ==========
+
+  /**
+   * Check one uploaded row; invalid rows are stored as already failed
+   */
+  private validateRow(
+    raw: unknown
+  ): Pick<IngestJobRow, 'isbn' | 'condition' | 'cost_price' | 'status' | 'error'> {
+    const value = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+    const isbn = String(value.isbn ?? '').trim();
+    const condition = String(value.condition ?? '').trim().toLowerCase() as BookCondition;
+    const costPrice = Number(value.cost_price);
+
+    const errors: string[] = [];
+
+    if (!isbn) {
+      errors.push('ISBN is required');
+    } else if (!isValidISBN(isbn) && !isInternalSKU(isbn)) {
+      errors.push('Invalid ISBN - check the digits');
+    }
+
+    if (!CONDITIONS.includes(condition)) {
+      errors.push(`Condition must be one of: ${CONDITIONS.join(', ')}`);
+    }
+
+    if (!Number.isFinite(costPrice) || costPrice <= 0) {
+      errors.push('Valid cost_price is required');
+    }
+
+    return {
+      isbn,
+      condition: CONDITIONS.includes(condition) ? condition : undefined,
+      cost_price: Number.isFinite(costPrice) ? costPrice : undefined,
+      status: errors.length > 0 ? 'failed' : 'pending',
+      error: errors.length > 0 ? errors.join('; ') : undefined
+    };
+  }
+}
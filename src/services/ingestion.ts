@@ -1,9 +1,35 @@
-import { Env, IngestBookRequest, IngestBookResponse, Book, ExternalMetadata } from '../types';
+import {
+  Env,
+  IngestBookRequest,
+  IngestBookResponse,
+  ManualIngestRequest,
+  Book,
+  BookCondition,
+  BookMetadata,
+  Edition,
+  ExternalMetadata,
+  FieldProvenance,
+  MetadataProvenance
+} from '../types';
 import { DatabaseService } from './database';
 import { MetadataService } from './metadata';
 import { StorageService } from './storage';
 import { EnrichmentService } from './enrichment';
-import { poundsToPence, isValidISBN, BookstoreError } from '../utils/helpers';
+import { AuditService } from './audit';
+import { EmbeddingService } from './embeddings';
+import { PricingService } from './pricing';
+import {
+  poundsToPence,
+  toISBN13,
+  isbn13To10,
+  isInternalSKU,
+  generateSKU,
+  BookstoreError
+} from '../utils/helpers';
+import { detectLanguage } from '../utils/language';
+
+const CONDITIONS: BookCondition[] = ['like_new', 'very_good', 'good', 'acceptable'];
+const MANUAL_PROVENANCE: FieldProvenance = { sources: ['manual'], strategy: 'manual' };
 
 /**
  * Book Ingestion Orchestrator
@@ -11,163 +37,412 @@ import { poundsToPence, isValidISBN, BookstoreError } from '../utils/helpers';
  * ISBN → Metadata → Enrichment → Storage → Database
  */
 export class IngestionService {
+  private readonly COVER_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+  private readonly MAX_COVER_BYTES = 10 * 1024 * 1024;
+
   private db: DatabaseService;
   private metadata: MetadataService;
   private storage: StorageService;
   private enrichment: EnrichmentService;
+  private audit: AuditService;
+  private embeddings: EmbeddingService;
+  private pricing: PricingService;
 
   constructor(private env: Env) {
     this.db = new DatabaseService(env);
-    this.metadata = new MetadataService();
+    this.metadata = new MetadataService(env);
     this.storage = new StorageService(env);
     this.enrichment = new EnrichmentService(env);
+    this.audit = new AuditService(env);
+    this.embeddings = new EmbeddingService(env);
+    this.pricing = new PricingService(env);
   }
 
   /**
    * Main ingestion pipeline
-   * Fetches metadata, enriches with AI, stores images, creates database record
+   * New ISBN: fetches metadata, enriches with AI, stores images, creates the
+   * edition and its first copy. Known ISBN (or the SKU of a manually
+   * catalogued book): adds another copy to the edition.
+   * @param copyId ID for the new copy (bulk jobs assign it up front)
    */
-  async ingestBook(request: IngestBookRequest): Promise<IngestBookResponse> {
+  async ingestBook(
+    request: IngestBookRequest,
+    adminId?: string,
+    copyId?: string
+  ): Promise<IngestBookResponse> {
     const errors: string[] = [];
 
     try {
-      // 1. Validate input
-      if (!isValidISBN(request.isbn)) {
-        throw new BookstoreError('Invalid ISBN format', 400);
+      // 1. Validate input, and catalogue every ISBN in its ISBN-13 form
+      const sku = isInternalSKU(request.isbn);
+      const isbn = sku ? request.isbn.trim().toUpperCase() : toISBN13(request.isbn);
+
+      if (!isbn) {
+        throw new BookstoreError('Invalid ISBN - check the digits', 400);
       }
 
+      request = { ...request, isbn };
+
       if (request.cost_price <= 0) {
         throw new BookstoreError('Cost price must be greater than 0', 400);
       }
 
-      // 2. Check if book already exists
-      const existing = await this.db.getBookByISBN(request.isbn);
-      if (existing) {
-        throw new BookstoreError(
-          `Book with ISBN ${request.isbn} already exists (ID: ${existing.id})`,
-          409
-        );
+      // 2. Reuse the edition if this ISBN is already catalogued
+      let edition = sku ? await this.db.getEditionByISBN(isbn) : await this.findEdition(isbn);
+      let externalMetadata: ExternalMetadata = {};
+      const newEdition = !edition;
+
+      if (edition) {
+        console.log(`ISBN ${isbn} already catalogued - adding a copy to edition ${edition.id}`);
+
+        if (request.custom_title || request.custom_author) {
+          errors.push('custom_title/custom_author ignored - edit the existing edition instead');
+        }
+      } else if (sku) {
+        throw new BookstoreError(`No book catalogued with SKU ${isbn}`, 404);
+      } else {
+        const created = await this.createEdition(request, errors);
+        edition = created.edition;
+        externalMetadata = created.metadata;
       }
 
-      // 3. Fetch metadata from external sources
-      console.log(`Fetching metadata for ISBN: ${request.isbn}`);
-      let externalMetadata: ExternalMetadata;
+      return await this.addCopy(
+        edition,
+        request,
+        { newEdition, metadata: externalMetadata, errors, copyId },
+        adminId
+      );
 
-      try {
-        externalMetadata = await this.metadata.fetchMetadata(request.isbn);
-      } catch (error) {
-        throw new BookstoreError(
-          `Failed to fetch metadata: ${error instanceof Error ? error.message : 'Unknown error'}`,
-          404
-        );
+    } catch (error) {
+      console.error('Ingestion error:', error);
+
+      if (error instanceof BookstoreError) {
+        throw error;
+      }
+
+      throw new BookstoreError(
+        `Failed to ingest book: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        500
+      );
+    }
+  }
+
+  /**
+   * Manual cataloguing, for books no metadata provider knows (or without an
+   * ISBN at all, which get an internal SKU): the request supplies the
+   * metadata and optionally a cover photo; enrichment and pricing still run
+   */
+  async ingestManualBook(
+    request: ManualIngestRequest,
+    cover?: File,
+    adminId?: string
+  ): Promise<IngestBookResponse> {
+    const errors: string[] = [];
+
+    try {
+      // 1. Validate input
+      this.validateManualRequest(request, cover);
+
+      const isbn = request.isbn ? toISBN13(request.isbn) : null;
+
+      if (request.isbn && !isbn) {
+        throw new BookstoreError('Invalid ISBN - check the digits', 400);
       }
 
-      // 4. Merge and extract metadata
-      const merged = this.metadata.mergeMetadata(externalMetadata);
+      if (isbn && await this.findEdition(isbn)) {
+        throw new BookstoreError('ISBN already catalogued - ingest it by ISBN to add a copy', 409);
+      }
 
-      // Allow custom title/author override
-      const title = request.custom_title || merged.title;
-      const author = request.custom_author || merged.author;
+      const title = request.title.trim();
+      const author = request.author.trim();
+      const description = request.description?.trim() || undefined;
 
-      // 5. AI Enrichment (non-blocking, graceful failure)
+      // 2. AI Enrichment (non-blocking, graceful failure)
       let ai_enrichment;
       try {
         console.log(`Enriching book: ${title}`);
-        ai_enrichment = await this.enrichment.enrichBook(
-          title,
-          author,
-          merged.description
-        );
+        ai_enrichment = await this.enrichment.enrichBook(title, author, description);
       } catch (error) {
         console.warn('AI enrichment failed, continuing without:', error);
         errors.push('AI enrichment failed - using defaults');
       }
 
-      // 6. Upload cover image to R2 (non-blocking, graceful failure)
-      let cover_url = merged.cover_url;
-      if (cover_url) {
-        try {
-          console.log(`Uploading cover image for: ${title}`);
-          // We'll upload after creating the book to get the book ID
-        } catch (error) {
-          console.warn('Cover upload failed, using original URL:', error);
-          errors.push('Cover upload failed - using external URL');
-        }
-      }
-
-      // 7. Calculate suggested price
-      const cost_price_pence = poundsToPence(request.cost_price);
-      const suggested_price = this.metadata.calculateSuggestedPrice(
-        cost_price_pence,
-        request.condition
-      );
-
-      // 8. Create book record in database
-      console.log(`Creating book record for: ${title}`);
-
-      const book: Partial<Book> = {
-        isbn: request.isbn,
+      // 3. Create the edition under its ISBN, or a new SKU
+      const edition = await this.db.createEdition({
+        isbn: isbn || generateSKU(),
         title,
         author,
-        description: merged.description,
-        cover_url,
-        condition: request.condition,
-        cost_price: cost_price_pence,
-        sell_price: suggested_price,
-        in_stock: true,
-        metadata: merged.metadata,
+        description,
+        metadata: this.buildManualMetadata(request, isbn),
         vibe_tags: ai_enrichment?.vibe_keywords,
-        ai_enrichment,
-        status: 'pending_review' // Requires admin approval
-      };
+        ai_enrichment
+      });
 
-      const createdBook = await this.db.createBook(book);
+      console.log(`Catalogued ${edition.isbn} manually: ${title}`);
 
-      // 9. Upload cover with book ID (if we have a cover URL)
-      if (cover_url && createdBook.id) {
+      // 4. Store the cover photo (graceful failure)
+      if (cover) {
         try {
-          const uploadedCoverUrl = await this.storage.uploadBookCover(
-            createdBook.id,
-            cover_url
-          );
-
-          // Update book with new cover URL
-          if (uploadedCoverUrl !== cover_url) {
-            await this.db.updateBook(createdBook.id, {
-              cover_url: uploadedCoverUrl
-            });
-            createdBook.cover_url = uploadedCoverUrl;
-          }
+          const cover_url = await this.storage.uploadCoverImage(edition.id, cover);
+          const metadata = {
+            ...edition.metadata,
+            provenance: { ...edition.metadata?.provenance, cover_url: MANUAL_PROVENANCE }
+          };
+
+          await this.db.updateEdition(edition.id, { cover_url, metadata });
+          Object.assign(edition, { cover_url, metadata });
         } catch (error) {
-          console.warn('Cover upload failed after book creation:', error);
-          errors.push('Cover upload failed - using external URL');
+          console.warn('Cover upload failed:', error);
+          errors.push('Cover upload failed - add one later with Update Book');
         }
       }
 
-      // 10. Return response
-      return {
-        success: true,
-        book_id: createdBook.id,
-        book: createdBook,
-        metadata: externalMetadata,
-        suggested_price: suggested_price / 100, // Convert to pounds for display
-        errors: errors.length > 0 ? errors : undefined
-      };
+      return await this.addCopy(edition, request, { newEdition: true, metadata: {}, errors, manual: true }, adminId);
 
     } catch (error) {
-      console.error('Ingestion error:', error);
+      console.error('Manual ingestion error:', error);
 
       if (error instanceof BookstoreError) {
         throw error;
       }
 
       throw new BookstoreError(
-        `Failed to ingest book: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        `Failed to catalogue book: ${error instanceof Error ? error.message : 'Unknown error'}`,
         500
       );
     }
   }
 
+  /**
+   * Price and create a pending_review copy of an edition
+   */
+  private async addCopy(
+    edition: Edition,
+    copy: Pick<IngestBookRequest, 'condition' | 'cost_price'>,
+    context: {
+      newEdition: boolean;
+      metadata: ExternalMetadata;
+      errors: string[];
+      manual?: boolean;
+      copyId?: string;
+    },
+    adminId?: string
+  ): Promise<IngestBookResponse> {
+    const { newEdition, metadata: externalMetadata, errors } = context;
+
+    // Suggest a price from market data and the pricing rules
+    const cost_price_pence = poundsToPence(copy.cost_price);
+    const pricing = await this.pricing.suggestPrice(edition.isbn, {
+      cost_price: cost_price_pence,
+      condition: copy.condition,
+      metadata: edition.metadata
+    });
+    const suggested_price = pricing.price;
+    externalMetadata.market_prices = pricing.market_prices;
+
+    // Create the copy
+    console.log(`Creating copy of: ${edition.title}`);
+
+    const createdBook = await this.db.createBook(
+      {
+        id: context.copyId,
+        edition_id: edition.id,
+        condition: copy.condition,
+        cost_price: cost_price_pence,
+        sell_price: suggested_price,
+        status: 'pending_review' // Requires admin approval
+      },
+      { admin_id: adminId, details: { pricing_basis: pricing.basis } }
+    );
+
+    // Index embedding for vibe search (graceful failure)
+    if (newEdition && !(await this.indexEmbedding(createdBook))) {
+      errors.push('Embedding failed - book not yet in vibe search');
+    }
+
+    await this.audit.record('create_book', 'book', createdBook.id, adminId, {
+      isbn: createdBook.isbn,
+      edition_id: createdBook.edition_id,
+      new_edition: newEdition,
+      ...(context.manual && { manual: true }),
+      title: createdBook.title,
+      condition: createdBook.condition,
+      cost_price: createdBook.cost_price,
+      sell_price: createdBook.sell_price,
+      pricing_basis: pricing.basis
+    });
+
+    return {
+      success: true,
+      book_id: createdBook.id,
+      book: createdBook,
+      edition_id: edition.id,
+      new_edition: newEdition,
+      metadata: externalMetadata,
+      suggested_price: suggested_price / 100, // Convert to pounds for display
+      pricing,
+      errors: errors.length > 0 ? errors : undefined
+    };
+  }
+
+  /**
+   * Edition for an ISBN-13, including ones catalogued under their ISBN-10
+   * before ISBNs were canonicalized
+   */
+  private async findEdition(isbn: string): Promise<Edition | null> {
+    const edition = await this.db.getEditionByISBN(isbn);
+    const isbn10 = isbn13To10(isbn);
+
+    return edition || (isbn10 ? this.db.getEditionByISBN(isbn10) : null);
+  }
+
+  /**
+   * Fetch metadata, enrich and store the cover for a new ISBN
+   * Non-fatal problems are appended to `errors`
+   */
+  private async createEdition(
+    request: IngestBookRequest,
+    errors: string[]
+  ): Promise<{ edition: Edition; metadata: ExternalMetadata }> {
+    // Fetch metadata from external sources
+    console.log(`Fetching metadata for ISBN: ${request.isbn}`);
+    let externalMetadata: ExternalMetadata;
+
+    try {
+      externalMetadata = await this.metadata.fetchMetadata(request.isbn);
+    } catch (error) {
+      throw new BookstoreError(
+        `Failed to fetch metadata: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        404
+      );
+    }
+
+    // Merge and extract metadata
+    const merged = await this.metadata.mergeMetadata(externalMetadata);
+
+    // Allow custom title/author override
+    const title = request.custom_title || merged.title;
+    const author = request.custom_author || merged.author;
+    const provenance = merged.metadata.provenance!;
+
+    if (request.custom_title) provenance.title = MANUAL_PROVENANCE;
+    if (request.custom_author) provenance.authors = MANUAL_PROVENANCE;
+
+    // AI Enrichment (non-blocking, graceful failure)
+    let ai_enrichment;
+    try {
+      console.log(`Enriching book: ${title}`);
+      ai_enrichment = await this.enrichment.enrichBook(
+        title,
+        author,
+        merged.description,
+        externalMetadata.reviews
+      );
+    } catch (error) {
+      console.warn('AI enrichment failed, continuing without:', error);
+      errors.push('AI enrichment failed - using defaults');
+    }
+
+    console.log(`Creating edition for: ${title}`);
+
+    const edition = await this.db.createEdition({
+      isbn: request.isbn,
+      title,
+      author,
+      description: merged.description,
+      cover_url: merged.cover_url,
+      metadata: merged.metadata,
+      vibe_tags: ai_enrichment?.vibe_keywords,
+      ai_enrichment
+    });
+
+    // Upload cover to R2 under the edition ID (graceful failure)
+    if (edition.cover_url) {
+      try {
+        console.log(`Uploading cover image for: ${title}`);
+        const uploadedCoverUrl = await this.storage.uploadBookCover(edition.id, edition.cover_url);
+
+        if (uploadedCoverUrl !== edition.cover_url) {
+          await this.db.updateEdition(edition.id, { cover_url: uploadedCoverUrl });
+          edition.cover_url = uploadedCoverUrl;
+        }
+      } catch (error) {
+        console.warn('Cover upload failed, using original URL:', error);
+        errors.push('Cover upload failed - using external URL');
+      }
+    }
+
+    return { edition, metadata: externalMetadata };
+  }
+
+  private validateManualRequest(request: ManualIngestRequest, cover?: File): void {
+    if (!request.title?.trim() || !request.author?.trim()) {
+      throw new BookstoreError('Title and author are required', 400);
+    }
+
+    if (!CONDITIONS.includes(request.condition)) {
+      throw new BookstoreError(`Condition must be one of: ${CONDITIONS.join(', ')}`, 400);
+    }
+
+    if (!(request.cost_price > 0)) {
+      throw new BookstoreError('Cost price must be greater than 0', 400);
+    }
+
+    if (request.page_count !== undefined && !(Number.isInteger(request.page_count) && request.page_count > 0)) {
+      throw new BookstoreError('page_count must be a positive whole number', 400);
+    }
+
+    if (request.language !== undefined && !/^[a-z]{2}$/.test(request.language)) {
+      throw new BookstoreError('language must be a two-letter ISO 639-1 code, e.g. "en"', 400);
+    }
+
+    if (cover && !this.COVER_TYPES.includes(cover.type)) {
+      throw new BookstoreError(
+        `Unsupported cover type ${cover.type || 'unknown'} (allowed: JPEG, PNG, WebP)`,
+        400
+      );
+    }
+
+    if (cover && cover.size > this.MAX_COVER_BYTES) {
+      throw new BookstoreError('Cover too large (max 10MB)', 400);
+    }
+  }
+
+  /**
+   * Edition metadata from a manual request - every supplied field is
+   * marked manual, so metadata refreshes leave it alone
+   */
+  private buildManualMetadata(request: ManualIngestRequest, isbn: string | null): BookMetadata {
+    const categories = request.categories?.map(category => category.trim()).filter(Boolean);
+    const metadata: BookMetadata = {
+      publisher: request.publisher?.trim() || undefined,
+      publish_date: request.publish_date?.trim() || undefined,
+      page_count: request.page_count,
+      language: request.language,
+      categories: categories?.length ? categories : undefined,
+      isbn_10: isbn ? isbn13To10(isbn) || undefined : undefined,
+      isbn_13: isbn || undefined
+    };
+
+    const provenance: MetadataProvenance = {
+      title: MANUAL_PROVENANCE,
+      authors: MANUAL_PROVENANCE
+    };
+
+    if (request.description?.trim()) provenance.description = MANUAL_PROVENANCE;
+
+    for (const [field, value] of Object.entries(metadata)) {
+      if (value !== undefined) provenance[field as keyof MetadataProvenance] = MANUAL_PROVENANCE;
+    }
+
+    if (!metadata.language) {
+      metadata.language = detectLanguage(request.description);
+      if (metadata.language) provenance.language = { sources: ['detected'], strategy: 'detected' };
+    }
+
+    return { ...metadata, provenance };
+  }
+
   /**
    * Approve a book (admin action)
    * Moves book from 'pending_review' to 'live' status
@@ -180,7 +455,8 @@ export class IngestionService {
       author?: string;
       description?: string;
       vibe_tags?: string;
-    }
+    },
+    adminId?: string
   ): Promise<Book> {
     const book = await this.db.getBook(bookId);
 
@@ -207,12 +483,20 @@ export class IngestionService {
       if (updates.vibe_tags) updateData.vibe_tags = updates.vibe_tags;
     }
 
-    const updatedBook = await this.db.updateBook(bookId, updateData);
+    const updatedBook = await this.db.updateBook(bookId, updateData, {
+      source: 'approval',
+      admin_id: adminId
+    });
 
     if (!updatedBook) {
       throw new BookstoreError('Failed to update book', 500);
     }
 
+    // Approval edits can change the vibe, so re-embed
+    await this.indexEmbedding(updatedBook);
+
+    await this.audit.recordBookChange('approve_book', book, updatedBook, adminId);
+
     console.log(`Book approved and set to live: ${bookId}`);
 
     return updatedBook;
@@ -221,15 +505,50 @@ export class IngestionService {
   /**
    * Reject/delete a book (admin action)
    */
-  async rejectBook(bookId: string): Promise<void> {
+  async rejectBook(bookId: string, adminId?: string): Promise<void> {
     const book = await this.db.getBook(bookId);
 
     if (!book) {
       throw new BookstoreError('Book not found', 404);
     }
 
-    await this.db.updateBook(bookId, { status: 'removed' });
+    const updatedBook = await this.db.updateBook(bookId, { status: 'removed' });
+
+    if (updatedBook) {
+      await this.audit.recordBookChange('reject_book', book, updatedBook, adminId);
+    }
+
+    // Embeddings are per edition - keep it while other copies remain
+    if (book.vector_id && (await this.db.countActiveCopies(book.edition_id)) === 0) {
+      try {
+        await this.embeddings.removeBook(book.vector_id);
+      } catch (error) {
+        console.warn(`Failed to remove embedding for ${bookId}:`, error);
+      }
+    }
 
     console.log(`Book rejected and removed: ${bookId}`);
   }
+
+  // ========== HELPER METHODS ==========
+
+  /**
+   * Embed the book's edition into the vector index and record its vector_id
+   * Returns false (never throws) if embedding fails
+   */
+  private async indexEmbedding(book: Book): Promise<boolean> {
+    try {
+      const vectorId = await this.embeddings.indexBook(book);
+
+      if (book.vector_id !== vectorId) {
+        await this.db.updateEdition(book.edition_id, { vector_id: vectorId });
+        book.vector_id = vectorId;
+      }
+
+      return true;
+    } catch (error) {
+      console.warn(`Embedding failed for ${book.id}:`, error);
+      return false;
+    }
+  }
 }
@@ -0,0 +1,252 @@
+import {
+  Env,
+  ExternalMetadata,
+  GoogleBooksData,
+  MetadataRecord,
+  OpenLibraryData,
+  Review
+} from '../types';
+import { normalizeISBN, isValidISBN10, isValidISBN13, toISBN13 } from '../utils/helpers';
+import { parseCSVRecords } from '../utils/csv';
+
+/**
+ * Metadata Providers
+ * Each provider fetches a raw response for an ISBN and parses it. The two
+ * steps are separate so MetadataService can cache raw responses, and so
+ * parsing can be exercised against recorded responses without a network.
+ */
+
+export interface MetadataProviderResult {
+  record?: MetadataRecord; // bibliographic fields, for merging
+  reviews?: Review[];
+  external?: Partial<ExternalMetadata>; // provider-specific detail to pass through
+}
+
+export interface MetadataProvider {
+  readonly name: string;
+
+  /** Raw response for the (normalized) ISBN, or null if the provider has no such book */
+  fetch(isbn: string, signal: AbortSignal): Promise<unknown | null>;
+
+  /** Parse a raw response from fetch() - possibly a cached one */
+  parse(raw: unknown): MetadataProviderResult;
+}
+
+// ========== OPEN LIBRARY ==========
+
+export class OpenLibraryProvider implements MetadataProvider {
+  readonly name = 'open_library';
+  private readonly OPEN_LIBRARY_API = 'https://openlibrary.org';
+
+  async fetch(isbn: string, signal: AbortSignal): Promise<unknown | null> {
+    const response = await fetch(
+      `${this.OPEN_LIBRARY_API}/api/books?bibkeys=ISBN:${isbn}&format=json&jscmd=data`,
+      { signal }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Open Library API error: ${response.status}`);
+    }
+
+    const data = await response.json<Record<string, unknown>>();
+    return data[`ISBN:${isbn}`] || null;
+  }
+
+  parse(raw: unknown): MetadataProviderResult {
+    const book = raw as any;
+
+    const data: OpenLibraryData = {
+      title: book.title,
+      authors: book.authors || [],
+      description: book.notes || book.subtitle,
+      cover_url: book.cover?.large || book.cover?.medium,
+      publish_date: book.publish_date,
+      publishers: book.publishers?.map((p: any) => p.name),
+      number_of_pages: book.number_of_pages,
+      subjects: book.subjects?.map((s: any) => s.name),
+      identifiers: book.identifiers
+    };
+
+    return {
+      record: {
+        title: data.title,
+        authors: data.authors?.map(author => author.name),
+        description: data.description,
+        cover_url: data.cover_url,
+        publisher: data.publishers?.[0],
+        publish_date: data.publish_date,
+        page_count: data.number_of_pages,
+        categories: data.subjects?.slice(0, 5),
+        isbn_10: isbnOfLength(data.identifiers?.isbn_10?.[0], 10),
+        isbn_13: isbnOfLength(data.identifiers?.isbn_13?.[0], 13)
+      },
+      external: { open_library: data }
+    };
+  }
+}
+
+// ========== GOOGLE BOOKS ==========
+
+export class GoogleBooksProvider implements MetadataProvider {
+  readonly name = 'google_books';
+  private readonly GOOGLE_BOOKS_API = 'https://www.googleapis.com/books/v1';
+
+  async fetch(isbn: string, signal: AbortSignal): Promise<unknown | null> {
+    const response = await fetch(`${this.GOOGLE_BOOKS_API}/volumes?q=isbn:${isbn}`, { signal });
+
+    if (!response.ok) {
+      throw new Error(`Google Books API error: ${response.status}`);
+    }
+
+    const data = await response.json<any>();
+    return data.items?.[0]?.volumeInfo || null;
+  }
+
+  parse(raw: unknown): MetadataProviderResult {
+    const book = raw as any;
+
+    const data: GoogleBooksData = {
+      title: book.title,
+      authors: book.authors || [],
+      description: book.description,
+      cover_url: book.imageLinks?.large || book.imageLinks?.thumbnail?.replace('zoom=1', 'zoom=2'),
+      publishedDate: book.publishedDate,
+      publisher: book.publisher,
+      pageCount: book.pageCount,
+      categories: book.categories,
+      language: book.language,
+      industryIdentifiers: book.industryIdentifiers,
+      averageRating: book.averageRating,
+      ratingsCount: book.ratingsCount
+    };
+
+    const identifier = (type: string) =>
+      data.industryIdentifiers?.find(id => id.type === type)?.identifier;
+
+    return {
+      record: {
+        title: data.title,
+        authors: data.authors,
+        description: data.description,
+        cover_url: data.cover_url,
+        publisher: data.publisher,
+        publish_date: data.publishedDate,
+        page_count: data.pageCount,
+        categories: data.categories,
+        language: data.language,
+        isbn_10: isbnOfLength(identifier('ISBN_10'), 10),
+        isbn_13: isbnOfLength(identifier('ISBN_13'), 13),
+        average_rating: data.averageRating,
+        ratings_count: data.ratingsCount
+      },
+      external: { google_books: data }
+    };
+  }
+}
+
+// ========== LOCAL CATALOGUE ==========
+
+/**
+ * Staff-maintained CSV in R2 (default key catalogue/books.csv)
+ * Columns: isbn, title, author, description, publisher, publish_date,
+ * page_count, categories, cover_url, language. Multiple authors or
+ * categories are separated with ';'.
+ */
+export class LocalCatalogueProvider implements MetadataProvider {
+  readonly name = 'local_catalogue';
+
+  constructor(private env: Env, private key: string = 'catalogue/books.csv') {}
+
+  async fetch(isbn: string): Promise<unknown | null> {
+    const object = await this.env.ASSETS.get(this.key);
+
+    if (!object) {
+      throw new Error(`Catalogue ${this.key} not found`);
+    }
+
+    // The catalogue may list either ISBN form
+    const isbn13 = toISBN13(isbn);
+    if (!isbn13) return null;
+
+    const records = parseCSVRecords(await object.text());
+    return records.find(record => toISBN13(record.isbn || '') === isbn13) || null;
+  }
+
+  parse(raw: unknown): MetadataProviderResult {
+    const row = raw as Record<string, string>;
+    const list = (value?: string) => value?.split(';').map(item => item.trim()).filter(Boolean);
+    const pageCount = parseInt(row.page_count, 10);
+    const isbn = normalizeISBN(row.isbn || '');
+
+    return {
+      record: {
+        title: row.title || undefined,
+        authors: list(row.author),
+        description: row.description || undefined,
+        cover_url: row.cover_url || undefined,
+        publisher: row.publisher || undefined,
+        publish_date: row.publish_date || undefined,
+        page_count: pageCount > 0 ? pageCount : undefined,
+        categories: list(row.categories),
+        language: row.language?.toLowerCase() || undefined,
+        isbn_10: isbnOfLength(isbn, 10),
+        isbn_13: isbnOfLength(isbn, 13)
+      }
+    };
+  }
+}
+
+// ========== NYT REVIEWS ==========
+
+/**
+ * New York Times book reviews (needs NYT_API_KEY)
+ * Review summaries only - it supplies no bibliographic fields
+ */
+export class NYTReviewsProvider implements MetadataProvider {
+  readonly name = 'nyt_reviews';
+  private readonly NYT_BOOKS_API = 'https://api.nytimes.com/svc/books/v3';
+
+  constructor(private env: Env) {}
+
+  async fetch(isbn: string, signal: AbortSignal): Promise<unknown | null> {
+    if (!this.env.NYT_API_KEY) {
+      throw new Error('NYT API key not configured');
+    }
+
+    const response = await fetch(
+      `${this.NYT_BOOKS_API}/reviews.json?isbn=${isbn}&api-key=${this.env.NYT_API_KEY}`,
+      { signal }
+    );
+
+    if (!response.ok) {
+      throw new Error(`NYT Books API error: ${response.status}`);
+    }
+
+    const data = await response.json<any>();
+    return data.results?.length ? data.results : null;
+  }
+
+  parse(raw: unknown): MetadataProviderResult {
+    const results = raw as any[];
+
+    return {
+      reviews: results
+        .filter(result => result.summary)
+        .map(result => ({
+          source: 'nyt',
+          text: result.summary,
+          author: result.byline || undefined,
+          date: result.publication_dt || undefined
+        }))
+    };
+  }
+}
+
+/**
+ * Normalized ISBN if it is a valid ISBN of the given length
+ */
+function isbnOfLength(value: string | undefined, length: 10 | 13): string | undefined {
+  const isbn = value ? normalizeISBN(value) : '';
+  const valid = length === 10 ? isValidISBN10(isbn) : isValidISBN13(isbn);
+  return valid ? isbn : undefined;
+}
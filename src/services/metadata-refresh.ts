@@ -0,0 +1,388 @@
+import {
+  Env,
+  Book,
+  BookMetadata,
+  Edition,
+  FieldProvenance,
+  MetadataProvenance,
+  MetadataRefresh,
+  Review,
+  RefreshChange,
+  RefreshField,
+  RefreshFilter,
+  RefreshOptions,
+  BulkRefreshResult
+} from '../types';
+import { DatabaseService } from './database';
+import { MetadataService, hasValue } from './metadata';
+import { EnrichmentService } from './enrichment';
+import { StorageService } from './storage';
+import { EmbeddingService } from './embeddings';
+import { AuditService } from './audit';
+import { BookstoreError, isInternalSKU } from '../utils/helpers';
+
+// Fields stored as edition columns; the rest live in edition.metadata
+const EDITION_FIELDS: RefreshField[] = ['title', 'author', 'description', 'cover_url', 'vibe_tags', 'ai_enrichment'];
+const METADATA_FIELDS: Array<RefreshField & keyof BookMetadata> = [
+  'publisher', 'publish_date', 'page_count', 'language', 'categories',
+  'isbn_10', 'isbn_13', 'average_rating', 'ratings_count'
+];
+
+// Fields that feed the vibe search embedding
+const EMBEDDED_FIELDS: RefreshField[] = ['title', 'author', 'description', 'vibe_tags', 'ai_enrichment'];
+
+interface ProposedValue {
+  value: any;
+  provenance?: FieldProvenance;
+}
+
+/**
+ * Metadata Refresh Service
+ * Re-fetches metadata and/or re-runs enrichment for catalogued editions.
+ * Nothing changes straight away: each refresh is stored as a diff against
+ * the edition's current values, and an admin accepts it field by field.
+ * Fields edited by hand (metadata.provenance 'manual') are flagged and
+ * only replaced when accepted by name.
+ */
+export class MetadataRefreshService {
+  private readonly MAX_BULK = 25; // each refresh makes several external calls
+
+  private db: DatabaseService;
+  private metadata: MetadataService;
+  private enrichment: EnrichmentService;
+  private storage: StorageService;
+  private embeddings: EmbeddingService;
+  private audit: AuditService;
+
+  constructor(env: Env) {
+    this.db = new DatabaseService(env);
+    this.metadata = new MetadataService(env);
+    this.enrichment = new EnrichmentService(env);
+    this.storage = new StorageService(env);
+    this.embeddings = new EmbeddingService(env);
+    this.audit = new AuditService(env);
+  }
+
+  /**
+   * Build and store the proposed changes for a copy's edition
+   */
+  async refreshBook(bookId: string, options: RefreshOptions = {}, adminId?: string): Promise<MetadataRefresh> {
+    const book = await this.db.getBook(bookId);
+
+    if (!book) {
+      throw new BookstoreError('Book not found', 404);
+    }
+
+    return this.createRefresh(book, options, adminId);
+  }
+
+  async getRefresh(refreshId: string): Promise<MetadataRefresh> {
+    const refresh = await this.db.getMetadataRefresh(refreshId);
+
+    if (!refresh) {
+      throw new BookstoreError('Refresh not found', 404);
+    }
+
+    return refresh;
+  }
+
+  /**
+   * Apply the accepted fields of a pending refresh
+   * @param accept Field names, or 'all' for every change except manual overrides
+   */
+  async applyRefresh(
+    refreshId: string,
+    accept: RefreshField[] | 'all',
+    adminId?: string
+  ): Promise<{ refresh: MetadataRefresh; book: Book }> {
+    const refresh = await this.getRefresh(refreshId);
+
+    if (refresh.status !== 'pending') {
+      throw new BookstoreError('Refresh has already been applied', 409);
+    }
+
+    const changes = accept === 'all'
+      ? refresh.changes.filter(change => !change.manual_override)
+      : accept.map(field => {
+          const change = refresh.changes.find(candidate => candidate.field === field);
+          if (!change) throw new BookstoreError(`No proposed change for '${field}'`, 400);
+          return change;
+        });
+
+    if (changes.length === 0) {
+      throw new BookstoreError('No changes to apply', 400);
+    }
+
+    // Read before the book, so the update below is refused if the edition
+    // changes after either read
+    const edition = await this.db.getEdition(refresh.edition_id);
+    const before = await this.db.getBook(refresh.book_id);
+
+    if (!edition || !before) {
+      throw new BookstoreError('Book not found', 404);
+    }
+
+    // The diff is only valid against the values it was made from
+    const stale = changes.filter(change => !sameValue(readField(before, change.field), change.current));
+
+    if (stale.length > 0) {
+      throw new BookstoreError(
+        `Changed since the refresh: ${stale.map(change => change.field).join(', ')} - refresh again`,
+        409
+      );
+    }
+
+    const accepted = changes.map(change => change.field);
+    const update = await this.buildEditionUpdate(before, changes);
+
+    if (!(await this.db.applyMetadataRefresh(refresh.id, refresh.edition_id, edition.updated_at, update, accepted, adminId))) {
+      if ((await this.getRefresh(refresh.id)).status !== 'pending') {
+        throw new BookstoreError('Refresh has already been applied', 409);
+      }
+
+      throw new BookstoreError('Book was edited while the refresh was applied - try again', 409);
+    }
+
+    const book = (await this.db.getBook(refresh.book_id))!;
+
+    if (accepted.some(field => EMBEDDED_FIELDS.includes(field))) {
+      await this.reindexEmbedding(book);
+    }
+
+    await this.audit.recordBookChange('refresh_metadata', before, book, adminId, {
+      refresh_id: refresh.id,
+      accepted
+    });
+
+    return { refresh: await this.getRefresh(refresh.id), book };
+  }
+
+  /**
+   * Refresh every edition matching a filter (at most MAX_BULK), optionally
+   * applying the given fields straight away. Bulk applies never replace
+   * manual overrides; one failing edition doesn't stop the rest.
+   */
+  async refreshBooks(
+    filter: RefreshFilter,
+    options: RefreshOptions = {},
+    accept?: RefreshField[] | 'all',
+    adminId?: string
+  ): Promise<BulkRefreshResult[]> {
+    const limit = Math.min(filter.limit || this.MAX_BULK, this.MAX_BULK);
+    const books = await this.db.listBooksForRefresh({ ...filter, limit });
+    const results: BulkRefreshResult[] = [];
+
+    for (const book of books) {
+      const result: BulkRefreshResult = { book_id: book.id, edition_id: book.edition_id, changes: 0 };
+
+      try {
+        const refresh = await this.createRefresh(book, options, adminId);
+        result.refresh_id = refresh.id;
+        result.changes = refresh.changes.length;
+
+        const fields = accept
+          ? refresh.changes
+              .filter(change => !change.manual_override && (accept === 'all' || accept.includes(change.field)))
+              .map(change => change.field)
+          : [];
+
+        if (fields.length > 0) {
+          result.accepted = (await this.applyRefresh(refresh.id, fields, adminId)).refresh.accepted;
+        }
+      } catch (error) {
+        console.warn(`Metadata refresh failed for ${book.id}:`, error);
+        result.error = error instanceof Error ? error.message : 'Unknown error';
+      }
+
+      results.push(result);
+    }
+
+    return results;
+  }
+
+  // ========== BUILDING REFRESHES ==========
+
+  private async createRefresh(book: Book, options: RefreshOptions, adminId?: string): Promise<MetadataRefresh> {
+    const { enrichment = true } = options;
+    const sku = isInternalSKU(book.isbn);
+
+    if (sku && options.metadata) {
+      throw new BookstoreError('Books catalogued without an ISBN have no metadata to fetch', 400);
+    }
+
+    // Manually catalogued books can still be re-enriched
+    const metadata = (options.metadata ?? true) && !sku;
+
+    if (!metadata && !enrichment) {
+      throw new BookstoreError('Nothing to refresh - enable metadata and/or enrichment', 400);
+    }
+
+    const proposed: Partial<Record<RefreshField, ProposedValue>> = {};
+    const errors: string[] = [];
+    let reviews: Review[] | undefined;
+
+    if (metadata) {
+      try {
+        reviews = await this.proposeMetadata(book, proposed);
+      } catch (error) {
+        errors.push(`Metadata fetch failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    if (enrichment) {
+      try {
+        // Current values win over proposed ones - they may be hand edits
+        const enriched = await this.enrichment.enrichBook(
+          book.title,
+          book.author,
+          book.description || proposed.description?.value,
+          reviews
+        );
+
+        proposed.ai_enrichment = { value: enriched };
+        if (enriched.vibe_keywords) proposed.vibe_tags = { value: enriched.vibe_keywords };
+      } catch (error) {
+        errors.push(`Enrichment failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    // Keep a partial refresh, but not one where everything failed
+    if (errors.length === [metadata, enrichment].filter(Boolean).length) {
+      throw new BookstoreError(`Refresh failed: ${errors.join('; ')}`, 502);
+    }
+
+    return this.db.createMetadataRefresh({
+      edition_id: book.edition_id,
+      book_id: book.id,
+      metadata,
+      enrichment,
+      changes: this.diff(book, proposed),
+      errors: errors.length > 0 ? errors : undefined,
+      created_by: adminId
+    });
+  }
+
+  /**
+   * Fill `proposed` from freshly fetched metadata; returns any reviews found
+   */
+  private async proposeMetadata(
+    book: Book,
+    proposed: Partial<Record<RefreshField, ProposedValue>>
+  ): Promise<Review[] | undefined> {
+    const external = await this.metadata.fetchMetadata(book.isbn, { refresh: true });
+    const merged = await this.metadata.mergeMetadata(external);
+    const provenance = merged.metadata.provenance || {};
+
+    // Only fields a provider actually supplied (not the 'Unknown' placeholders)
+    if (provenance.title) proposed.title = { value: merged.title, provenance: provenance.title };
+    if (provenance.authors) proposed.author = { value: merged.author, provenance: provenance.authors };
+    if (provenance.description) proposed.description = { value: merged.description, provenance: provenance.description };
+
+    // Stored covers are copies in R2, so a fetched URL never matches one - only fill gaps
+    if (provenance.cover_url && !book.cover_url) {
+      proposed.cover_url = { value: merged.cover_url, provenance: provenance.cover_url };
+    }
+
+    for (const field of METADATA_FIELDS) {
+      proposed[field] = { value: merged.metadata[field], provenance: provenance[field] };
+    }
+
+    return external.reviews;
+  }
+
+  /**
+   * Proposed values that differ from the book's; a missing value is never
+   * proposed over an existing one
+   */
+  private diff(book: Book, proposed: Partial<Record<RefreshField, ProposedValue>>): RefreshChange[] {
+    const changes: RefreshChange[] = [];
+    const manual = book.metadata?.provenance || {};
+
+    for (const [field, { value, provenance }] of Object.entries(proposed) as Array<[RefreshField, ProposedValue]>) {
+      const current = readField(book, field);
+      if (!hasValue(value) || sameValue(current, value)) continue;
+
+      const key = provenanceKey(field);
+
+      changes.push({
+        field,
+        current: current ?? null,
+        proposed: value,
+        provenance,
+        manual_override: key ? manual[key]?.strategy === 'manual' : false
+      });
+    }
+
+    return changes;
+  }
+
+  // ========== APPLYING REFRESHES ==========
+
+  private async buildEditionUpdate(
+    book: Book,
+    changes: RefreshChange[]
+  ): Promise<Partial<Omit<Edition, 'id' | 'isbn' | 'created_at' | 'updated_at'>>> {
+    const update: Record<string, any> = {};
+    const metadata: Record<string, any> = { ...book.metadata };
+    const provenance: MetadataProvenance = { ...book.metadata?.provenance };
+
+    for (const change of changes) {
+      if (EDITION_FIELDS.includes(change.field)) {
+        update[change.field] = change.proposed;
+      } else {
+        metadata[change.field] = change.proposed;
+      }
+
+      // Accepted values are no longer hand edits
+      const key = provenanceKey(change.field);
+      if (!key) continue;
+
+      if (change.provenance) {
+        provenance[key] = change.provenance;
+      } else {
+        delete provenance[key];
+      }
+    }
+
+    if (update.cover_url) {
+      try {
+        update.cover_url = await this.storage.uploadBookCover(book.edition_id, update.cover_url);
+      } catch (error) {
+        console.warn('Cover upload failed, using original URL:', error);
+      }
+    }
+
+    return { ...update, metadata: { ...metadata, provenance } };
+  }
+
+  private async reindexEmbedding(book: Book): Promise<void> {
+    try {
+      const vectorId = await this.embeddings.indexBook(book);
+
+      if (book.vector_id !== vectorId) {
+        await this.db.updateEdition(book.edition_id, { vector_id: vectorId });
+        book.vector_id = vectorId;
+      }
+    } catch (error) {
+      console.warn(`Embedding failed for ${book.id}:`, error);
+    }
+  }
+}
+
+function readField(book: Book, field: RefreshField): any {
+  return EDITION_FIELDS.includes(field)
+    ? book[field as keyof Book]
+    : book.metadata?.[field as keyof BookMetadata];
+}
+
+/**
+ * Provenance entry for a field (none for ai_enrichment, which records its own provider)
+ */
+function provenanceKey(field: RefreshField): keyof MetadataProvenance | null {
+  if (field === 'ai_enrichment') return null;
+  return field === 'author' ? 'authors' : field;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
@@ -1,235 +1,414 @@
 import {
-  OpenLibraryData,
-  GoogleBooksData,
+  Env,
   ExternalMetadata,
-  BookMetadata
+  BookMetadata,
+  MetadataProviderConfig,
+  MetadataRecord,
+  SourcedMetadataRecord,
+  MetadataField,
+  MetadataFieldPolicy,
+  MetadataMergePolicy,
+  MetadataProvenance
 } from '../types';
-import { BookstoreError, normalizeISBN } from '../utils/helpers';
+import { DatabaseService } from './database';
+import {
+  MetadataProvider,
+  OpenLibraryProvider,
+  GoogleBooksProvider,
+  LocalCatalogueProvider,
+  NYTReviewsProvider
+} from './metadata-providers';
+import { BookstoreError, normalizeISBN, toISBN13 } from '../utils/helpers';
+import { detectLanguage } from '../utils/language';
+
+const DAY_SECONDS = 24 * 60 * 60;
+const NOT_FOUND_TTL_SECONDS = DAY_SECONDS; // retry unknown ISBNs sooner
+
+// Google Books is usually the more complete source, so it outranks Open Library;
+// the local catalogue is curated by staff and outranks both once enabled
+export const DEFAULT_METADATA_PROVIDERS: Record<string, MetadataProviderConfig> = {
+  local_catalogue: { enabled: false, priority: 30, timeout_ms: 3000, cache_ttl_seconds: DAY_SECONDS },
+  google_books: { enabled: true, priority: 20, timeout_ms: 5000, cache_ttl_seconds: 30 * DAY_SECONDS },
+  open_library: { enabled: true, priority: 10, timeout_ms: 5000, cache_ttl_seconds: 30 * DAY_SECONDS },
+  nyt_reviews: { enabled: true, priority: 0, timeout_ms: 3000, cache_ttl_seconds: 7 * DAY_SECONDS }
+};
+
+// Descriptions vary most in completeness, and every source's categories are useful
+export const DEFAULT_METADATA_MERGE_POLICY: MetadataMergePolicy = {
+  title: { strategy: 'priority' },
+  authors: { strategy: 'priority' },
+  description: { strategy: 'longest' },
+  cover_url: { strategy: 'priority' },
+  publisher: { strategy: 'priority' },
+  publish_date: { strategy: 'priority' },
+  page_count: { strategy: 'priority' },
+  categories: { strategy: 'union' },
+  language: { strategy: 'priority' },
+  isbn_10: { strategy: 'priority' },
+  isbn_13: { strategy: 'priority' },
+  average_rating: { strategy: 'priority' },
+  ratings_count: { strategy: 'priority' }
+};
+
+const LIST_FIELDS: MetadataField[] = ['authors', 'categories'];
+const NUMBER_FIELDS: MetadataField[] = ['page_count', 'average_rating', 'ratings_count'];
+const MAX_UNION_VALUES = 10;
+
+interface ConfiguredProvider {
+  provider: MetadataProvider;
+  config: MetadataProviderConfig;
+}
 
 /**
  * Metadata Fetching Service
- * Fetches book metadata from Open Library and Google Books APIs
+ * Queries every enabled metadata provider in parallel (each with its own
+ * timeout), caches their raw responses in D1 per normalized ISBN, and
+ * merges the results by provider priority. Providers are configured by the
+ * 'metadata_providers' key in CONFIG KV.
  */
 export class MetadataService {
-  private readonly OPEN_LIBRARY_API = 'https://openlibrary.org';
-  private readonly GOOGLE_BOOKS_API = 'https://www.googleapis.com/books/v1';
+  private readonly CONFIG_KEY = 'metadata_providers';
+  private readonly MERGE_POLICY_KEY = 'metadata_merge_policy';
+
+  private db: DatabaseService;
 
   /**
-   * Fetch metadata from all sources and merge
+   * @param providers Optional providers override (e.g. ones replaying recorded responses in tests)
    */
-  async fetchMetadata(isbn: string): Promise<ExternalMetadata> {
-    const normalizedISBN = normalizeISBN(isbn);
-
-    const [openLibrary, googleBooks] = await Promise.allSettled([
-      this.fetchOpenLibrary(normalizedISBN),
-      this.fetchGoogleBooks(normalizedISBN)
-    ]);
-
-    const metadata: ExternalMetadata = {};
-
-    if (openLibrary.status === 'fulfilled') {
-      metadata.open_library = openLibrary.value;
-    }
+  constructor(private env: Env, private providers?: MetadataProvider[]) {
+    this.db = new DatabaseService(env);
+  }
 
-    if (googleBooks.status === 'fulfilled') {
-      metadata.google_books = googleBooks.value;
-    }
+  /**
+   * Fetch metadata from all providers
+   * @param options.refresh Skip cached responses and query the providers again
+   */
+  async fetchMetadata(isbn: string, options: { refresh?: boolean } = {}): Promise<ExternalMetadata> {
+    // Cache entries are keyed by ISBN-13 so both forms share them
+    const normalizedISBN = toISBN13(isbn) || normalizeISBN(isbn);
+    const providers = await this.getProviders();
+
+    const responses = await Promise.all(
+      providers.map(configured => this.fetchFromProvider(configured, normalizedISBN, options.refresh))
+    );
+
+    const metadata: ExternalMetadata = { records: [], reviews: [] };
+
+    responses.forEach((raw, index) => {
+      if (raw === null) return;
+      const { name } = providers[index].provider;
+
+      try {
+        const result = providers[index].provider.parse(raw);
+        Object.assign(metadata, result.external);
+        if (result.record) metadata.records!.push({ source: name, ...result.record });
+        if (result.reviews) metadata.reviews!.push(...result.reviews);
+      } catch (error) {
+        console.warn(`Metadata provider '${name}' returned an unusable response:`, error);
+      }
+    });
 
-    // If both failed, throw error
-    if (!metadata.open_library && !metadata.google_books) {
+    // Review-only providers can't identify a book
+    if (metadata.records!.length === 0) {
       throw new BookstoreError(
         `Could not fetch metadata for ISBN: ${isbn}`,
         404
       );
     }
 
+    if (metadata.reviews!.length === 0) {
+      delete metadata.reviews;
+    }
+
     return metadata;
   }
 
   /**
    * Merge metadata from multiple sources into a single BookMetadata object
+   * Fields are merged by the 'metadata_merge_policy' in CONFIG KV, and
+   * metadata.provenance records the source(s) of each field
    */
-  mergeMetadata(external: ExternalMetadata): {
+  async mergeMetadata(external: ExternalMetadata): Promise<{
     title: string;
     author: string;
     description?: string;
     cover_url?: string;
     metadata: BookMetadata;
-  } {
-    const ol = external.open_library;
-    const gb = external.google_books;
+  }> {
+    const policy = await this.getMergePolicy();
+    const { record, provenance } = mergeRecords(external.records || [], policy);
 
-    // Prefer Google Books for most fields (usually more complete)
-    const title = gb?.title || ol?.title || 'Unknown Title';
-    const author = this.extractAuthor(gb, ol);
-    const description = gb?.description || ol?.description;
-    const cover_url = this.extractCoverUrl(gb, ol);
+    // No provider reported a language - work it out from the text
+    if (!record.language) {
+      record.language = detectLanguage(record.description);
+
+      if (record.language) {
+        provenance.language = { sources: ['detected'], strategy: 'detected' };
+      }
+    }
 
     const metadata: BookMetadata = {
-      publisher: gb?.publisher || ol?.publishers?.[0],
-      publish_date: gb?.publishedDate || ol?.publish_date,
-      page_count: gb?.pageCount || ol?.number_of_pages,
-      language: 'en', // Default to English
-      categories: gb?.categories || ol?.subjects?.slice(0, 5),
-      isbn_13: this.extractISBN13(gb, ol),
-      average_rating: gb?.averageRating,
-      ratings_count: gb?.ratingsCount
+      publisher: record.publisher,
+      publish_date: record.publish_date,
+      page_count: record.page_count,
+      language: record.language,
+      categories: record.categories,
+      isbn_10: record.isbn_10,
+      isbn_13: record.isbn_13,
+      average_rating: record.average_rating,
+      ratings_count: record.ratings_count,
+      provenance
     };
 
     return {
-      title,
-      author,
-      description,
-      cover_url,
+      title: record.title || 'Unknown Title',
+      author: record.authors?.join(', ') || 'Unknown Author',
+      description: record.description,
+      cover_url: record.cover_url,
       metadata
     };
   }
 
-  // ========== OPEN LIBRARY ==========
+  /**
+   * Merge policy: defaults with valid per-field overrides from CONFIG KV
+   */
+  async getMergePolicy(): Promise<MetadataMergePolicy> {
+    let stored: Record<string, Partial<MetadataFieldPolicy>> | null = null;
 
-  private async fetchOpenLibrary(isbn: string): Promise<OpenLibraryData | null> {
     try {
-      // Try ISBN search
-      const response = await fetch(
-        `${this.OPEN_LIBRARY_API}/api/books?bibkeys=ISBN:${isbn}&format=json&jscmd=data`
-      );
+      stored = await this.env.CONFIG.get<Record<string, Partial<MetadataFieldPolicy>>>(this.MERGE_POLICY_KEY, 'json');
+    } catch (error) {
+      console.warn('Invalid metadata merge policy, using defaults:', error);
+    }
 
-      if (!response.ok) {
-        console.warn(`Open Library API error: ${response.status}`);
-        return null;
+    const policy: MetadataMergePolicy = { ...DEFAULT_METADATA_MERGE_POLICY };
+
+    for (const [field, override] of Object.entries(stored || {})) {
+      if (!(field in DEFAULT_METADATA_MERGE_POLICY)) {
+        console.warn(`Ignoring merge policy for unknown metadata field '${field}'`);
+        continue;
       }
 
-      const data = await response.json();
-      const bookKey = `ISBN:${isbn}`;
+      const merged = { ...policy[field as MetadataField], ...override };
 
-      if (!data[bookKey]) {
-        console.warn(`No Open Library data for ISBN: ${isbn}`);
-        return null;
+      if (!isValidFieldPolicy(field as MetadataField, merged)) {
+        console.warn(`Ignoring invalid merge policy for '${field}':`, override);
+        continue;
       }
 
-      const book = data[bookKey];
-
-      return {
-        title: book.title,
-        authors: book.authors || [],
-        description: book.notes || book.subtitle,
-        cover_url: book.cover?.large || book.cover?.medium,
-        publish_date: book.publish_date,
-        publishers: book.publishers?.map((p: any) => p.name),
-        number_of_pages: book.number_of_pages,
-        subjects: book.subjects?.map((s: any) => s.name)
-      };
-    } catch (error) {
-      console.error('Open Library fetch error:', error);
-      return null;
+      policy[field as MetadataField] = merged;
     }
+
+    return policy;
   }
 
-  // ========== GOOGLE BOOKS ==========
+  // ========== PROVIDERS ==========
+
+  /**
+   * Enabled providers with their settings, highest priority first
+   */
+  private async getProviders(): Promise<ConfiguredProvider[]> {
+    let stored: Record<string, Partial<MetadataProviderConfig>> | null = null;
 
-  private async fetchGoogleBooks(isbn: string): Promise<GoogleBooksData | null> {
     try {
-      const response = await fetch(
-        `${this.GOOGLE_BOOKS_API}/volumes?q=isbn:${isbn}`
-      );
+      stored = await this.env.CONFIG.get<Record<string, Partial<MetadataProviderConfig>>>(this.CONFIG_KEY, 'json');
+    } catch (error) {
+      console.warn('Invalid metadata provider config, using defaults:', error);
+    }
 
-      if (!response.ok) {
-        console.warn(`Google Books API error: ${response.status}`);
-        return null;
-      }
+    const configFor = (name: string): MetadataProviderConfig => ({
+      ...(DEFAULT_METADATA_PROVIDERS[name] || DEFAULT_METADATA_PROVIDERS.open_library),
+      ...stored?.[name]
+    });
 
-      const data = await response.json();
+    const configured: ConfiguredProvider[] = this.providers
+      ? this.providers.map(provider => ({ provider, config: { ...configFor(provider.name), enabled: true } }))
+      : Object.keys({ ...DEFAULT_METADATA_PROVIDERS, ...stored }).flatMap(name => {
+          const config = configFor(name);
+          const provider = config.enabled ? this.createProvider(name, config) : null;
+          return provider ? [{ provider, config }] : [];
+        });
 
-      if (!data.items || data.items.length === 0) {
-        console.warn(`No Google Books data for ISBN: ${isbn}`);
+    return configured.sort((a, b) => b.config.priority - a.config.priority);
+  }
+
+  private createProvider(name: string, config: MetadataProviderConfig): MetadataProvider | null {
+    switch (name) {
+      case 'open_library':
+        return new OpenLibraryProvider();
+      case 'google_books':
+        return new GoogleBooksProvider();
+      case 'local_catalogue':
+        return new LocalCatalogueProvider(this.env, config.options?.key);
+      case 'nyt_reviews':
+        // Optional - silently off without an API key
+        return this.env.NYT_API_KEY ? new NYTReviewsProvider(this.env) : null;
+      default:
+        console.warn(`Unknown metadata provider '${name}', skipping`);
         return null;
-      }
+    }
+  }
 
-      const book = data.items[0].volumeInfo;
-
-      return {
-        title: book.title,
-        authors: book.authors || [],
-        description: book.description,
-        cover_url: book.imageLinks?.large || book.imageLinks?.thumbnail?.replace('zoom=1', 'zoom=2'),
-        publishedDate: book.publishedDate,
-        publisher: book.publisher,
-        pageCount: book.pageCount,
-        categories: book.categories,
-        averageRating: book.averageRating,
-        ratingsCount: book.ratingsCount
-      };
+  /**
+   * Raw response from the cache or the provider; null if the provider has
+   * no such book or fails
+   */
+  private async fetchFromProvider(
+    { provider, config }: ConfiguredProvider,
+    isbn: string,
+    refresh?: boolean
+  ): Promise<unknown | null> {
+    try {
+      return await fetchThroughCache(this.db, provider, isbn, config, refresh);
     } catch (error) {
-      console.error('Google Books fetch error:', error);
+      console.warn(`Metadata provider '${provider.name}' failed for ISBN ${isbn}:`, error);
       return null;
     }
   }
+}
 
-  // ========== HELPER METHODS ==========
+// ========== CACHED FETCHING ==========
 
-  private extractAuthor(gb?: GoogleBooksData, ol?: OpenLibraryData): string {
-    if (gb?.authors && gb.authors.length > 0) {
-      return gb.authors.join(', ');
-    }
+/**
+ * Anything fetched per ISBN through the metadata_cache (metadata providers,
+ * market price sources); `name` is its cache key
+ */
+export interface CachedSource {
+  readonly name: string;
+  fetch(isbn: string, signal: AbortSignal): Promise<unknown | null>;
+}
 
-    if (ol?.authors && ol.authors.length > 0) {
-      return ol.authors.map(a => a.name).join(', ');
+/**
+ * Raw response from the cache or the source, with a timeout; null if the
+ * source has no such book. Throws if the source fails (failures aren't cached).
+ */
+export async function fetchThroughCache(
+  db: DatabaseService,
+  source: CachedSource,
+  isbn: string,
+  config: Pick<MetadataProviderConfig, 'timeout_ms' | 'cache_ttl_seconds'>,
+  refresh: boolean = false
+): Promise<unknown | null> {
+  if (!refresh) {
+    try {
+      const cached = await db.getMetadataCache(source.name, isbn);
+      if (cached) return cached.response;
+    } catch (error) {
+      console.warn(`Metadata cache read failed for '${source.name}':`, error);
     }
+  }
 
-    return 'Unknown Author';
+  let raw: unknown | null;
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  try {
+    raw = await Promise.race([
+      source.fetch(isbn, controller.signal),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+          controller.abort();
+          reject(new Error(`timed out after ${config.timeout_ms}ms`));
+        }, config.timeout_ms);
+      })
+    ]);
+  } finally {
+    clearTimeout(timer);
   }
 
-  private extractCoverUrl(gb?: GoogleBooksData, ol?: OpenLibraryData): string | undefined {
-    // Prefer high-quality cover
-    if (gb?.cover_url) return gb.cover_url;
-    if (ol?.cover_url) return ol.cover_url;
+  if (raw === null) {
+    console.warn(`No ${source.name} data for ISBN: ${isbn}`);
+  }
 
-    // Try to construct Open Library cover URL from ISBN if available
-    // This is a fallback that often works
-    return undefined;
+  try {
+    const ttl = raw === null ? Math.min(NOT_FOUND_TTL_SECONDS, config.cache_ttl_seconds) : config.cache_ttl_seconds;
+    await db.putMetadataCache(source.name, isbn, raw, ttl);
+  } catch (error) {
+    console.warn(`Metadata cache write failed for '${source.name}':`, error);
   }
 
-  private extractISBN13(gb?: GoogleBooksData, ol?: OpenLibraryData): string | undefined {
-    // Try to find ISBN-13 from industry identifiers in Google Books
-    if (gb) {
-      return undefined; // Could extract from volumeInfo.industryIdentifiers if needed
+  return raw;
+}
+
+// ========== MERGING ==========
+
+/**
+ * Merge provider records (highest priority first) field by field
+ */
+export function mergeRecords(
+  records: SourcedMetadataRecord[],
+  policy: MetadataMergePolicy
+): { record: MetadataRecord; provenance: MetadataProvenance } {
+  const record: Record<string, unknown> = {};
+  const provenance: MetadataProvenance = {};
+
+  for (const field of Object.keys(policy) as MetadataField[]) {
+    const { strategy, sources = [] } = policy[field];
+    const candidates = preferSources(records, sources).filter(candidate => hasValue(candidate[field]));
+
+    if (candidates.length === 0) continue;
+
+    if (strategy === 'union') {
+      const values = new Map<string, string>();
+      const contributors: string[] = [];
+
+      for (const candidate of candidates) {
+        let added = false;
+
+        for (const value of candidate[field] as string[]) {
+          const key = value.trim().toLowerCase();
+          if (!key || values.has(key) || values.size >= MAX_UNION_VALUES) continue;
+          values.set(key, value.trim());
+          added = true;
+        }
+
+        if (added) contributors.push(candidate.source);
+      }
+
+      record[field] = [...values.values()];
+      provenance[field] = { sources: contributors, strategy };
+      continue;
     }
-    return undefined;
+
+    // Ties go to the earlier (preferred) source
+    const chosen = strategy === 'longest'
+      ? candidates.reduce((best, candidate) =>
+          String(candidate[field]).length > String(best[field]).length ? candidate : best)
+      : candidates[0];
+
+    record[field] = chosen[field];
+    provenance[field] = { sources: [chosen.source], strategy };
   }
 
-  /**
-   * Calculate suggested sell price based on market data and condition
-   */
-  calculateSuggestedPrice(
-    costPrice: number,
-    condition: string,
-    marketPrices?: number[]
-  ): number {
-    // Simple markup calculation
-    // In production, this would be more sophisticated
-    const baseMarkup = 3.0; // 3x markup
-    let conditionMultiplier = 1.0;
-
-    switch (condition) {
-      case 'like_new':
-        conditionMultiplier = 1.2;
-        break;
-      case 'very_good':
-        conditionMultiplier = 1.1;
-        break;
-      case 'good':
-        conditionMultiplier = 1.0;
-        break;
-      case 'acceptable':
-        conditionMultiplier = 0.8;
-        break;
-    }
+  return { record: record as MetadataRecord, provenance };
+}
 
-    const calculatedPrice = costPrice * baseMarkup * conditionMultiplier;
+/**
+ * Records from the listed sources first (in that order), then the rest
+ */
+function preferSources(records: SourcedMetadataRecord[], sources: string[]): SourcedMetadataRecord[] {
+  const rank = (record: SourcedMetadataRecord) => {
+    const index = sources.indexOf(record.source);
+    return index === -1 ? sources.length : index;
+  };
 
-    // Round to nearest 0.99
-    const rounded = Math.ceil(calculatedPrice) - 0.01;
+  return [...records].sort((a, b) => rank(a) - rank(b));
+}
 
-    return Math.round(rounded * 100); // Convert to pence
-  }
+function isValidFieldPolicy(field: MetadataField, policy: Partial<MetadataFieldPolicy>): policy is MetadataFieldPolicy {
+  const strategies = LIST_FIELDS.includes(field)
+    ? ['priority', 'union']
+    : NUMBER_FIELDS.includes(field) ? ['priority'] : ['priority', 'longest'];
+
+  return strategies.includes(policy.strategy as string) &&
+    (policy.sources === undefined ||
+      (Array.isArray(policy.sources) && policy.sources.every(source => typeof source === 'string')));
+}
+
+/**
+ * Set and non-empty (empty strings and arrays count as missing)
+ */
+export function hasValue(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return value !== undefined && value !== null && value !== '';
 }
@@ -0,0 +1,119 @@
+import { Env, BookCondition, MarketPrice } from '../types';
+import { DatabaseService } from './database';
+import { fetchThroughCache } from './metadata';
+import { poundsToPence } from '../utils/helpers';
+
+/**
+ * Market Price Sources
+ * Each source looks up what an ISBN sells for elsewhere. Sources should
+ * return an empty list when they know nothing about a book and throw only
+ * on real failures; PricingService ignores sources that throw.
+ */
+
+export interface MarketPriceSource {
+  readonly name: string;
+
+  /** Prices in GBP pence for the given (normalized) ISBN */
+  fetchPrices(isbn: string): Promise<MarketPrice[]>;
+}
+
+const CONDITIONS: Array<BookCondition | 'new'> = ['new', 'like_new', 'very_good', 'good', 'acceptable'];
+
+// ========== GOOGLE BOOKS ==========
+
+/**
+ * New retail price from Google Play Books (UK store)
+ * Responses go through the metadata_cache, so every copy of an edition
+ * doesn't mean another lookup
+ */
+export class GoogleBooksPriceSource implements MarketPriceSource {
+  readonly name = 'google_books';
+  private readonly GOOGLE_BOOKS_API = 'https://www.googleapis.com/books/v1';
+  private readonly CACHE_NAME = 'google_books_prices'; // metadata_cache provider key
+  private readonly TIMEOUT_MS = 5000;
+  private readonly CACHE_TTL_SECONDS = 24 * 60 * 60; // prices move faster than metadata
+
+  private db: DatabaseService;
+
+  constructor(env: Env) {
+    this.db = new DatabaseService(env);
+  }
+
+  async fetchPrices(isbn: string): Promise<MarketPrice[]> {
+    const items = await fetchThroughCache(
+      this.db,
+      { name: this.CACHE_NAME, fetch: (_, signal) => this.fetchItems(isbn, signal) },
+      isbn,
+      { timeout_ms: this.TIMEOUT_MS, cache_ttl_seconds: this.CACHE_TTL_SECONDS }
+    );
+
+    return this.parsePrices((items as any[] | null) || []);
+  }
+
+  private async fetchItems(isbn: string, signal: AbortSignal): Promise<unknown[] | null> {
+    const response = await fetch(`${this.GOOGLE_BOOKS_API}/volumes?q=isbn:${isbn}&country=GB`, { signal });
+
+    if (!response.ok) {
+      throw new Error(`Google Books API error: ${response.status}`);
+    }
+
+    // Only the sale info is priced (and cached)
+    const data = await response.json<any>();
+    return data.items?.length ? data.items.map((item: any) => ({ saleInfo: item.saleInfo })) : null;
+  }
+
+  private parsePrices(items: any[]): MarketPrice[] {
+    const prices: MarketPrice[] = [];
+
+    for (const item of items) {
+      const saleInfo = item.saleInfo;
+      const offer = saleInfo?.retailPrice || saleInfo?.listPrice;
+
+      // No currency conversion - only GBP prices are comparable
+      if (offer?.currencyCode !== 'GBP' || !(offer.amount > 0)) continue;
+
+      prices.push({
+        source: this.name,
+        condition: 'new',
+        price: poundsToPence(offer.amount),
+        currency: 'GBP',
+        url: saleInfo.buyLink
+      });
+    }
+
+    return prices;
+  }
+}
+
+// ========== MANUAL ==========
+
+/**
+ * Prices recorded by staff (e.g. from charity shop or marketplace listings)
+ * CONFIG KV 'market_prices:<isbn>' holds a JSON array of
+ * { condition, price (pence), source?, url? }
+ */
+export class ManualPriceSource implements MarketPriceSource {
+  readonly name = 'manual';
+
+  constructor(private env: Env) {}
+
+  async fetchPrices(isbn: string): Promise<MarketPrice[]> {
+    const entries = await this.env.CONFIG.get<Array<Partial<MarketPrice>>>(`market_prices:${isbn}`, 'json');
+
+    if (!Array.isArray(entries)) return [];
+
+    return entries
+      .filter(entry =>
+        CONDITIONS.includes(entry.condition as BookCondition | 'new') &&
+        Number.isInteger(entry.price) &&
+        entry.price! > 0
+      )
+      .map(entry => ({
+        source: entry.source ? `${this.name}:${entry.source}` : this.name,
+        condition: entry.condition!,
+        price: entry.price!,
+        currency: 'GBP',
+        url: entry.url
+      }));
+  }
+}
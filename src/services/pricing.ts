@@ -0,0 +1,296 @@
+import {
+  Env,
+  BookCondition,
+  BookMetadata,
+  MarketPrice,
+  PriceSuggestion,
+  PricingRules,
+  PricingStep
+} from '../types';
+import { MarketPriceSource, GoogleBooksPriceSource, ManualPriceSource } from './pricing-sources';
+import { formatPrice, isInternalSKU } from '../utils/helpers';
+
+export const DEFAULT_PRICING_RULES: PricingRules = {
+  market_sources: ['manual', 'google_books'],
+  base_markup: 3,
+  used_to_new_ratio: 0.4,
+  condition_multipliers: {
+    like_new: 1.2,
+    very_good: 1.1,
+    good: 1.0,
+    acceptable: 0.8
+  },
+  min_ratings_count: 20,
+  high_rating: 4,
+  low_rating: 3,
+  rating_adjustment: 0.1,
+  long_book_pages: 600,
+  short_book_pages: 100,
+  page_count_adjustment: 0.1,
+  min_price: 299,
+  max_markup: 10,
+  charity_floor: 100,
+  round_to_99: true
+};
+
+// Rule keys by value type, for validating stored rules
+type RuleKey<T> = { [K in keyof PricingRules]: PricingRules[K] extends T ? K : never }[keyof PricingRules];
+
+export interface PricingInput {
+  cost_price: number; // in pence
+  condition: BookCondition;
+  metadata?: BookMetadata;
+  market_prices?: MarketPrice[];
+}
+
+/**
+ * Pricing Service
+ * Suggests a sell price for a copy from market prices (or a markup on cost
+ * when there are none), adjusted for condition, rating and page count, then
+ * held between the min price / charity floor and the max markup. Rules come
+ * from 'pricing_rules' in CONFIG KV, over DEFAULT_PRICING_RULES.
+ */
+export class PricingService {
+  private readonly CONFIG_KEY = 'pricing_rules';
+
+  /**
+   * @param sources Optional market price sources override (e.g. fixed prices in tests)
+   */
+  constructor(private env: Env, private sources?: MarketPriceSource[]) {}
+
+  /**
+   * Look up market prices for the ISBN (or SKU) and price the copy
+   */
+  async suggestPrice(isbn: string, input: Omit<PricingInput, 'market_prices'>): Promise<PriceSuggestion> {
+    const rules = await this.getRules();
+
+    // Without an ISBN there is nothing to look up - only staff-entered prices apply
+    const sources = isInternalSKU(isbn)
+      ? rules.market_sources.filter(name => name === 'manual')
+      : rules.market_sources;
+    const market_prices = await this.fetchMarketPrices(isbn, sources);
+
+    return calculatePrice({ ...input, market_prices }, rules);
+  }
+
+  async getRules(): Promise<PricingRules> {
+    let stored: Partial<PricingRules> | null = null;
+
+    try {
+      stored = await this.env.CONFIG.get<Partial<PricingRules>>(this.CONFIG_KEY, 'json');
+    } catch (error) {
+      console.warn('Invalid pricing rules, using defaults:', error);
+    }
+
+    return mergePricingRules(stored || {});
+  }
+
+  /**
+   * Query every source; a failing source is logged and skipped
+   */
+  async fetchMarketPrices(isbn: string, sourceNames: string[]): Promise<MarketPrice[]> {
+    const sources = this.sources || sourceNames
+      .map(name => this.createSource(name))
+      .filter((source): source is MarketPriceSource => source !== null);
+
+    const results = await Promise.allSettled(sources.map(source => source.fetchPrices(isbn)));
+    const prices: MarketPrice[] = [];
+
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        prices.push(...result.value);
+      } else {
+        console.warn(`Market price source '${sources[index].name}' failed:`, result.reason);
+      }
+    });
+
+    return prices;
+  }
+
+  private createSource(name: string): MarketPriceSource | null {
+    switch (name) {
+      case 'google_books':
+        return new GoogleBooksPriceSource(this.env);
+      case 'manual':
+        return new ManualPriceSource(this.env);
+      default:
+        console.warn(`Unknown market price source '${name}', skipping`);
+        return null;
+    }
+  }
+}
+
+// ========== PRICE CALCULATION ==========
+
+/**
+ * Work out a suggested price, recording each step
+ * Pure - everything it needs is in the input and rules
+ */
+export function calculatePrice(input: PricingInput, rules: PricingRules): PriceSuggestion {
+  const steps: PricingStep[] = [];
+  const cost = input.cost_price;
+  const marketPrices = (input.market_prices || []).filter(
+    market => market.currency === 'GBP' && market.price > 0
+  );
+
+  let price: number;
+  let basis: PriceSuggestion['basis'];
+
+  // 1. Base: market median as a 'good' used copy, else a markup on cost
+  if (marketPrices.length > 0) {
+    basis = 'market';
+    price = Math.round(median(marketPrices.map(market => asGoodCopy(market, rules))));
+    steps.push({
+      rule: 'market',
+      detail: `Median of ${marketPrices.length} market price(s), as a 'good' used copy`,
+      price
+    });
+  } else {
+    basis = 'markup';
+    price = Math.round(cost * rules.base_markup);
+    steps.push({
+      rule: 'markup',
+      detail: `No market prices - ${formatPrice(cost)} cost x ${rules.base_markup}`,
+      price
+    });
+  }
+
+  // 2. Adjustments
+  const adjust = (rule: PricingStep['rule'], multiplier: number, detail: string) => {
+    if (multiplier === 1) return;
+    price = Math.round(price * multiplier);
+    steps.push({ rule, detail: `${detail} (x${multiplier})`, price });
+  };
+
+  adjust('condition', rules.condition_multipliers[input.condition] ?? 1, `Condition: ${input.condition}`);
+
+  const rating = input.metadata?.average_rating;
+  const ratingsCount = input.metadata?.ratings_count || 0;
+  if (rating !== undefined && ratingsCount >= rules.min_ratings_count) {
+    if (rating >= rules.high_rating) {
+      adjust('rating', 1 + rules.rating_adjustment, `Highly rated: ${rating} from ${ratingsCount} ratings`);
+    } else if (rating < rules.low_rating) {
+      adjust('rating', 1 - rules.rating_adjustment, `Poorly rated: ${rating} from ${ratingsCount} ratings`);
+    }
+  }
+
+  const pages = input.metadata?.page_count;
+  if (pages && pages >= rules.long_book_pages) {
+    adjust('page_count', 1 + rules.page_count_adjustment, `Long book: ${pages} pages`);
+  } else if (pages && pages < rules.short_book_pages) {
+    adjust('page_count', 1 - rules.page_count_adjustment, `Short book: ${pages} pages`);
+  }
+
+  // 3. Limits - the floors win over the ceiling
+  const ceiling = Math.round(cost * rules.max_markup);
+  const floor = Math.max(rules.min_price, cost + rules.charity_floor);
+
+  if (price > ceiling) {
+    price = ceiling;
+    steps.push({ rule: 'max_markup', detail: `Capped at ${rules.max_markup}x cost`, price });
+  }
+
+  if (price < rules.min_price) {
+    price = rules.min_price;
+    steps.push({ rule: 'min_price', detail: `Raised to the ${formatPrice(rules.min_price)} minimum`, price });
+  }
+
+  if (price < cost + rules.charity_floor) {
+    price = cost + rules.charity_floor;
+    steps.push({
+      rule: 'charity_floor',
+      detail: `Raised so each sale donates at least ${formatPrice(rules.charity_floor)}`,
+      price
+    });
+  }
+
+  // 4. Nearest .99, staying within the limits
+  if (rules.round_to_99) {
+    let rounded = roundTo99(price);
+
+    if (rounded < floor) {
+      rounded += 100;
+    } else if (rounded > ceiling && rounded - 100 >= floor) {
+      rounded -= 100;
+    }
+
+    if (rounded !== price) {
+      price = rounded;
+      steps.push({ rule: 'rounding', detail: 'Rounded to .99', price });
+    }
+  }
+
+  return { price, basis, market_prices: marketPrices, steps };
+}
+
+/**
+ * Fill gaps and drop invalid values in stored rules
+ */
+export function mergePricingRules(stored: Partial<PricingRules>): PricingRules {
+  const rules: PricingRules = {
+    ...DEFAULT_PRICING_RULES,
+    condition_multipliers: { ...DEFAULT_PRICING_RULES.condition_multipliers }
+  };
+
+  for (const key of Object.keys(DEFAULT_PRICING_RULES) as Array<keyof PricingRules>) {
+    const value: unknown = stored[key];
+    if (value === undefined) continue;
+
+    if (isNumericRule(key) && isNonNegative(value)) {
+      rules[key] = value;
+    } else if (isBooleanRule(key) && typeof value === 'boolean') {
+      rules[key] = value;
+    } else if (key === 'market_sources' && Array.isArray(value) && value.every(name => typeof name === 'string')) {
+      rules.market_sources = value as string[];
+    } else if (key === 'condition_multipliers' && value && typeof value === 'object') {
+      for (const [condition, multiplier] of Object.entries(value)) {
+        if (condition in rules.condition_multipliers && isNonNegative(multiplier)) {
+          rules.condition_multipliers[condition as BookCondition] = multiplier;
+        }
+      }
+    } else {
+      console.warn(`Ignoring invalid pricing rule '${key}':`, value);
+    }
+  }
+
+  return rules;
+}
+
+// ========== HELPER FUNCTIONS ==========
+
+/**
+ * What a market price suggests a 'good' used copy is worth
+ */
+function asGoodCopy(market: MarketPrice, rules: PricingRules): number {
+  if (market.condition === 'new') {
+    return market.price * rules.used_to_new_ratio;
+  }
+
+  return market.price / (rules.condition_multipliers[market.condition] || 1);
+}
+
+/**
+ * Nearest price ending in 99p (never below 99p)
+ */
+function roundTo99(pence: number): number {
+  return Math.max(Math.round((pence + 1) / 100), 1) * 100 - 1;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function isNumericRule(key: keyof PricingRules): key is RuleKey<number> {
+  return typeof DEFAULT_PRICING_RULES[key] === 'number';
+}
+
+function isBooleanRule(key: keyof PricingRules): key is RuleKey<boolean> {
+  return typeof DEFAULT_PRICING_RULES[key] === 'boolean';
+}
+
+function isNonNegative(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
@@ -0,0 +1,143 @@
+import { Env, Book, BookListing, SimilarBook, SimilarityReason } from '../types';
+import { DatabaseService } from './database';
+import { EmbeddingService } from './embeddings';
+import { BookstoreError } from '../utils/helpers';
+import { toListings } from '../utils/listings';
+
+// Signal weights - a book matching on everything scores 1
+const WEIGHTS = {
+  author: 0.25,
+  similar_to: 0.1,
+  themes: 0.2,
+  atmosphere: 0.1,
+  categories: 0.1,
+  embedding: 0.25
+};
+
+/**
+ * Recommendation Service
+ * "More like this": gathers live, in-stock copies of other editions that
+ * share an author, category, theme or atmosphere (from D1) or sit close in
+ * embedding space (from the vector index), groups them into listings, then
+ * scores each signal and explains the score.
+ */
+export class RecommendationService {
+  private readonly CANDIDATE_LIMIT = 100;
+  private readonly MIN_EMBEDDING_SCORE = 0.3; // below this a vector match is noise
+
+  private db: DatabaseService;
+  private embeddings: EmbeddingService;
+
+  constructor(env: Env) {
+    this.db = new DatabaseService(env);
+    this.embeddings = new EmbeddingService(env);
+  }
+
+  /**
+   * Books similar to the given copy or edition (listing ID), best first
+   * Works for sold books too, so their pages can point somewhere useful
+   */
+  async getSimilarBooks(bookId: string, limit: number = 6): Promise<SimilarBook[]> {
+    const book = await this.db.getBookOrListingCopy(bookId);
+
+    if (!book || (book.status !== 'live' && book.status !== 'sold')) {
+      throw new BookstoreError('Book not found', 404);
+    }
+
+    const candidates: Book[] = await this.db.findRelatedBooks(book, this.CANDIDATE_LIMIT);
+    const candidateEditions = new Set(candidates.map(candidate => candidate.edition_id));
+
+    // Embedding neighbours are a bonus - attribute matches still stand without them
+    const embeddingScores = new Map<string, number>();
+    try {
+      const matches = (await this.embeddings.searchByBook(book, this.CANDIDATE_LIMIT))
+        .filter(match => match.score >= this.MIN_EMBEDDING_SCORE);
+
+      for (const match of matches) {
+        embeddingScores.set(match.id, match.score);
+      }
+
+      // Vector IDs are edition IDs
+      const missingIds = matches.map(match => match.id).filter(id => !candidateEditions.has(id));
+      candidates.push(...await this.db.getAvailableBooksByEditionIds(missingIds));
+    } catch (error) {
+      console.warn(`Embedding similarity unavailable for ${bookId}:`, error);
+    }
+
+    return toListings(candidates)
+      .map(listing => this.score(book, listing, embeddingScores.get(listing.id)))
+      .filter(result => result.similarity > 0)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit);
+  }
+
+  // ========== SCORING ==========
+
+  private score(book: Book, candidate: BookListing, embeddingScore?: number): SimilarBook {
+    const reasons: SimilarityReason[] = [];
+
+    if (normalize(book.author) === normalize(candidate.author)) {
+      reasons.push({
+        signal: 'author',
+        score: WEIGHTS.author,
+        detail: `Also by ${candidate.author}`
+      });
+    } else if (this.toSet(book.ai_enrichment?.similar_to).has(normalize(candidate.author))) {
+      reasons.push({
+        signal: 'similar_to',
+        score: WEIGHTS.similar_to,
+        detail: `${candidate.author} is a similar author`
+      });
+    }
+
+    const lists: Array<['themes' | 'atmosphere' | 'categories', string[] | undefined, string[] | undefined, string]> = [
+      ['themes', book.ai_enrichment?.themes, candidate.ai_enrichment?.themes, 'Shared themes'],
+      ['atmosphere', book.ai_enrichment?.atmosphere, candidate.ai_enrichment?.atmosphere, 'Similar atmosphere'],
+      ['categories', book.metadata?.categories, candidate.metadata?.categories, 'Same categories']
+    ];
+
+    for (const [signal, ours, theirs, label] of lists) {
+      const shared = this.sharedValues(ours, theirs);
+      if (shared.length === 0) continue;
+
+      // Overlap relative to the shorter list, so one-tag books aren't penalised
+      const overlap = shared.length / Math.min(this.toSet(ours).size, this.toSet(theirs).size);
+      reasons.push({
+        signal,
+        score: round(WEIGHTS[signal] * overlap),
+        detail: `${label}: ${shared.join(', ')}`
+      });
+    }
+
+    if (embeddingScore !== undefined) {
+      reasons.push({
+        signal: 'embedding',
+        score: round(WEIGHTS.embedding * embeddingScore),
+        detail: `Similar overall feel (${Math.round(embeddingScore * 100)}% match)`
+      });
+    }
+
+    return {
+      ...candidate,
+      similarity: round(reasons.reduce((sum, reason) => sum + reason.score, 0)),
+      reasons
+    };
+  }
+
+  private sharedValues(ours?: string[], theirs?: string[]): string[] {
+    const theirSet = this.toSet(theirs);
+    return [...this.toSet(ours)].filter(value => theirSet.has(value));
+  }
+
+  private toSet(values?: string[]): Set<string> {
+    return new Set((values || []).map(normalize).filter(Boolean));
+  }
+}
+
+function normalize(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
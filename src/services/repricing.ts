@@ -0,0 +1,190 @@
+import { Env, Book, RepricingChange, RepricingRules, RepricingRun, RepricingTier } from '../types';
+import { DatabaseService } from './database';
+import { AuditService } from './audit';
+
+export const DEFAULT_REPRICING_RULES: RepricingRules = {
+  enabled: true,
+  tiers: [
+    { after_days: 60, discount: 0.1 },
+    { after_days: 120, discount: 0.25 }
+  ],
+  min_profit: 100,
+  round_to_99: true
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Repricing Service
+ * Marks down copies that have been live a long time: each tier takes a
+ * larger discount off the copy's base price (its price before markdowns),
+ * never going below cost_price plus min_profit. Rules come from
+ * 'repricing_rules' in CONFIG KV; exempt copies are left alone.
+ */
+export class RepricingService {
+  private readonly CONFIG_KEY = 'repricing_rules';
+  private readonly RUN_HOUR_UTC = 3; // CRON_DAILY_REPRICING
+
+  private db: DatabaseService;
+  private audit: AuditService;
+
+  constructor(private env: Env) {
+    this.db = new DatabaseService(env);
+    this.audit = new AuditService(env);
+  }
+
+  /**
+   * The markdowns the next scheduled run would make, without applying them
+   */
+  async preview(): Promise<RepricingRun> {
+    return this.plan(this.nextRunAt(new Date()));
+  }
+
+  /**
+   * Apply the markdowns due now; returns the ones applied
+   */
+  async run(): Promise<RepricingRun> {
+    const planned = await this.plan(new Date());
+    const applied: RepricingChange[] = [];
+
+    for (const change of planned.changes) {
+      const { book_id, old_price, new_price, base_price, markdown } = change;
+      const details = { days_live: change.days_live, markdown, floored: change.floored };
+
+      if (!(await this.db.applyMarkdown({ book_id, old_price, new_price, base_price, markdown, details }))) {
+        console.log(`Repricing skipped ${book_id} - changed or reserved since planning`);
+        continue;
+      }
+
+      await this.audit.record('reprice_book', 'book', book_id, undefined, {
+        ...details,
+        old_price,
+        new_price,
+        base_price
+      });
+      applied.push(change);
+    }
+
+    console.log(`Repricing marked down ${applied.length} of ${planned.changes.length} planned copies`);
+
+    return { ...planned, changes: applied };
+  }
+
+  async getRules(): Promise<RepricingRules> {
+    let stored: Partial<RepricingRules> | null = null;
+
+    try {
+      stored = await this.env.CONFIG.get<Partial<RepricingRules>>(this.CONFIG_KEY, 'json');
+    } catch (error) {
+      console.warn('Invalid repricing rules, using defaults:', error);
+    }
+
+    return this.mergeRules(stored || {});
+  }
+
+  // ========== PLANNING ==========
+
+  private async plan(asOf: Date): Promise<RepricingRun> {
+    const rules = await this.getRules();
+    const run: RepricingRun = { run_at: asOf.toISOString(), rules, changes: [] };
+
+    if (!rules.enabled || rules.tiers.length === 0) {
+      return run;
+    }
+
+    // Nothing younger than the first tier can be due
+    const liveBefore = new Date(asOf.getTime() - rules.tiers[0].after_days * DAY_MS).toISOString();
+    const books = await this.db.listRepricingCandidates(liveBefore);
+
+    for (const book of books) {
+      const change = this.planChange(book, rules, asOf);
+      if (change) run.changes.push(change);
+    }
+
+    return run;
+  }
+
+  private planChange(book: Book, rules: RepricingRules, asOf: Date): RepricingChange | null {
+    const daysLive = Math.floor((asOf.getTime() - Date.parse(book.live_at!)) / DAY_MS);
+    const tier = [...rules.tiers].reverse().find(t => daysLive >= t.after_days);
+
+    // Each tier's discount is taken once
+    if (!tier || tier.discount <= book.markdown) return null;
+
+    // A price set by hand clears base_price; it already carries the current markdown
+    const basePrice = book.base_price ?? Math.round(book.sell_price / (1 - book.markdown));
+    const floor = book.cost_price + rules.min_profit;
+
+    let newPrice = Math.round(basePrice * (1 - tier.discount));
+    if (rules.round_to_99) {
+      newPrice = Math.floor((newPrice + 1) / 100) * 100 - 1;
+    }
+
+    const floored = newPrice < floor;
+    if (floored) newPrice = floor;
+
+    if (newPrice >= book.sell_price) return null;
+
+    return {
+      book_id: book.id,
+      isbn: book.isbn,
+      title: book.title,
+      days_live: daysLive,
+      base_price: basePrice,
+      old_price: book.sell_price,
+      new_price: newPrice,
+      markdown: tier.discount,
+      floored
+    };
+  }
+
+  /**
+   * Next daily run (RUN_HOUR_UTC) after the given time
+   */
+  private nextRunAt(from: Date): Date {
+    const next = new Date(from);
+    next.setUTCHours(this.RUN_HOUR_UTC, 0, 0, 0);
+
+    if (next <= from) {
+      next.setUTCDate(next.getUTCDate() + 1);
+    }
+
+    return next;
+  }
+
+  /**
+   * Fill gaps and drop invalid values in stored rules; tiers sorted by age
+   */
+  private mergeRules(stored: Partial<RepricingRules>): RepricingRules {
+    const rules: RepricingRules = { ...DEFAULT_REPRICING_RULES };
+
+    if (typeof stored.enabled === 'boolean') rules.enabled = stored.enabled;
+    if (typeof stored.round_to_99 === 'boolean') rules.round_to_99 = stored.round_to_99;
+
+    if (stored.min_profit !== undefined) {
+      if (Number.isInteger(stored.min_profit) && stored.min_profit >= 0) {
+        rules.min_profit = stored.min_profit;
+      } else {
+        console.warn('Ignoring invalid repricing min_profit:', stored.min_profit);
+      }
+    }
+
+    if (stored.tiers !== undefined) {
+      const valid = Array.isArray(stored.tiers) && stored.tiers.every(
+        (tier: RepricingTier) =>
+          Number.isFinite(tier?.after_days) && tier.after_days >= 0 &&
+          Number.isFinite(tier?.discount) && tier.discount > 0 && tier.discount < 1
+      );
+
+      if (valid) {
+        rules.tiers = stored.tiers;
+      } else {
+        console.warn('Ignoring invalid repricing tiers:', stored.tiers);
+      }
+    }
+
+    rules.tiers = [...rules.tiers].sort((a, b) => a.after_days - b.after_days);
+
+    return rules;
+  }
+}
@@ -0,0 +1,90 @@
+import { Env, BookReservation } from '../types';
+import { DatabaseService } from './database';
+import { StripeService } from './stripe';
+import { BookstoreError } from '../utils/helpers';
+
+/**
+ * Reservation Service
+ * Holds a single copy while a customer pays so it can't be sold twice.
+ * Holds are hidden from public listings until they convert or lapse.
+ */
+export class ReservationService {
+  private readonly HOLD_TTL_MS = 15 * 60 * 1000; // 15 minutes
+
+  private db: DatabaseService;
+
+  constructor(private env: Env) {
+    this.db = new DatabaseService(env);
+  }
+
+  /**
+   * Place a hold on a book (409 if it is already held or unavailable)
+   */
+  async hold(bookId: string): Promise<BookReservation> {
+    // Lapsed holds the sweeper hasn't reached yet shouldn't block a new one
+    await this.expireStale(bookId);
+
+    const expiresAt = new Date(Date.now() + this.HOLD_TTL_MS).toISOString();
+    const reservation = await this.db.createReservation(bookId, expiresAt);
+
+    if (!reservation) {
+      throw new BookstoreError('Book is currently reserved by another customer', 409);
+    }
+
+    return reservation;
+  }
+
+  async attachOrder(reservationId: string, orderId: string): Promise<void> {
+    await this.db.attachReservationOrder(reservationId, orderId);
+  }
+
+  async release(reservationId: string): Promise<void> {
+    await this.db.releaseReservation(reservationId);
+  }
+
+  /**
+   * Release the hold belonging to an order (e.g. after a failed payment)
+   */
+  async releaseForOrder(orderId: string): Promise<void> {
+    const reservation = await this.db.getActiveReservationForOrder(orderId);
+
+    if (reservation) {
+      await this.db.releaseReservation(reservation.id);
+      console.log(`Released hold on book ${reservation.book_id} (order ${orderId})`);
+    }
+  }
+
+  /**
+   * Expire lapsed holds (run from the scheduled handler, and for one book
+   * before it is held again)
+   * Their pending orders are failed and, when Stripe is configured,
+   * the PaymentIntents cancelled so a late payment can't go through
+   */
+  async expireStale(bookId?: string): Promise<number> {
+    const expired = await this.db.expireReservations(bookId);
+
+    for (const reservation of expired) {
+      if (!reservation.order_id) continue;
+
+      try {
+        const order = await this.db.getOrder(reservation.order_id);
+        if (!order || order.payment_status !== 'pending') continue;
+
+        await this.db.updateOrderPaymentStatus(order.id, 'failed');
+
+        if (this.env.STRIPE_SECRET_KEY) {
+          const stripe = new StripeService(this.env);
+          await stripe.cancelPaymentIntent(order.stripe_payment_id);
+        }
+      } catch (error) {
+        console.error(`Failed to clean up expired hold ${reservation.id}:`, error);
+      }
+    }
+
+    if (expired.length > 0) {
+      console.log(`Expired ${expired.length} book reservation(s)`);
+    }
+
+    return expired.length;
+  }
+}
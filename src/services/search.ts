@@ -0,0 +1,317 @@
+import {
+  Env,
+  Book,
+  SearchFilters,
+  SearchFacets,
+  SearchResult,
+  SearchResponse,
+  SearchFilterGroup,
+  FacetBucket,
+  FacetCount
+} from '../types';
+import { DatabaseService } from './database';
+import { EmbeddingService } from './embeddings';
+import { parseSearchQuery } from '../utils/search-query';
+import { toListings } from '../utils/listings';
+
+// One edition and its available copies
+interface Candidate {
+  edition_id: string;
+  copies: Book[];
+  score: number;
+  keyword_rank?: number;
+  semantic_score?: number;
+  snippet?: string;
+}
+
+// Facet buckets - prices in pence
+const PRICE_BUCKETS: FacetBucket[] = [
+  ['under_5', 0, 500],
+  ['5_to_10', 500, 1000],
+  ['10_to_20', 1000, 2000],
+  ['20_plus', 2000, Infinity]
+];
+
+const SHOCK_BUCKETS: FacetBucket[] = [
+  ['low', 1, 4],
+  ['medium', 4, 7],
+  ['high', 7, 11]
+];
+
+/**
+ * Hybrid Search Service
+ * Fuses FTS5 BM25 and embedding similarity with reciprocal rank fusion,
+ * then applies facet filters and counts facets over the candidate set
+ * (the best-ranked CANDIDATE_LIMIT matches of each kind). Browsing without
+ * a query filters, counts and pages in SQL over the whole catalogue.
+ * Ranking is per edition; filters apply to copies, and a listing shows the
+ * copies that pass. Facet counts are disjunctive: each facet is counted
+ * with every other filter applied but not its own, so shoppers can see
+ * what widening a filter would add. Counts are of listings, not copies.
+ */
+export class SearchService {
+  private readonly CANDIDATE_LIMIT = 200;
+  private readonly RRF_K = 60;
+  private readonly MIN_SEMANTIC_SCORE = 0.3; // below this a vector match is noise
+  private readonly MAX_CATEGORY_FACETS = 20;
+
+  private db: DatabaseService;
+  private embeddings: EmbeddingService;
+
+  constructor(env: Env) {
+    this.db = new DatabaseService(env);
+    this.embeddings = new EmbeddingService(env);
+  }
+
+  /**
+   * Search live, in-stock books
+   * Without a query, every listing passing the filters is returned, newest first
+   */
+  async search(
+    query: string | undefined,
+    filters: SearchFilters,
+    limit: number = 20,
+    offset: number = 0
+  ): Promise<SearchResponse> {
+    if (!query) {
+      return this.browse(filters, limit, offset);
+    }
+
+    const { candidates, truncated } = await this.getHybridCandidates(query);
+
+    const matches = candidates
+      .map(candidate => ({
+        ...candidate,
+        copies: candidate.copies.filter(book => this.matchesFilters(book, filters))
+      }))
+      .filter(candidate => candidate.copies.length > 0);
+
+    const results: SearchResult[] = matches
+      .slice(offset, offset + limit)
+      .map(candidate => ({
+        ...toListings(candidate.copies)[0],
+        score: candidate.score,
+        keyword_rank: candidate.keyword_rank,
+        semantic_score: candidate.semantic_score,
+        snippet: candidate.snippet
+      }));
+
+    return {
+      query,
+      results,
+      total: matches.length,
+      facets: this.formatFacets(this.countFacets(candidates, filters)),
+      truncated
+    };
+  }
+
+  private async browse(filters: SearchFilters, limit: number, offset: number): Promise<SearchResponse> {
+    const { editions, total } = await this.db.browseSearchEditions(filters, limit, offset);
+    const facets = await this.db.countSearchFacets(filters, {
+      price_range: PRICE_BUCKETS,
+      shock_factor: SHOCK_BUCKETS
+    });
+
+    return {
+      results: editions.map(copies => ({ ...toListings(copies)[0], score: 0 })),
+      total,
+      facets: this.formatFacets(facets),
+      truncated: false
+    };
+  }
+
+  // ========== CANDIDATES ==========
+
+  /**
+   * Ranked candidates; truncated if either side hit CANDIDATE_LIMIT, so
+   * lower-ranked matches were left out
+   */
+  private async getHybridCandidates(query: string): Promise<{ candidates: Candidate[]; truncated: boolean }> {
+    const candidates = new Map<string, Candidate>();
+    const parsed = parseSearchQuery(query);
+
+    // Rows are copies in BM25 order - rank editions by first appearance
+    const keywordMatches = await this.db.searchBooksByKeyword(parsed.match, this.CANDIDATE_LIMIT);
+    let truncated = keywordMatches.length >= this.CANDIDATE_LIMIT;
+    for (const { book, snippet } of keywordMatches) {
+      const existing = candidates.get(book.edition_id);
+      if (existing) {
+        existing.copies.push(book);
+        continue;
+      }
+
+      const rank = candidates.size + 1;
+      candidates.set(book.edition_id, {
+        edition_id: book.edition_id,
+        copies: [book],
+        score: 1 / (this.RRF_K + rank),
+        keyword_rank: rank,
+        snippet
+      });
+    }
+
+    // Semantic side is best-effort - keyword results still stand without it
+    try {
+      const vectorMatches = (await this.embeddings.searchByText(parsed.text, this.CANDIDATE_LIMIT))
+        .filter(match => match.score >= this.MIN_SEMANTIC_SCORE);
+      truncated ||= vectorMatches.length >= this.CANDIDATE_LIMIT;
+
+      // Vector IDs are edition IDs
+      const missingIds = vectorMatches
+        .map(match => match.id)
+        .filter(id => !candidates.has(id));
+      const semanticCopies = new Map<string, Book[]>();
+      for (const book of await this.db.getAvailableBooksByEditionIds(missingIds)) {
+        semanticCopies.set(book.edition_id, [...(semanticCopies.get(book.edition_id) || []), book]);
+      }
+
+      vectorMatches.forEach((match, index) => {
+        const contribution = 1 / (this.RRF_K + index + 1);
+        const existing = candidates.get(match.id);
+
+        if (existing) {
+          existing.score += contribution;
+          existing.semantic_score = match.score;
+          return;
+        }
+
+        // Sold, reserved or not live
+        const copies = semanticCopies.get(match.id);
+        if (!copies) return;
+
+        candidates.set(match.id, {
+          edition_id: match.id,
+          copies,
+          score: contribution,
+          semantic_score: match.score
+        });
+      });
+    } catch (error) {
+      console.warn('Semantic search failed, using keyword results only:', error);
+    }
+
+    return {
+      candidates: [...candidates.values()].sort((a, b) => b.score - a.score),
+      truncated
+    };
+  }
+
+  // ========== FILTERS ==========
+
+  /**
+   * In-memory equivalent of DatabaseService's search filters, for candidates
+   * @param skip Filter group to ignore (used for disjunctive facet counts)
+   */
+  private matchesFilters(book: Book, filters: SearchFilters, skip?: SearchFilterGroup): boolean {
+    const enrichment = book.ai_enrichment;
+
+    if (skip !== 'condition' && filters.condition?.length) {
+      if (!filters.condition.includes(book.condition)) return false;
+    }
+
+    if (skip !== 'price_range') {
+      if (filters.min_price !== undefined && book.sell_price < filters.min_price) return false;
+      if (filters.max_price !== undefined && book.sell_price > filters.max_price) return false;
+    }
+
+    if (skip !== 'categories' && filters.categories?.length) {
+      const categories = this.normalizeList(book.metadata?.categories);
+      if (!filters.categories.some(category => categories.includes(category))) return false;
+    }
+
+    if (skip !== 'pace' && filters.pace?.length) {
+      if (!enrichment?.pace || !filters.pace.includes(enrichment.pace)) return false;
+    }
+
+    if (skip !== 'emotional_tone') {
+      const tones = this.normalizeList(enrichment?.emotional_tone);
+
+      if (filters.emotional_tone?.length && !filters.emotional_tone.some(tone => tones.includes(tone))) {
+        return false;
+      }
+      if (filters.exclude_tone?.some(tone => tones.includes(tone))) {
+        return false;
+      }
+    }
+
+    if (skip !== 'shock_factor') {
+      const shock = enrichment?.shock_factor;
+
+      // Unknown shock factor can't satisfy a shock filter
+      if (filters.min_shock_factor !== undefined && (shock === undefined || shock < filters.min_shock_factor)) {
+        return false;
+      }
+      if (filters.max_shock_factor !== undefined && (shock === undefined || shock > filters.max_shock_factor)) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  // ========== FACETS ==========
+
+  private countFacets(candidates: Candidate[], filters: SearchFilters): Record<SearchFilterGroup, FacetCount[]> {
+    const count = (group: SearchFilterGroup, valuesOf: (book: Book) => string[]): FacetCount[] => {
+      const counts = new Map<string, number>();
+
+      for (const { copies } of candidates) {
+        const values = new Set(
+          copies
+            .filter(book => this.matchesFilters(book, filters, group))
+            .flatMap(valuesOf)
+        );
+
+        for (const value of values) {
+          counts.set(value, (counts.get(value) || 0) + 1);
+        }
+      }
+
+      return [...counts.entries()].map(([value, count]) => ({ value, count }));
+    };
+
+    return {
+      condition: count('condition', book => [book.condition]),
+      price_range: count('price_range', book => this.bucket(PRICE_BUCKETS, book.sell_price)),
+      categories: count('categories', book => this.normalizeList(book.metadata?.categories)),
+      pace: count('pace', book => (book.ai_enrichment?.pace ? [book.ai_enrichment.pace] : [])),
+      emotional_tone: count('emotional_tone', book => this.normalizeList(book.ai_enrichment?.emotional_tone)),
+      shock_factor: count('shock_factor', book => this.bucket(SHOCK_BUCKETS, book.ai_enrichment?.shock_factor))
+    };
+  }
+
+  /**
+   * Order facet counts for display: most common first, ranges in range order
+   */
+  private formatFacets(counts: Record<SearchFilterGroup, FacetCount[]>): SearchFacets {
+    const byCount = (facet: FacetCount[]) =>
+      [...facet].sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+
+    return {
+      condition: byCount(counts.condition),
+      price_range: this.orderBuckets(counts.price_range, PRICE_BUCKETS),
+      categories: byCount(counts.categories).slice(0, this.MAX_CATEGORY_FACETS),
+      pace: byCount(counts.pace),
+      emotional_tone: byCount(counts.emotional_tone),
+      shock_factor: this.orderBuckets(counts.shock_factor, SHOCK_BUCKETS)
+    };
+  }
+
+  private bucket(buckets: FacetBucket[], value?: number): string[] {
+    if (value === undefined) return [];
+    const match = buckets.find(([, min, max]) => value >= min && value < max);
+    return match ? [match[0]] : [];
+  }
+
+  /**
+   * Range facets read best in range order rather than by count
+   */
+  private orderBuckets(counts: FacetCount[], buckets: FacetBucket[]): FacetCount[] {
+    const labels = buckets.map(([label]) => label);
+    return [...counts].sort((a, b) => labels.indexOf(a.value) - labels.indexOf(b.value));
+  }
+
+  private normalizeList(values?: string[]): string[] {
+    return (values || []).map(value => value.trim().toLowerCase()).filter(Boolean);
+  }
+}
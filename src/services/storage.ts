@@ -50,6 +50,21 @@ export class StorageService {
     }
   }
 
+  /**
+   * Upload a cover photo taken by staff (manually catalogued books)
+   */
+  async uploadCoverImage(editionId: string, file: File): Promise<string> {
+    const key = `covers/${editionId}${this.getFileExtension(file.type)}`;
+
+    await this.env.ASSETS.put(key, await file.arrayBuffer(), {
+      httpMetadata: {
+        contentType: file.type
+      }
+    });
+
+    return this.getPublicUrl(key);
+  }
+
   /**
    * Upload a file from request (for receipts, etc.)
    */
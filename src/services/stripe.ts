@@ -0,0 +1,172 @@
+import { Env, StripeEvent } from '../types';
+import { BookstoreError } from '../utils/helpers';
+
+export interface StripePaymentIntent {
+  id: string;
+  client_secret: string;
+  amount: number;
+  currency: string;
+  status: string;
+  metadata: Record<string, string>;
+}
+
+/**
+ * Stripe API Service
+ * Thin REST client for the Stripe endpoints we use (no SDK in Workers)
+ * STRIPE_API_BASE can point at a local Stripe stand-in for testing
+ */
+export class StripeService {
+  private readonly DEFAULT_API_BASE = 'https://api.stripe.com';
+  private readonly WEBHOOK_TOLERANCE_SECONDS = 300;
+
+  constructor(private env: Env) {}
+
+  /**
+   * Create a PaymentIntent for a single purchase
+   */
+  async createPaymentIntent(params: {
+    amount: number; // in pence
+    currency: string;
+    metadata: Record<string, string>;
+    receipt_email?: string;
+    idempotency_key?: string;
+  }): Promise<StripePaymentIntent> {
+    const form = new URLSearchParams();
+    form.set('amount', String(params.amount));
+    form.set('currency', params.currency);
+    form.set('automatic_payment_methods[enabled]', 'true');
+
+    if (params.receipt_email) {
+      form.set('receipt_email', params.receipt_email);
+    }
+
+    for (const [key, value] of Object.entries(params.metadata)) {
+      form.set(`metadata[${key}]`, value);
+    }
+
+    return this.request<StripePaymentIntent>(
+      'POST',
+      '/v1/payment_intents',
+      form,
+      params.idempotency_key
+    );
+  }
+
+  /**
+   * Cancel a PaymentIntent that will never be completed
+   */
+  async cancelPaymentIntent(paymentIntentId: string): Promise<StripePaymentIntent> {
+    return this.request<StripePaymentIntent>(
+      'POST',
+      `/v1/payment_intents/${encodeURIComponent(paymentIntentId)}/cancel`
+    );
+  }
+
+  /**
+   * Verify a webhook's Stripe-Signature header and parse the event
+   * Header format: t=<unix seconds>,v1=<hex hmac>[,v1=...]
+   * Signed payload: `${t}.${rawBody}` (HMAC-SHA256 with STRIPE_WEBHOOK_SECRET)
+   */
+  async constructWebhookEvent(payload: string, signatureHeader: string | null): Promise<StripeEvent> {
+    if (!this.env.STRIPE_WEBHOOK_SECRET) {
+      throw new BookstoreError('Stripe webhook secret is not configured', 500);
+    }
+
+    if (!signatureHeader) {
+      throw new BookstoreError('Missing Stripe-Signature header', 400);
+    }
+
+    let timestamp = '';
+    const signatures: string[] = [];
+
+    for (const part of signatureHeader.split(',')) {
+      const [key, value] = part.trim().split('=');
+      if (key === 't') timestamp = value;
+      if (key === 'v1' && value) signatures.push(value);
+    }
+
+    if (!timestamp || signatures.length === 0) {
+      throw new BookstoreError('Malformed Stripe-Signature header', 400);
+    }
+
+    const age = Math.abs(Math.floor(Date.now() / 1000) - parseInt(timestamp));
+    if (isNaN(age) || age > this.WEBHOOK_TOLERANCE_SECONDS) {
+      throw new BookstoreError('Stripe webhook timestamp outside tolerance', 400);
+    }
+
+    const key = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(this.env.STRIPE_WEBHOOK_SECRET),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign']
+    );
+    const digest = await crypto.subtle.sign(
+      'HMAC',
+      key,
+      new TextEncoder().encode(`${timestamp}.${payload}`)
+    );
+    const expected = [...new Uint8Array(digest)]
+      .map(byte => byte.toString(16).padStart(2, '0'))
+      .join('');
+
+    if (!signatures.some(signature => timingSafeEqualHex(signature, expected))) {
+      throw new BookstoreError('Invalid Stripe webhook signature', 400);
+    }
+
+    try {
+      return JSON.parse(payload) as StripeEvent;
+    } catch (error) {
+      throw new BookstoreError('Invalid JSON in webhook payload', 400);
+    }
+  }
+
+  // ========== HELPER METHODS ==========
+
+  private async request<T>(
+    method: string,
+    path: string,
+    form?: URLSearchParams,
+    idempotencyKey?: string
+  ): Promise<T> {
+    if (!this.env.STRIPE_SECRET_KEY) {
+      throw new BookstoreError('Stripe is not configured', 500);
+    }
+
+    const headers: Record<string, string> = {
+      'Authorization': `Bearer ${this.env.STRIPE_SECRET_KEY}`,
+      'Content-Type': 'application/x-www-form-urlencoded'
+    };
+
+    if (idempotencyKey) {
+      headers['Idempotency-Key'] = idempotencyKey;
+    }
+
+    const base = (this.env.STRIPE_API_BASE || this.DEFAULT_API_BASE).replace(/\/+$/, '');
+    const response = await fetch(`${base}${path}`, {
+      method,
+      headers,
+      body: form ? form.toString() : undefined
+    });
+
+    const data = await response.json<any>().catch(() => null);
+
+    if (!response.ok) {
+      const message = data?.error?.message || `HTTP ${response.status}`;
+      console.error(`Stripe API error (${method} ${path}):`, message);
+      throw new BookstoreError(`Payment provider error: ${message}`, 502);
+    }
+
+    return data as T;
+  }
+}
+
+function timingSafeEqualHex(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
@@ -0,0 +1,73 @@
+import {
+  Env,
+  MonthlyDonation,
+  PublicDonation,
+  TransparencySummary
+} from '../types';
+import { DatabaseService } from './database';
+import { getCurrentTimestamp } from '../utils/helpers';
+
+/**
+ * Transparency Service
+ * Public, aggregate-only view of where profit goes.
+ * Never exposes customer emails, cost prices or individual orders.
+ */
+export class TransparencyService {
+  private db: DatabaseService;
+
+  constructor(env: Env) {
+    this.db = new DatabaseService(env);
+  }
+
+  async listDonations(filters: {
+    month?: string;
+    charity_name?: string;
+    limit?: number;
+    offset?: number;
+  }): Promise<{ donations: PublicDonation[]; total: number }> {
+    const result = await this.db.listDonations(filters);
+
+    return {
+      donations: result.donations.map(donation => this.toPublicDonation(donation)),
+      total: result.total
+    };
+  }
+
+  async getSummary(): Promise<TransparencySummary> {
+    const [charities, latestMonth] = await Promise.all([
+      this.db.getCharityImpact(),
+      this.db.getLatestDonationMonth()
+    ]);
+
+    const books_sold = charities.reduce((sum, c) => sum + c.books_sold, 0);
+    const total_profit = charities.reduce((sum, c) => sum + c.total_profit, 0);
+    const total_donated = charities.reduce((sum, c) => sum + c.total_donated, 0);
+
+    return {
+      books_sold,
+      total_profit,
+      total_donated,
+      total_pending: total_profit - total_donated,
+      charities,
+      latest_donation_month: latestMonth,
+      generated_at: getCurrentTimestamp()
+    };
+  }
+
+  private toPublicDonation(donation: MonthlyDonation): PublicDonation {
+    return {
+      id: donation.id,
+      month: donation.month,
+      charity_name: donation.charity_name,
+      total_amount: donation.total_amount,
+      order_count: donation.order_count,
+      status: donation.status,
+      receipt_url: donation.receipt_url || undefined,
+      bank_statement_url: donation.bank_statement_url || undefined,
+      base_tx_hash: donation.base_tx_hash || undefined,
+      blockchain_status: donation.blockchain_status || undefined,
+      sent_at: donation.sent_at || undefined,
+      confirmed_at: donation.confirmed_at || undefined
+    };
+  }
+}
@@ -5,22 +5,37 @@ export interface Env {
   CONFIG: KVNamespace;
   AI: any; // Workers AI binding
   VECTORIZE_INDEX?: VectorizeIndex;
-  BLOCKCHAIN_QUEUE?: Queue;
+  BLOCKCHAIN_QUEUE?: Queue<BlockchainQueueMessage>;
+  INGEST_QUEUE?: Queue<IngestQueueMessage>;
 
   // Secrets
   OPENAI_API_KEY?: string;
+  OPENAI_API_BASE?: string; // override for a local mock server
+  NYT_API_KEY?: string; // enables the nyt_reviews metadata provider
   STRIPE_SECRET_KEY?: string;
+  STRIPE_WEBHOOK_SECRET?: string;
   JWT_SECRET?: string;
 
   // Environment variables
   FRONTEND_URL: string;
   ADMIN_URL: string;
   ENVIRONMENT: string;
+  STRIPE_API_BASE?: string; // override for a local Stripe stand-in
+  DEFAULT_CHARITY_NAME?: string; // used when CONFIG has no 'charities' list
+  BLOCKCHAIN_CLIENT?: 'jsonrpc' | 'mock';
+  BLOCKCHAIN_RPC_URL?: string; // JSON-RPC endpoint that signs for BLOCKCHAIN_FROM_ADDRESS
+  BLOCKCHAIN_FROM_ADDRESS?: string;
+  CONTRACT_ADDRESS?: string;
 }
 
 // Book types
+/**
+ * A physical copy for sale, hydrated with its edition's shared fields
+ * (isbn, title ... vector_id live on the edition)
+ */
 export interface Book {
   id: string;
+  edition_id: string;
   isbn: string;
   title: string;
   author: string;
@@ -36,11 +51,46 @@ export interface Book {
   review_summary?: string;
   vector_id?: string;
   status: BookStatus;
+  reprice_exempt: boolean; // never marked down automatically
+  base_price?: number; // in pence, the price markdown applies to (unset: derived from sell_price)
+  markdown: number; // fraction currently taken off base_price by repricing
   created_at: string;
   updated_at: string;
+  live_at?: string;
   sold_at?: string;
 }
 
+// Title/edition shared by every copy of an ISBN
+export interface Edition {
+  id: string;
+  isbn: string; // ISBN-13, or an internal SKU for books without one
+  title: string;
+  author: string;
+  description?: string;
+  cover_url?: string;
+  metadata?: BookMetadata;
+  vibe_tags?: string;
+  ai_enrichment?: AIEnrichment;
+  review_summary?: string;
+  vector_id?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type BookCopySummary = Pick<Book, 'id' | 'condition' | 'sell_price'>;
+
+// Public view of one copy: its edition's fields with the copy's id, condition and price
+export interface PublicBook extends Omit<Edition, 'id' | 'created_at' | 'updated_at'>, BookCopySummary {
+  edition_id: string;
+}
+
+// Public listing: an edition with its available copies, cheapest first
+export interface BookListing extends Omit<Edition, 'created_at' | 'updated_at'> {
+  from_price: number; // in pence, cheapest available copy
+  copy_count: number;
+  copies: BookCopySummary[];
+}
+
 export type BookCondition = 'like_new' | 'very_good' | 'good' | 'acceptable';
 export type BookStatus = 'draft' | 'pending_review' | 'live' | 'sold' | 'removed';
 
@@ -55,6 +105,7 @@ export interface BookMetadata {
   goodreads_url?: string;
   average_rating?: number;
   ratings_count?: number;
+  provenance?: MetadataProvenance; // where each field came from
 }
 
 export interface AIEnrichment {
@@ -65,6 +116,7 @@ export interface AIEnrichment {
   vibe_keywords?: string;
   themes?: string[];
   similar_to?: string[];
+  provider?: string; // enrichment provider that produced this data
 }
 
 // API request/response types
@@ -76,22 +128,101 @@ export interface IngestBookRequest {
   custom_author?: string;
 }
 
+/**
+ * A book catalogued by hand: no ISBN lookup, so the bibliographic fields
+ * come from the request. Without an ISBN it is given an internal SKU.
+ */
+export interface ManualIngestRequest {
+  title: string;
+  author: string;
+  condition: BookCondition;
+  cost_price: number; // in pounds (will convert to pence)
+  isbn?: string; // for ISBNs no provider knows
+  description?: string;
+  publisher?: string;
+  publish_date?: string; // e.g. the year
+  page_count?: number;
+  categories?: string[];
+  language?: string; // ISO 639-1 code; detected from the description if omitted
+}
+
 export interface IngestBookResponse {
   success: boolean;
   book_id: string;
   book: Book;
+  edition_id: string;
+  new_edition: boolean; // false when the ISBN was already catalogued and a copy was added
   metadata: ExternalMetadata;
   suggested_price?: number;
+  pricing?: PriceSuggestion; // how suggested_price was derived
   errors?: string[];
 }
 
 export interface ExternalMetadata {
   open_library?: OpenLibraryData;
   google_books?: GoogleBooksData;
+  records?: SourcedMetadataRecord[]; // each provider's normalized view, highest priority first
   reviews?: Review[];
   market_prices?: MarketPrice[];
 }
 
+// One metadata provider's view of a book, normalized for merging
+export interface MetadataRecord {
+  title?: string;
+  authors?: string[];
+  description?: string;
+  cover_url?: string;
+  publisher?: string;
+  publish_date?: string;
+  page_count?: number;
+  categories?: string[];
+  language?: string; // ISO 639-1 code
+  isbn_10?: string;
+  isbn_13?: string;
+  average_rating?: number;
+  ratings_count?: number;
+}
+
+export interface SourcedMetadataRecord extends MetadataRecord {
+  source: string; // provider name
+}
+
+export type MetadataField = keyof MetadataRecord;
+
+// 'priority': first source with a value; 'longest': longest string; 'union': all values, deduplicated
+export type MetadataMergeStrategy = 'priority' | 'longest' | 'union';
+
+export interface MetadataFieldPolicy {
+  strategy: MetadataMergeStrategy;
+  sources?: string[]; // preferred providers, tried first in this order
+}
+
+/**
+ * How each field is merged across providers, stored as per-field
+ * overrides in the 'metadata_merge_policy' CONFIG KV key
+ */
+export type MetadataMergePolicy = Record<MetadataField, MetadataFieldPolicy>;
+
+export interface FieldProvenance {
+  sources: string[]; // provider names, or 'manual' / 'detected'
+  strategy: MetadataMergeStrategy | 'manual' | 'detected';
+}
+
+// vibe_tags only appears once an admin sets it by hand
+export type MetadataProvenance = Partial<Record<MetadataField | 'vibe_tags', FieldProvenance>>;
+
+/**
+ * Per-provider settings, stored under the provider's name in the
+ * 'metadata_providers' CONFIG KV key
+ */
+export interface MetadataProviderConfig {
+  enabled: boolean;
+  priority: number; // higher wins when providers disagree
+  timeout_ms: number;
+  cache_ttl_seconds: number; // raw responses are reused for this long
+  options?: Record<string, any>; // provider-specific (e.g. local_catalogue 'key')
+}
+
 export interface OpenLibraryData {
   title?: string;
   authors?: Array<{ name: string }>;
@@ -101,6 +232,7 @@ export interface OpenLibraryData {
   publishers?: string[];
   number_of_pages?: number;
   subjects?: string[];
+  identifiers?: { isbn_10?: string[]; isbn_13?: string[] };
 }
 
 export interface GoogleBooksData {
@@ -112,6 +244,8 @@ export interface GoogleBooksData {
   publisher?: string;
   pageCount?: number;
   categories?: string[];
+  language?: string;
+  industryIdentifiers?: Array<{ type: string; identifier: string }>;
   averageRating?: number;
   ratingsCount?: number;
 }
@@ -126,13 +260,165 @@ export interface Review {
 
 export interface MarketPrice {
   source: string;
-  condition: string;
+  condition: BookCondition | 'new';
   price: number; // in pence
   currency: string;
   url?: string;
 }
 
+// Pricing types
+/**
+ * Pricing rules, stored as 'pricing_rules' in CONFIG KV
+ * Amounts are in pence; multipliers and adjustments are fractions (0.1 = 10%)
+ */
+export interface PricingRules {
+  market_sources: string[]; // market price sources to query, by name
+  base_markup: number; // times cost, when there is no market data
+  used_to_new_ratio: number; // a 'good' used copy sells for this fraction of a new one
+  condition_multipliers: Record<BookCondition, number>; // relative to 'good'
+  min_ratings_count: number; // ratings needed before the rating counts
+  high_rating: number; // average at or above this adds rating_adjustment
+  low_rating: number; // average below this removes rating_adjustment
+  rating_adjustment: number;
+  long_book_pages: number; // at or above this adds page_count_adjustment
+  short_book_pages: number; // below this removes page_count_adjustment
+  page_count_adjustment: number;
+  min_price: number;
+  max_markup: number; // price never exceeds cost times this...
+  charity_floor: number; // ...nor falls below cost plus this (the minimum donated per sale)
+  round_to_99: boolean;
+}
+
+export type PricingStepRule =
+  | 'market'
+  | 'markup'
+  | 'condition'
+  | 'rating'
+  | 'page_count'
+  | 'max_markup'
+  | 'min_price'
+  | 'charity_floor'
+  | 'rounding';
+
+export interface PricingStep {
+  rule: PricingStepRule;
+  detail: string;
+  price: number; // in pence, after this step
+}
+
+// How a suggested price was derived, step by step
+export interface PriceSuggestion {
+  price: number; // in pence
+  basis: 'market' | 'markup';
+  market_prices: MarketPrice[]; // the prices used for a market basis
+  steps: PricingStep[];
+}
+
+// Repricing types
+/**
+ * Price decay rules, stored as 'repricing_rules' in CONFIG KV
+ */
+export interface RepricingRules {
+  enabled: boolean;
+  tiers: RepricingTier[];
+  min_profit: number; // in pence, price never drops below cost_price plus this
+  round_to_99: boolean; // round markdowns down to .99
+}
+
+export interface RepricingTier {
+  after_days: number; // days live
+  discount: number; // fraction off base_price, e.g. 0.1
+}
+
+export interface RepricingChange {
+  book_id: string;
+  isbn: string;
+  title: string;
+  days_live: number;
+  base_price: number; // in pence
+  old_price: number; // in pence
+  new_price: number; // in pence
+  markdown: number; // tier discount now applied
+  floored: boolean; // held up by cost_price + min_profit
+}
+
+export interface RepricingRun {
+  run_at: string;
+  rules: RepricingRules;
+  changes: RepricingChange[];
+}
+
+// Price history and margin types
+// ingest: suggested price at ingestion; approval: final_price override on approval;
+// manual: admin edit; repricing: automated markdown
+export type PriceChangeSource = 'ingest' | 'approval' | 'manual' | 'repricing';
+
+export interface PriceHistoryEntry {
+  id: string;
+  book_id: string;
+  old_price?: number; // in pence, unset for the first price
+  new_price: number; // in pence
+  source: PriceChangeSource;
+  admin_id?: string;
+  details?: Record<string, any>;
+  created_at: string;
+}
+
+// Who/what is changing a copy's price (written to price_history)
+export interface PriceChangeContext {
+  source: PriceChangeSource;
+  admin_id?: string;
+  details?: Record<string, any>;
+}
+
+// Realized margin on a sold copy
+export interface BookMargin {
+  book_id: string;
+  isbn: string;
+  title: string;
+  condition: BookCondition;
+  cost_price: number; // in pence
+  initial_price?: number; // in pence, first recorded price
+  sold_price: number; // in pence, paid by the customer
+  margin: number; // in pence, sold_price - cost_price
+  margin_rate: number; // margin / sold_price
+  price_changes: number; // changes after the first price
+  final_price_source?: PriceChangeSource; // what set the price it sold at
+  days_to_sell?: number; // from going live to sale
+  sold_at: string;
+}
+
+export interface PricingTimeline {
+  book_id: string;
+  isbn: string;
+  title: string;
+  status: BookStatus;
+  cost_price: number; // in pence
+  sell_price: number; // in pence
+  history: PriceHistoryEntry[]; // oldest first
+  margin?: BookMargin; // once sold
+}
+
+export interface MarginTotals {
+  count: number;
+  revenue: number; // in pence
+  cost: number; // in pence
+  margin: number; // in pence
+  margin_rate: number;
+}
+
+export interface MarginReport {
+  sales: BookMargin[];
+  total: number;
+  summary: MarginTotals & {
+    by_final_price_source: Record<string, MarginTotals>;
+  };
+}
+
 // Order types
+// needs_refund: paid, but the copy had already sold under another order
+export type OrderPaymentStatus = 'pending' | 'succeeded' | 'failed' | 'needs_refund';
+
 export interface Order {
   id: string;
   book_id: string;
@@ -141,20 +427,389 @@ export interface Order {
   profit_amount: number; // in pence
   charity_name: string;
   stripe_payment_id: string;
-  payment_status: 'pending' | 'succeeded' | 'failed';
+  payment_status: OrderPaymentStatus;
   base_tx_hash?: string;
   blockchain_status?: 'pending' | 'confirmed' | 'failed';
   month_batch: string; // YYYY-MM
-  donation_status: 'pending' | 'sent' | 'confirmed';
+  donation_status: DonationStatus;
+  donation_id?: string; // monthly_donations batch
   created_at: string;
   paid_at?: string;
 }
 
+// Donation types
+export type DonationStatus = 'pending' | 'sent' | 'confirmed';
+
+export interface MonthlyDonation {
+  id: string;
+  month: string; // YYYY-MM
+  charity_name: string;
+  total_amount: number; // in pence
+  order_count: number;
+  status: DonationStatus;
+  receipt_url?: string;
+  bank_statement_url?: string;
+  base_tx_hash?: string;
+  blockchain_status?: 'pending' | 'confirmed' | 'failed';
+  created_at: string;
+  sent_at?: string;
+  confirmed_at?: string;
+  recorded_at?: string;
+}
+
+// Public view of a donation batch (no order or customer details)
+export interface PublicDonation {
+  id: string;
+  month: string;
+  charity_name: string;
+  total_amount: number; // in pence
+  order_count: number;
+  status: DonationStatus;
+  receipt_url?: string;
+  bank_statement_url?: string;
+  base_tx_hash?: string;
+  blockchain_status?: 'pending' | 'confirmed' | 'failed';
+  sent_at?: string;
+  confirmed_at?: string;
+}
+
+export interface CharityImpact {
+  charity_name: string;
+  books_sold: number;
+  total_profit: number; // in pence, all paid orders
+  total_donated: number; // in pence, batches sent or confirmed
+}
+
+export interface TransparencySummary {
+  books_sold: number;
+  total_profit: number; // in pence
+  total_donated: number; // in pence
+  total_pending: number; // in pence, profit not yet sent to a charity
+  charities: CharityImpact[];
+  latest_donation_month?: string;
+  generated_at: string;
+}
+
+export type DonationDocumentType = 'receipt' | 'bank_statement';
+
+export interface DonationBatchResult {
+  month: string;
+  batches: MonthlyDonation[];
+  orders_batched: number;
+  skipped_charities: string[]; // batch already sent - late orders left unbatched
+}
+
+// Checkout types
+export interface CheckoutRequest {
+  book_id: string;
+  customer_email?: string;
+  charity?: string; // must be one of the configured charities
+}
+
+export interface CheckoutResponse {
+  order_id: string;
+  reservation_expires_at: string;
+  client_secret: string;
+  payment_intent_id: string;
+  amount: number; // in pence
+  currency: string;
+  charity_name: string;
+}
+
+// Blockchain types
+export type BlockchainEventType = 'purchase' | 'donation';
+export type BlockchainEventStatus = 'pending' | 'submitted' | 'confirmed' | 'failed';
+
+export interface BlockchainEvent {
+  id: string;
+  event_type: BlockchainEventType;
+  reference_id: string; // order_id or donation_id
+  tx_hash?: string;
+  status: BlockchainEventStatus;
+  error_message?: string;
+  gas_used?: number;
+  block_number?: number;
+  created_at: string;
+  confirmed_at?: string;
+}
+
+export interface BlockchainQueueMessage {
+  event_id: string;
+}
+
+// Reservation types
+export type ReservationStatus = 'active' | 'converted' | 'released' | 'expired';
+
+export interface BookReservation {
+  id: string;
+  book_id: string;
+  order_id?: string;
+  status: ReservationStatus;
+  expires_at: string;
+  created_at: string;
+  released_at?: string;
+}
+
+export interface StripeEvent {
+  id: string;
+  type: string;
+  created: number;
+  data: {
+    object: {
+      id: string;
+      object: string;
+      amount?: number;
+      metadata?: Record<string, string>;
+      last_payment_error?: { message?: string };
+    };
+  };
+}
+
+// Admin types
+export type AdminRole = 'superadmin' | 'admin' | 'reviewer' | 'volunteer' | 'finance';
+
+export type Permission =
+  | 'books:read'
+  | 'books:ingest'
+  | 'books:edit'
+  | 'books:approve'
+  | 'books:reject'
+  | 'orders:manage'
+  | 'donations:manage'
+  | 'audit:read';
+
+export interface AdminUser {
+  id: string;
+  email: string;
+  name?: string;
+  role: AdminRole;
+  active: boolean;
+  created_at: string;
+  last_login?: string;
+}
+
+export interface AuthTokenPayload {
+  sub: string; // admin user ID
+  email: string;
+  role: AdminRole;
+  iat: number; // issued at (unix seconds)
+  exp: number; // expiry (unix seconds)
+}
+
+export interface LoginRequest {
+  email: string;
+  password: string;
+}
+
+export interface LoginResponse {
+  token: string;
+  expires_at: string;
+  admin: AdminUser;
+}
+
+// Audit log types
+export type AuditEntityType = 'book' | 'order' | 'donation';
+
+export interface AuditLogEntry {
+  id: string;
+  admin_id?: string;
+  action: string; // 'create_book', 'approve_book', 'update_book', etc.
+  entity_type: AuditEntityType;
+  entity_id: string;
+  details?: Record<string, any>;
+  created_at: string;
+}
+
+export interface FieldChange {
+  before: any;
+  after: any;
+}
+
+// Search types
+export interface SearchFilters {
+  condition?: BookCondition[];
+  min_price?: number; // in pence
+  max_price?: number; // in pence
+  categories?: string[]; // matches any of metadata.categories
+  pace?: string[];
+  emotional_tone?: string[]; // must have at least one of these tones
+  exclude_tone?: string[]; // must have none of these tones
+  min_shock_factor?: number;
+  max_shock_factor?: number;
+}
+
+// Facet/filter groups - facet counts skip their own group's filter
+export type SearchFilterGroup =
+  | 'condition'
+  | 'price_range'
+  | 'categories'
+  | 'pace'
+  | 'emotional_tone'
+  | 'shock_factor';
+
+// [label, min inclusive, max exclusive]
+export type FacetBucket = [string, number, number];
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface SearchFacets {
+  condition: FacetCount[];
+  price_range: FacetCount[];
+  categories: FacetCount[];
+  pace: FacetCount[];
+  emotional_tone: FacetCount[];
+  shock_factor: FacetCount[];
+}
+
+export interface SearchResult extends BookListing {
+  score: number; // fused relevance, higher is better
+  keyword_rank?: number; // 1-based BM25 rank, if matched by keywords
+  semantic_score?: number; // cosine similarity, if matched by embeddings
+  snippet?: string; // HTML-escaped excerpt with <mark> highlights
+}
+
+export interface SearchResponse {
+  query?: string;
+  results: SearchResult[];
+  total: number;
+  facets: SearchFacets;
+  truncated: boolean; // only the best-ranked matches were filtered and counted
+}
+
+// Bulk ingestion types
+export type IngestJobStatus = 'pending' | 'processing' | 'completed';
+export type IngestRowStatus = 'pending' | 'processing' | 'succeeded' | 'failed';
+
+export interface IngestJobRow {
+  job_id: string;
+  row_number: number; // 1-based position in the upload
+  isbn: string;
+  condition?: BookCondition;
+  cost_price?: number; // in pounds
+  status: IngestRowStatus;
+  book_id?: string;
+  error?: string;
+  warnings?: string[];
+  attempts: number;
+  updated_at: string;
+}
+
+export interface IngestJob {
+  id: string;
+  status: IngestJobStatus;
+  total_rows: number;
+  created_by?: string;
+  created_at: string;
+  updated_at: string;
+  completed_at?: string;
+}
+
+export interface IngestJobProgress extends IngestJob {
+  counts: Record<IngestRowStatus, number>;
+  book_ids: string[]; // books created by this job
+  rows: IngestJobRow[];
+}
+
+export interface BulkIngestRow {
+  isbn: string;
+  condition: BookCondition;
+  cost_price: number; // in pounds
+}
+
+export interface IngestQueueMessage {
+  job_id: string;
+  row_number: number;
+}
+
+// Metadata refresh types
+export type RefreshField =
+  | 'title' | 'author' | 'description' | 'cover_url'
+  | 'publisher' | 'publish_date' | 'page_count' | 'language' | 'categories'
+  | 'isbn_10' | 'isbn_13' | 'average_rating' | 'ratings_count'
+  | 'vibe_tags' | 'ai_enrichment';
+
+export interface RefreshChange {
+  field: RefreshField;
+  current: any;
+  proposed: any;
+  provenance?: FieldProvenance; // where the proposed value came from
+  manual_override: boolean; // current value was set by hand - only replaced when accepted by name
+}
+
+export type MetadataRefreshStatus = 'pending' | 'applied';
+
+/**
+ * Re-fetched metadata and/or re-run enrichment for an edition, held as a
+ * diff against its values at the time until an admin accepts fields
+ */
+export interface MetadataRefresh {
+  id: string;
+  edition_id: string;
+  book_id: string; // copy the refresh was requested for
+  status: MetadataRefreshStatus;
+  metadata: boolean; // metadata was re-fetched
+  enrichment: boolean; // enrichment was re-run
+  changes: RefreshChange[];
+  errors?: string[];
+  accepted?: RefreshField[];
+  created_by?: string;
+  created_at: string;
+  applied_by?: string;
+  applied_at?: string;
+}
+
+export interface RefreshOptions {
+  metadata?: boolean; // default true
+  enrichment?: boolean; // default true
+}
+
+export interface RefreshFilter {
+  book_ids?: string[];
+  status?: BookStatus;
+  missing?: 'description' | 'cover_url' | 'categories' | 'ai_enrichment';
+  enrichment_provider?: string; // e.g. 'heuristic' to redo books enriched before an LLM was configured
+  created_before?: string; // edition created before (ISO 8601)
+  limit?: number;
+}
+
+export interface BulkRefreshResult {
+  book_id: string;
+  edition_id: string;
+  refresh_id?: string;
+  changes: number;
+  accepted?: RefreshField[];
+  error?: string;
+}
+
+// Recommendation types
+export type SimilaritySignal = 'author' | 'similar_to' | 'themes' | 'atmosphere' | 'categories' | 'embedding';
+
+export interface SimilarityReason {
+  signal: SimilaritySignal;
+  score: number; // contribution to the total
+  detail: string;
+}
+
+export interface SimilarBook extends BookListing {
+  similarity: number; // 0-1, sum of reason scores
+  reasons: SimilarityReason[];
+}
+
+// Per-request state populated by router middleware
+export interface RequestContext {
+  admin?: AdminUser;
+  execution?: ExecutionContext; // for waitUntil() background work
+}
+
 // Response helpers
 export interface APIResponse<T = any> {
   success: boolean;
   data?: T;
   error?: string;
+  code?: string; // machine-readable error code, when there is one
   errors?: string[];
 }
 
@@ -0,0 +1,67 @@
+/**
+ * Minimal RFC 4180 CSV parsing
+ * Handles quoted fields (with embedded commas, newlines and "" escapes)
+ * and CRLF line endings; blank lines are skipped.
+ */
+export function parseCSV(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some(value => value.trim() !== '')) {
+      rows.push(row.map(value => value.trim()));
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n') {
+      endRow();
+    } else if (char !== '\r') {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error('Unterminated quoted field in CSV');
+  }
+
+  endRow();
+  return rows;
+}
+
+/**
+ * Parse CSV with a header row into objects keyed by lower-cased header
+ */
+export function parseCSVRecords(text: string): Array<Record<string, string>> {
+  const [header, ...rows] = parseCSV(text);
+  if (!header) return [];
+
+  const keys = header.map(key => key.toLowerCase());
+  return rows.map(values =>
+    Object.fromEntries(keys.map((key, index) => [key, values[index] ?? '']))
+  );
+}
@@ -22,8 +22,8 @@ export function successResponse<T>(data: T, status: number = 200): Response {
   return jsonResponse<APIResponse<T>>({ success: true, data }, status);
 }
 
-export function errorResponse(error: string, status: number = 400): Response {
-  return jsonResponse<APIResponse>({ success: false, error }, status);
+export function errorResponse(error: string, status: number = 400, code?: string): Response {
+  return jsonResponse<APIResponse>({ success: false, error, code }, status);
 }
 
 // UUID generator
@@ -46,13 +46,95 @@ export function formatPrice(pence: number): string {
 
 // ISBN validation and normalization
 export function normalizeISBN(isbn: string): string {
-  // Remove all non-digit characters except 'X'
+  // Remove all non-digit characters except 'X' - which is only valid as an
+  // ISBN-10 check digit, and rejected anywhere else by the validators below
   return isbn.replace(/[^0-9X]/gi, '').toUpperCase();
 }
 
-export function isValidISBN(isbn: string): boolean {
+/**
+ * ISBN-10 with a valid mod-11 check digit (X = 10)
+ */
+export function isValidISBN10(isbn: string): boolean {
+  const normalized = normalizeISBN(isbn);
+  if (!/^\d{9}[\dX]$/.test(normalized)) return false;
+
+  const sum = [...normalized].reduce(
+    (total, char, i) => total + (char === 'X' ? 10 : Number(char)) * (10 - i),
+    0
+  );
+
+  return sum % 11 === 0;
+}
+
+/**
+ * ISBN-13 (a 978/979 "Bookland" EAN-13) with a valid check digit
+ */
+export function isValidISBN13(isbn: string): boolean {
+  const normalized = normalizeISBN(isbn);
+  if (!/^97[89]\d{10}$/.test(normalized)) return false;
+
+  return ean13CheckDigit(normalized.slice(0, 12)) === normalized[12];
+}
+
+export function isbn10To13(isbn10: string): string {
+  const body = '978' + normalizeISBN(isbn10).slice(0, 9);
+  return body + ean13CheckDigit(body);
+}
+
+/**
+ * The ISBN-10 form of an ISBN-13; null for 979 ISBNs, which have none
+ */
+export function isbn13To10(isbn13: string): string | null {
+  const normalized = normalizeISBN(isbn13);
+  if (!normalized.startsWith('978')) return null;
+
+  const body = normalized.slice(3, 12);
+  const sum = [...body].reduce((total, char, i) => total + Number(char) * (10 - i), 0);
+  const check = (11 - (sum % 11)) % 11;
+
+  return body + (check === 10 ? 'X' : String(check));
+}
+
+/**
+ * Canonical ISBN-13 for an ISBN-10, an ISBN-13 or a scanned barcode with
+ * a 2 or 5 digit price add-on (15 or 18 digits); null if not a valid ISBN
+ */
+export function toISBN13(isbn: string): string | null {
   const normalized = normalizeISBN(isbn);
-  return normalized.length === 10 || normalized.length === 13;
+
+  if (normalized.length === 10) {
+    return isValidISBN10(normalized) ? isbn10To13(normalized) : null;
+  }
+
+  if (normalized.length === 13 || normalized.length === 15 || normalized.length === 18) {
+    const ean = normalized.slice(0, 13);
+    return /^\d+$/.test(normalized) && isValidISBN13(ean) ? ean : null;
+  }
+
+  return null;
+}
+
+export function isValidISBN(isbn: string): boolean {
+  return toISBN13(isbn) !== null;
+}
+
+/**
+ * Internal identifier for a book without an ISBN, used in its place.
+ * The prefix keeps it distinct from any ISBN.
+ */
+export function generateSKU(): string {
+  const alphabet = '0123456789ABCDEFGHJKMNPQRSTVWXYZ'; // Crockford base32
+  const bytes = crypto.getRandomValues(new Uint8Array(10));
+  return 'SKU-' + [...bytes].map(byte => alphabet[byte % 32]).join('');
+}
+
+export function isInternalSKU(identifier: string): boolean {
+  return /^SKU-[0-9A-Z]{10}$/.test(identifier.trim().toUpperCase());
+}
+
+function ean13CheckDigit(first12: string): string {
+  const sum = [...first12].reduce((total, char, i) => total + Number(char) * (i % 2 === 0 ? 1 : 3), 0);
+  return String((10 - (sum % 10)) % 10);
 }
 
 // Date helpers
@@ -66,6 +148,14 @@ export function getMonthBatch(date: Date = new Date()): string {
   return `${year}-${month}`;
 }
 
+export function getPreviousMonthBatch(date: Date = new Date()): string {
+  return getMonthBatch(new Date(date.getFullYear(), date.getMonth() - 1, 1));
+}
+
+export function isValidMonthBatch(month: string): boolean {
+  return /^\d{4}-(0[1-9]|1[0-2])$/.test(month);
+}
+
 // Text processing
 export function truncate(text: string, maxLength: number): string {
   if (text.length <= maxLength) return text;
@@ -95,7 +185,7 @@ export function handleError(error: unknown): Response {
   console.error('Error:', error);
 
   if (error instanceof BookstoreError) {
-    return errorResponse(error.message, error.statusCode);
+    return errorResponse(error.message, error.statusCode, error.code);
   }
 
   if (error instanceof Error) {
@@ -114,6 +204,23 @@ export async function parseJSON<T>(request: Request): Promise<T> {
   }
 }
 
+/**
+ * Like parseJSON, but an empty body is treated as {}
+ */
+export async function parseOptionalJSON<T extends object>(request: Request): Promise<Partial<T>> {
+  const text = await request.text();
+
+  if (!text.trim()) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new BookstoreError('Invalid JSON in request body', 400);
+  }
+}
+
 // URL helpers
 export function getPathname(url: string): string {
   return new URL(url).pathname;
@@ -0,0 +1,42 @@
+/**
+ * Language detection by common-word counts
+ * Good enough to tell the languages we stock apart from a blurb; returns
+ * undefined rather than guess when the text is short or ambiguous.
+ */
+
+const STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'of', 'to', 'in', 'is', 'that', 'with', 'his', 'her', 'for', 'was', 'this', 'from'],
+  fr: ['le', 'la', 'les', 'et', 'des', 'est', 'une', 'dans', 'que', 'qui', 'pour', 'sur', 'avec', 'du'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'ein', 'eine', 'mit', 'sich', 'auf', 'den', 'von', 'zu'],
+  es: ['el', 'los', 'las', 'y', 'que', 'es', 'una', 'por', 'con', 'para', 'del', 'su', 'como', 'se'],
+  it: ['il', 'di', 'che', 'e', 'gli', 'una', 'per', 'non', 'con', 'della', 'del', 'sono', 'nel', 'alla'],
+  nl: ['de', 'het', 'een', 'en', 'van', 'niet', 'dat', 'met', 'voor', 'zijn', 'op', 'ook', 'naar', 'hij'],
+  pt: ['o', 'os', 'as', 'e', 'do', 'da', 'que', 'um', 'uma', 'com', 'para', 'não', 'se', 'seu']
+};
+
+const MIN_WORDS = 8;
+const MIN_HITS = 3;
+
+/**
+ * ISO 639-1 code of the text's language, or undefined if unsure
+ */
+export function detectLanguage(text: string | undefined): string | undefined {
+  const words = (text || '').toLowerCase().match(/\p{L}+/gu) || [];
+  if (words.length < MIN_WORDS) return undefined;
+
+  const scores = Object.entries(STOPWORDS)
+    .map(([language, stopwords]) => ({
+      language,
+      hits: words.filter(word => stopwords.includes(word)).length
+    }))
+    .sort((a, b) => b.hits - a.hits);
+
+  const [best, runnerUp] = scores;
+
+  // Needs enough evidence and a clear lead
+  if (best.hits < MIN_HITS || best.hits < runnerUp.hits * 1.5) {
+    return undefined;
+  }
+
+  return best.language;
+}
@@ -0,0 +1,69 @@
+import { Book, BookListing, Edition, PublicBook } from '../types';
+
+/**
+ * Group copies into one listing per edition
+ * Listings keep the order in which their editions first appear;
+ * copies within a listing are sorted cheapest first.
+ */
+export function toListings(books: Book[]): BookListing[] {
+  const listings = new Map<string, BookListing>();
+
+  for (const book of books) {
+    let listing = listings.get(book.edition_id);
+
+    if (!listing) {
+      listing = {
+        ...toEdition(book),
+        from_price: book.sell_price,
+        copy_count: 0,
+        copies: []
+      };
+      listings.set(book.edition_id, listing);
+    }
+
+    listing.copies.push({ id: book.id, condition: book.condition, sell_price: book.sell_price });
+    listing.copy_count = listing.copies.length;
+    listing.from_price = Math.min(listing.from_price, book.sell_price);
+  }
+
+  for (const listing of listings.values()) {
+    listing.copies.sort((a, b) => a.sell_price - b.sell_price);
+  }
+
+  return [...listings.values()];
+}
+
+/**
+ * The edition fields of a hydrated copy (timestamps are the copy's, so omitted)
+ */
+export function toEdition(book: Book): Omit<Edition, 'created_at' | 'updated_at'> {
+  return {
+    id: book.edition_id,
+    isbn: book.isbn,
+    title: book.title,
+    author: book.author,
+    description: book.description,
+    cover_url: book.cover_url,
+    metadata: book.metadata,
+    vibe_tags: book.vibe_tags,
+    ai_enrichment: book.ai_enrichment,
+    review_summary: book.review_summary,
+    vector_id: book.vector_id
+  };
+}
+
+/**
+ * The public view of a copy: edition fields plus what tells copies apart
+ * (leaves out cost, pricing and status fields)
+ */
+export function toPublicBook(book: Book): PublicBook {
+  const { id, ...edition } = toEdition(book);
+
+  return {
+    ...edition,
+    id: book.id,
+    edition_id: id,
+    condition: book.condition,
+    sell_price: book.sell_price
+  };
+}
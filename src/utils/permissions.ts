@@ -0,0 +1,53 @@
+import { AdminRole, AdminUser, Permission } from '../types';
+import { BookstoreError } from './helpers';
+
+/**
+ * Role → permission matrix for admin actions
+ * Unknown roles get no permissions
+ */
+export const ROLE_PERMISSIONS: Record<AdminRole, Permission[]> = {
+  // Intake volunteers add donated books but can't publish them
+  volunteer: ['books:read', 'books:ingest'],
+
+  // Pricing reviewers curate and publish the catalogue
+  reviewer: [
+    'books:read', 'books:ingest', 'books:edit', 'books:approve', 'books:reject',
+    'audit:read'
+  ],
+
+  // Finance handles money: orders and charity donations
+  finance: ['books:read', 'orders:manage', 'donations:manage', 'audit:read'],
+
+  // Default role for admin_users - general catalogue management
+  admin: [
+    'books:read', 'books:ingest', 'books:edit', 'books:approve', 'books:reject',
+    'audit:read'
+  ],
+
+  superadmin: [
+    'books:read', 'books:ingest', 'books:edit', 'books:approve', 'books:reject',
+    'orders:manage', 'donations:manage', 'audit:read'
+  ]
+};
+
+export function hasPermission(role: string, permission: Permission): boolean {
+  const permissions = ROLE_PERMISSIONS[role as AdminRole];
+  return permissions ? permissions.includes(permission) : false;
+}
+
+/**
+ * Throw a 403 unless the admin's role grants the permission
+ */
+export function assertPermission(admin: AdminUser | undefined, permission: Permission): void {
+  if (!admin) {
+    throw new BookstoreError('Authentication required', 401);
+  }
+
+  if (!hasPermission(admin.role, permission)) {
+    throw new BookstoreError(
+      `Role '${admin.role}' does not have permission '${permission}'`,
+      403,
+      'forbidden'
+    );
+  }
+}
@@ -1,4 +1,4 @@
-import { Env } from '../types';
+import { Env, RequestContext } from '../types';
 
 /**
  * Simple router for Cloudflare Workers
@@ -8,9 +8,20 @@ import { Env } from '../types';
 export type RouteHandler = (
   request: Request,
   env: Env,
-  params?: Record<string, string>
+  params?: Record<string, string>,
+  context?: RequestContext
 ) => Promise<Response> | Response;
 
+/**
+ * Middleware runs before the matched handler.
+ * Return a Response to short-circuit the request, or nothing to continue.
+ */
+export type Middleware = (
+  request: Request,
+  env: Env,
+  context: RequestContext
+) => Promise<Response | void> | Response | void;
+
 interface Route {
   method: string;
   pattern: RegExp;
@@ -18,8 +29,22 @@ interface Route {
   paramNames: string[];
 }
 
+interface MiddlewareEntry {
+  prefix: string;
+  handler: Middleware;
+}
+
 export class Router {
   private routes: Route[] = [];
+  private middlewares: MiddlewareEntry[] = [];
+
+  /**
+   * Register middleware for every route under a path prefix
+   * (e.g. '/api/admin' covers '/api/admin' and '/api/admin/*')
+   */
+  use(prefix: string, middleware: Middleware): void {
+    this.middlewares.push({ prefix, handler: middleware });
+  }
 
   /**
    * Add a GET route
@@ -76,7 +101,7 @@ export class Router {
   /**
    * Route a request to the appropriate handler
    */
-  async route(request: Request, env: Env): Promise<Response> {
+  async route(request: Request, env: Env, execution?: ExecutionContext): Promise<Response> {
     const url = new URL(request.url);
     const method = request.method;
     const pathname = url.pathname;
@@ -107,8 +132,18 @@ export class Router {
         params[name] = match[index + 1];
       });
 
+      const context: RequestContext = { execution };
+
       try {
-        return await route.handler(request, env, params);
+        // Run middleware registered for this path
+        for (const middleware of this.middlewares) {
+          if (!this.matchesPrefix(pathname, middleware.prefix)) continue;
+
+          const result = await middleware.handler(request, env, context);
+          if (result) return result;
+        }
+
+        return await route.handler(request, env, params, context);
       } catch (error) {
         console.error('Route handler error:', error);
         return new Response(
@@ -143,6 +178,13 @@ export class Router {
     );
   }
 
+  /**
+   * Check whether a pathname falls under a middleware prefix
+   */
+  private matchesPrefix(pathname: string, prefix: string): boolean {
+    return pathname === prefix || pathname.startsWith(`${prefix}/`);
+  }
+
   /**
    * Add a route with any HTTP method
    */
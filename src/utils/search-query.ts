@@ -0,0 +1,197 @@
+import { BookstoreError } from './helpers';
+
+/**
+ * Search Query Parser
+ * Turns shopper input into a safe FTS5 MATCH expression. Supported syntax:
+ *   "exact phrase"     phrase match
+ *   gatsb*             prefix match
+ *   author:king        field scope (title, author, description, tags)
+ *   -horror            negation (also -"phrase" and -author:king)
+ * Every term is emitted as a quoted FTS5 string, so FTS operators
+ * (AND, OR, NEAR, ^, parentheses...) in the input are matched as words.
+ */
+
+export type SearchField = 'title' | 'author' | 'description' | 'vibe_tags';
+
+export interface QueryTerm {
+  text: string;
+  phrase: boolean;
+  prefix: boolean;
+  negated: boolean;
+  field?: SearchField;
+}
+
+export interface ParsedSearchQuery {
+  match: string; // FTS5 MATCH expression
+  text: string; // plain text of the wanted terms, for semantic search
+  terms: QueryTerm[];
+}
+
+export const INVALID_SEARCH_QUERY = 'INVALID_SEARCH_QUERY';
+
+const MAX_QUERY_LENGTH = 200;
+const MAX_TERMS = 20;
+
+// Scope names shoppers can type → FTS5 columns
+const FIELD_ALIASES: Record<string, SearchField> = {
+  title: 'title',
+  author: 'author',
+  by: 'author',
+  description: 'description',
+  tags: 'vibe_tags',
+  vibe: 'vibe_tags'
+};
+
+// Highlight sentinels used inside SQL; swapped for <mark> after HTML-escaping
+export const SNIPPET_OPEN = '\u0001';
+export const SNIPPET_CLOSE = '\u0002';
+
+/**
+ * Parse search input into an FTS5 expression
+ * Throws a 400 BookstoreError (code INVALID_SEARCH_QUERY) for unusable input
+ */
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  const query = input.trim();
+
+  if (!query) {
+    throw invalidQuery('Search query is empty');
+  }
+
+  if (query.length > MAX_QUERY_LENGTH) {
+    throw invalidQuery(`Search query must be at most ${MAX_QUERY_LENGTH} characters`);
+  }
+
+  const terms = tokenize(query);
+
+  if (terms.length > MAX_TERMS) {
+    throw invalidQuery(`Search query can have at most ${MAX_TERMS} terms`);
+  }
+
+  const wanted = terms.filter(term => !term.negated);
+  const excluded = terms.filter(term => term.negated);
+
+  if (wanted.length === 0) {
+    throw invalidQuery(
+      excluded.length > 0
+        ? 'Search query needs at least one term that is not excluded'
+        : 'Search query has no searchable words'
+    );
+  }
+
+  let match = wanted.map(toFtsTerm).join(' AND ');
+  if (excluded.length > 0) {
+    match = `(${match})` + excluded.map(term => ` NOT ${toFtsTerm(term)}`).join('');
+  }
+
+  return {
+    match,
+    text: wanted.map(term => term.text).join(' '),
+    terms
+  };
+}
+
+/**
+ * HTML-escape an FTS5 snippet and turn the sentinels into <mark> tags
+ */
+export function formatSnippet(snippet: string | null | undefined): string | undefined {
+  if (!snippet) return undefined;
+
+  return snippet
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .split(SNIPPET_OPEN).join('<mark>')
+    .split(SNIPPET_CLOSE).join('</mark>');
+}
+
+// ========== HELPER FUNCTIONS ==========
+
+function tokenize(query: string): QueryTerm[] {
+  const terms: QueryTerm[] = [];
+  let pendingField: SearchField | undefined;
+  let pendingNegated = false;
+  let i = 0;
+
+  while (i < query.length) {
+    if (/\s/.test(query[i])) {
+      i++;
+      continue;
+    }
+
+    let negated: boolean = pendingNegated;
+    let field = pendingField;
+    pendingNegated = false;
+    pendingField = undefined;
+
+    if (query[i] === '-' && i + 1 < query.length && !/\s/.test(query[i + 1])) {
+      negated = true;
+      i++;
+    }
+
+    // field: scope, e.g. author:king or title:"the hobbit"
+    const scope = /^([a-z_]+):/i.exec(query.slice(i));
+    if (scope && FIELD_ALIASES[scope[1].toLowerCase()]) {
+      field = FIELD_ALIASES[scope[1].toLowerCase()];
+      i += scope[0].length;
+
+      // "author: king" - scope applies to the next token
+      if (i >= query.length || /\s/.test(query[i])) {
+        pendingField = field;
+        pendingNegated = negated;
+        continue;
+      }
+    }
+
+    let raw: string;
+    let phrase = false;
+
+    if (query[i] === '"') {
+      const end = query.indexOf('"', i + 1);
+      if (end === -1) {
+        throw invalidQuery('Unterminated quote in search query');
+      }
+      raw = query.slice(i + 1, end);
+      phrase = true;
+      i = end + 1;
+    } else {
+      const start = i;
+      while (i < query.length && !/\s/.test(query[i]) && query[i] !== '"') {
+        i++;
+      }
+      raw = query.slice(start, i);
+    }
+
+    let prefix = false;
+    if (query[i] === '*') {
+      prefix = true;
+      i++;
+    } else if (!phrase && raw.endsWith('*')) {
+      prefix = true;
+      raw = raw.replace(/\*+$/, '');
+    }
+
+    // Drop stray stars; words with no letters or digits can't match anything
+    const text = raw.replace(/\*/g, ' ').replace(/\s+/g, ' ').trim();
+    if (!/[\p{L}\p{N}]/u.test(text)) {
+      continue;
+    }
+
+    terms.push({ text, phrase, prefix, negated, field });
+  }
+
+  if (pendingField) {
+    throw invalidQuery(`Field scope '${pendingField}' needs a search term`);
+  }
+
+  return terms;
+}
+
+function toFtsTerm(term: QueryTerm): string {
+  const quoted = `"${term.text.replace(/"/g, '""')}"${term.prefix ? '*' : ''}`;
+  return term.field ? `${term.field} : ${quoted}` : quoted;
+}
+
+function invalidQuery(message: string): BookstoreError {
+  return new BookstoreError(message, 400, INVALID_SEARCH_QUERY);
+}
@@ -0,0 +1,30 @@
+import { Env, BlockchainQueueMessage } from '../types';
+import { BlockchainService } from '../services/blockchain';
+
+/**
+ * Blockchain Queue Consumer
+ * Handles batches from BLOCKCHAIN_QUEUE; each message is acked or retried
+ * with backoff independently so one bad event can't stall the batch
+ */
+export async function handleBlockchainBatch(
+  batch: MessageBatch<BlockchainQueueMessage>,
+  env: Env
+): Promise<void> {
+  const blockchainService = new BlockchainService(env);
+
+  for (const message of batch.messages) {
+    try {
+      const result = await blockchainService.processMessage(message.body, message.attempts);
+
+      if (result.action === 'retry') {
+        message.retry({ delaySeconds: result.delaySeconds });
+      } else {
+        message.ack();
+      }
+    } catch (error) {
+      // Database unavailable etc. - let the queue redeliver
+      console.error(`Blockchain message ${message.id} error:`, error);
+      message.retry();
+    }
+  }
+}
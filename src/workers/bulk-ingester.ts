@@ -0,0 +1,30 @@
+import { Env, IngestQueueMessage } from '../types';
+import { IngestJobService } from '../services/ingest-jobs';
+
+/**
+ * Ingest Queue Consumer
+ * Handles batches from INGEST_QUEUE, one book per message; rows are acked
+ * or retried independently so one bad ISBN can't stall the batch
+ */
+export async function handleIngestBatch(
+  batch: MessageBatch<IngestQueueMessage>,
+  env: Env
+): Promise<void> {
+  const ingestJobService = new IngestJobService(env);
+
+  for (const message of batch.messages) {
+    try {
+      const result = await ingestJobService.processRow(message.body, message.attempts);
+
+      if (result.action === 'retry') {
+        message.retry({ delaySeconds: result.delaySeconds });
+      } else {
+        message.ack();
+      }
+    } catch (error) {
+      // Database unavailable etc. - let the queue redeliver
+      console.error(`Ingest message ${message.id} error:`, error);
+      message.retry();
+    }
+  }
+}
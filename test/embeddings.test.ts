@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { EmbeddingService } from '../src/services/embeddings';
+import { Book, Env } from '../src/types';
+
+const book = {
+  id: 'copy-1',
+  edition_id: 'edition-1',
+  title: 'The Secret History',
+  author: 'Donna Tartt',
+  description: 'Classics students at a Vermont college'
+} as Book;
+
+describe('EmbeddingService', () => {
+  it('uses the local stand-ins outside production', async () => {
+    const embeddings = new EmbeddingService({ ENVIRONMENT: 'development' } as Env);
+
+    expect(await embeddings.indexBook(book)).toBe('edition-1');
+
+    const [match] = await embeddings.searchByText('secret history vermont', 5);
+    expect(match.id).toBe('edition-1');
+  });
+
+  it('fails in production without the AI and Vectorize bindings', async () => {
+    const embeddings = new EmbeddingService({ ENVIRONMENT: 'production' } as Env);
+
+    await expect(embeddings.indexBook(book)).rejects.toMatchObject({ statusCode: 503 });
+    await expect(embeddings.searchByText('anything', 5)).rejects.toMatchObject({ statusCode: 503 });
+    await expect(embeddings.searchByBook(book, 5)).rejects.toMatchObject({ statusCode: 503 });
+  });
+});
@@ -0,0 +1,82 @@
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import sqlite3InitModule, { BindableValue, Database } from '@sqlite.org/sqlite-wasm';
+
+/**
+ * In-memory D1 for tests
+ * A SQLite database (the official WASM build, with FTS5) created from
+ * schema.sql, behind the parts of the D1 API that DatabaseService uses
+ */
+
+const SCHEMA = readFileSync(resolve(__dirname, '../../schema.sql'), 'utf8');
+
+// Loaded once per test file
+const sqlite = sqlite3InitModule();
+
+export async function createTestDatabase(): Promise<D1Database> {
+  const sqlite3 = await sqlite;
+  const db = new sqlite3.oo1.DB(':memory:');
+
+  db.exec('PRAGMA foreign_keys = ON');
+  db.exec(SCHEMA);
+
+  return new TestD1Database(db) as unknown as D1Database;
+}
+
+class TestD1Database {
+  constructor(private db: Database) {}
+
+  prepare(query: string): TestD1Statement {
+    return new TestD1Statement(this.db, query, []);
+  }
+
+  async batch(statements: TestD1Statement[]): Promise<D1Result[]> {
+    this.db.exec('BEGIN');
+
+    try {
+      const results = statements.map(statement => statement.execute());
+      this.db.exec('COMMIT');
+      return results;
+    } catch (error) {
+      this.db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  async exec(query: string): Promise<void> {
+    this.db.exec(query);
+  }
+}
+
+class TestD1Statement {
+  constructor(private db: Database, private query: string, private params: BindableValue[]) {}
+
+  bind(...values: BindableValue[]): TestD1Statement {
+    return new TestD1Statement(this.db, this.query, values);
+  }
+
+  async first<T>(column?: string): Promise<T | null> {
+    const [row] = this.execute().results as Record<string, unknown>[];
+    if (!row) return null;
+    return (column ? row[column] : row) as T;
+  }
+
+  async all<T>(): Promise<D1Result<T>> {
+    return this.execute() as D1Result<T>;
+  }
+
+  async run(): Promise<D1Result> {
+    return this.execute();
+  }
+
+  execute(): D1Result {
+    // Plain objects, like D1's rows (SQLite returns null-prototype ones)
+    const results = this.db.selectObjects(this.query, this.params).map(row => ({ ...row }));
+
+    return {
+      success: true,
+      results,
+      meta: { changes: this.db.changes() }
+    } as unknown as D1Result;
+  }
+}
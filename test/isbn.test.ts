@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { isValidISBN10, isValidISBN13, toISBN13, isbn13To10 } from '../src/utils/helpers';
+
+describe('isValidISBN10', () => {
+  it.each([
+    ['0306406152', true],
+    ['0-306-40615-2', true],
+    ['0 14 016777 3', true],
+    ['080442957X', true],
+    ['080442957x', true],
+    ['0306406153', false], // wrong check digit
+    ['0306406X52', false], // X before the check digit
+    ['030640615', false], // too short
+    ['03064061522', false], // too long
+    ['9780306406157', false], // an ISBN-13
+    ['', false]
+  ])('%j -> %s', (isbn, valid) => {
+    expect(isValidISBN10(isbn)).toBe(valid);
+  });
+});
+
+describe('isValidISBN13', () => {
+  it.each([
+    ['9780306406157', true],
+    ['978-0-306-40615-7', true],
+    ['9791032305690', true],
+    ['9780804429573', true],
+    ['9780306406158', false], // wrong check digit
+    ['9770306406157', false], // not a 978/979 prefix
+    ['5012345678900', false], // an ordinary EAN-13
+    ['978030640615', false], // too short
+    ['97803064061575', false], // too long
+    ['978030640615X', false],
+    ['0306406152', false] // an ISBN-10
+  ])('%j -> %s', (isbn, valid) => {
+    expect(isValidISBN13(isbn)).toBe(valid);
+  });
+});
+
+describe('toISBN13', () => {
+  it.each([
+    ['0306406152', '9780306406157'],
+    ['0-14-016777-3', '9780140167771'],
+    ['080442957X', '9780804429573'],
+    ['043942089X', '9780439420891'],
+    ['9780306406157', '9780306406157'],
+    ['978-0-306-40615-7', '9780306406157'],
+    ['9791032305690', '9791032305690']
+  ])('%j -> %s', (isbn, expected) => {
+    expect(toISBN13(isbn)).toBe(expected);
+  });
+
+  it.each([
+    ['978030640615712', '2 digit'],
+    ['978030640615751234', '5 digit'],
+    ['978 0306406157 51234', '5 digit, spaced']
+  ])('strips a %s price add-on from %j', (isbn) => {
+    expect(toISBN13(isbn)).toBe('9780306406157');
+  });
+
+  it.each([
+    ['0306406153', 'bad ISBN-10 check digit'],
+    ['9780306406158', 'bad ISBN-13 check digit'],
+    ['978030640615812', 'bad check digit before a 2 digit add-on'],
+    ['978030640615751234X', '19 characters'],
+    ['97803064061575', '14 digits'],
+    ['9780306406157123X', 'X in the add-on'],
+    ['5012345678900', 'not a Bookland EAN'],
+    ['', 'empty'],
+    ['not an isbn', 'no digits']
+  ])('rejects %j (%s)', (isbn) => {
+    expect(toISBN13(isbn)).toBeNull();
+  });
+});
+
+describe('isbn13To10', () => {
+  it.each([
+    ['9780306406157', '0306406152'],
+    ['978-0-14-016777-1', '0140167773'],
+    ['9780804429573', '080442957X'],
+    ['9780439420891', '043942089X']
+  ])('%j -> %s', (isbn13, isbn10) => {
+    expect(isbn13To10(isbn13)).toBe(isbn10);
+  });
+
+  it('has no ISBN-10 for 979 ISBNs', () => {
+    expect(isbn13To10('9791032305690')).toBeNull();
+  });
+
+  it.each(['0306406152', '080442957X', '043942089X', '0140167773'])('round-trips %s', (isbn10) => {
+    expect(isbn13To10(toISBN13(isbn10)!)).toBe(isbn10);
+  });
+});
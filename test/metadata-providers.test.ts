@@ -0,0 +1,192 @@
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  GoogleBooksProvider,
+  LocalCatalogueProvider,
+  NYTReviewsProvider,
+  OpenLibraryProvider
+} from '../src/services/metadata-providers';
+import { Env } from '../src/types';
+import openLibrary from './fixtures/metadata/open-library.json';
+import googleBooks from './fixtures/metadata/google-books.json';
+import nytReviews from './fixtures/metadata/nyt-reviews.json';
+
+const ISBN = '9780140167771';
+const CATALOGUE = readFileSync(resolve(__dirname, 'fixtures/metadata/catalogue.csv'), 'utf8');
+
+const signal = new AbortController().signal;
+
+function respondWith(body: unknown, status: number = 200) {
+  const fetch = vi.fn(async (_url: string, _init?: RequestInit) => new Response(JSON.stringify(body), { status }));
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+}
+
+function catalogueEnv(csv: string | null): Env {
+  const ASSETS = { get: async () => (csv === null ? null : { text: async () => csv }) };
+  return { ASSETS } as unknown as Env;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('OpenLibraryProvider', () => {
+  const provider = new OpenLibraryProvider();
+
+  it('fetches the book by its bibkey', async () => {
+    const fetch = respondWith(openLibrary);
+
+    expect(await provider.fetch(ISBN, signal)).toEqual(openLibrary[`ISBN:${ISBN}`]);
+    expect(fetch.mock.calls[0][0]).toContain(`bibkeys=ISBN:${ISBN}`);
+  });
+
+  it('returns null for an unknown ISBN and throws on errors', async () => {
+    respondWith({});
+    expect(await provider.fetch(ISBN, signal)).toBeNull();
+
+    respondWith({}, 503);
+    await expect(provider.fetch(ISBN, signal)).rejects.toThrow('503');
+  });
+
+  it('parses a recorded response', () => {
+    const { record, external } = provider.parse(openLibrary[`ISBN:${ISBN}`]);
+
+    expect(record).toEqual({
+      title: 'The secret history',
+      authors: ['Donna Tartt'],
+      description: 'Originally published: New York: Knopf, 1992.',
+      cover_url: 'https://covers.openlibrary.org/b/id/8231852-L.jpg',
+      publisher: 'Penguin',
+      publish_date: '1993',
+      page_count: 629,
+      categories: ['Fiction', 'College students', 'Murder', 'Classicists', 'Vermont'],
+      isbn_10: '0140167773',
+      isbn_13: ISBN
+    });
+    expect(external?.open_library?.publishers).toEqual(['Penguin']);
+  });
+});
+
+describe('GoogleBooksProvider', () => {
+  const provider = new GoogleBooksProvider();
+  const volumeInfo = googleBooks.items[0].volumeInfo;
+
+  it('fetches the first volume', async () => {
+    const fetch = respondWith(googleBooks);
+
+    expect(await provider.fetch(ISBN, signal)).toEqual(volumeInfo);
+    expect(fetch.mock.calls[0][0]).toContain(`q=isbn:${ISBN}`);
+  });
+
+  it('returns null when there are no volumes', async () => {
+    respondWith({ kind: 'books#volumes', totalItems: 0 });
+    expect(await provider.fetch(ISBN, signal)).toBeNull();
+  });
+
+  it('parses a recorded response', () => {
+    const { record } = provider.parse(volumeInfo);
+
+    expect(record).toMatchObject({
+      title: 'The Secret History',
+      authors: ['Donna Tartt'],
+      publisher: 'Penguin UK',
+      publish_date: '1993-04-29',
+      page_count: 629,
+      categories: ['Fiction'],
+      language: 'en',
+      isbn_10: '0140167773',
+      isbn_13: ISBN,
+      average_rating: 4,
+      ratings_count: 312
+    });
+    expect(record?.description).toMatch(/^Under the influence/);
+  });
+
+  it('asks for a larger thumbnail when there is no large image', () => {
+    const { record } = provider.parse(volumeInfo);
+    expect(record?.cover_url).toContain('zoom=2');
+  });
+});
+
+describe('LocalCatalogueProvider', () => {
+  it('matches either ISBN form', async () => {
+    const provider = new LocalCatalogueProvider(catalogueEnv(CATALOGUE));
+
+    expect(await provider.fetch(ISBN)).toMatchObject({ isbn: '0140167773', title: 'The Secret History' });
+    expect(await provider.fetch('1400031702')).toMatchObject({ title: 'The Little Friend' });
+    expect(await provider.fetch('9780306406157')).toBeNull();
+  });
+
+  it('throws when the catalogue is missing', async () => {
+    const provider = new LocalCatalogueProvider(catalogueEnv(null));
+    await expect(provider.fetch(ISBN)).rejects.toThrow('not found');
+  });
+
+  it('parses a row', async () => {
+    const provider = new LocalCatalogueProvider(catalogueEnv(CATALOGUE));
+    const { record } = provider.parse(await provider.fetch(ISBN));
+
+    expect(record).toEqual({
+      title: 'The Secret History',
+      authors: ['Donna Tartt'],
+      description: 'A clever, eccentric group of classics students at a Vermont college, and the murder that binds them.',
+      cover_url: 'https://example.org/covers/secret-history.jpg',
+      publisher: 'Penguin',
+      publish_date: '1993',
+      page_count: 629,
+      categories: ['Fiction', 'Campus novels'],
+      language: 'en',
+      isbn_10: '0140167773',
+      isbn_13: undefined
+    });
+  });
+
+  it('splits lists and drops empty or invalid values', async () => {
+    const provider = new LocalCatalogueProvider(catalogueEnv(CATALOGUE));
+    const { record } = provider.parse(await provider.fetch('9780099589068'));
+
+    expect(record).toMatchObject({
+      authors: ['Terry Pratchett', 'Neil Gaiman'],
+      categories: ['Fantasy', 'Humour'],
+      description: undefined,
+      cover_url: undefined,
+      page_count: undefined,
+      isbn_13: '9780099589068'
+    });
+  });
+});
+
+describe('NYTReviewsProvider', () => {
+  const provider = new NYTReviewsProvider({ NYT_API_KEY: 'test-key' } as Env);
+
+  it('fetches the reviews for an ISBN', async () => {
+    const fetch = respondWith(nytReviews);
+
+    expect(await provider.fetch(ISBN, signal)).toEqual(nytReviews.results);
+    expect(fetch.mock.calls[0][0]).toContain(`isbn=${ISBN}`);
+  });
+
+  it('returns null when there are no reviews', async () => {
+    respondWith({ status: 'OK', num_results: 0, results: [] });
+    expect(await provider.fetch(ISBN, signal)).toBeNull();
+  });
+
+  it('needs an API key', async () => {
+    const unconfigured = new NYTReviewsProvider({} as Env);
+    await expect(unconfigured.fetch(ISBN, signal)).rejects.toThrow('API key');
+  });
+
+  it('parses reviews with a summary', () => {
+    const { record, reviews } = provider.parse(nytReviews.results);
+
+    expect(record).toBeUndefined();
+    expect(reviews).toEqual([{
+      source: 'nyt',
+      text: nytReviews.results[0].summary,
+      author: 'MICHIKO KAKUTANI',
+      date: '1992-09-04'
+    }]);
+  });
+});
@@ -0,0 +1,193 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { MetadataService, mergeRecords, DEFAULT_METADATA_MERGE_POLICY } from '../src/services/metadata';
+import { GoogleBooksProvider, OpenLibraryProvider } from '../src/services/metadata-providers';
+import { Env, MetadataMergePolicy, SourcedMetadataRecord } from '../src/types';
+import { createTestDatabase } from './helpers/d1';
+import openLibrary from './fixtures/metadata/open-library.json';
+import googleBooks from './fixtures/metadata/google-books.json';
+
+const ISBN = '9780140167771';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function policy(overrides: Partial<MetadataMergePolicy> = {}): MetadataMergePolicy {
+  return { ...DEFAULT_METADATA_MERGE_POLICY, ...overrides };
+}
+
+describe('mergeRecords', () => {
+  const records: SourcedMetadataRecord[] = [
+    { source: 'local_catalogue', title: 'The Secret History', description: '', categories: ['Fiction', 'Campus novels'] },
+    { source: 'google_books', title: 'Secret History', authors: ['Donna Tartt'], description: 'A longer blurb, from Google Books.', categories: ['fiction'] },
+    { source: 'open_library', title: 'The secret history', authors: ['D. Tartt'], description: 'A short note.', categories: ['Murder', 'Vermont'] }
+  ];
+
+  describe('priority', () => {
+    it('takes the first record with a value', () => {
+      const { record, provenance } = mergeRecords(records, policy());
+
+      expect(record.title).toBe('The Secret History');
+      expect(record.authors).toEqual(['Donna Tartt']);
+      expect(provenance.title).toEqual({ sources: ['local_catalogue'], strategy: 'priority' });
+      expect(provenance.authors).toEqual({ sources: ['google_books'], strategy: 'priority' });
+    });
+
+    it('tries preferred sources first', () => {
+      const { record, provenance } = mergeRecords(records, policy({
+        title: { strategy: 'priority', sources: ['open_library'] }
+      }));
+
+      expect(record.title).toBe('The secret history');
+      expect(provenance.title?.sources).toEqual(['open_library']);
+    });
+
+    it('leaves out fields no source has', () => {
+      const { record, provenance } = mergeRecords(records, policy());
+
+      expect(record).not.toHaveProperty('publisher');
+      expect(provenance).not.toHaveProperty('publisher');
+    });
+  });
+
+  describe('longest', () => {
+    it('takes the longest value, skipping empty ones', () => {
+      const { record, provenance } = mergeRecords(records, policy());
+
+      expect(record.description).toBe('A longer blurb, from Google Books.');
+      expect(provenance.description).toEqual({ sources: ['google_books'], strategy: 'longest' });
+    });
+
+    it('gives ties to the preferred source', () => {
+      const tied: SourcedMetadataRecord[] = [
+        { source: 'google_books', description: 'abc' },
+        { source: 'open_library', description: 'xyz' }
+      ];
+
+      expect(mergeRecords(tied, policy()).record.description).toBe('abc');
+      expect(mergeRecords(tied, policy({
+        description: { strategy: 'longest', sources: ['open_library'] }
+      })).record.description).toBe('xyz');
+    });
+  });
+
+  describe('union', () => {
+    it('combines values case-insensitively in source order', () => {
+      const { record, provenance } = mergeRecords(records, policy());
+
+      expect(record.categories).toEqual(['Fiction', 'Campus novels', 'Murder', 'Vermont']);
+      // google_books only repeated a value, so it didn't contribute
+      expect(provenance.categories).toEqual({ sources: ['local_catalogue', 'open_library'], strategy: 'union' });
+    });
+
+    it('keeps at most ten values', () => {
+      const many: SourcedMetadataRecord[] = [
+        { source: 'google_books', categories: Array.from({ length: 8 }, (_, i) => `Subject ${i}`) },
+        { source: 'open_library', categories: Array.from({ length: 8 }, (_, i) => `Topic ${i}`) }
+      ];
+
+      const { record } = mergeRecords(many, policy());
+
+      expect(record.categories).toHaveLength(10);
+      expect(record.categories?.slice(-2)).toEqual(['Topic 0', 'Topic 1']);
+    });
+
+    it('can be used for authors', () => {
+      const { record } = mergeRecords(records, policy({ authors: { strategy: 'union' } }));
+      expect(record.authors).toEqual(['Donna Tartt', 'D. Tartt']);
+    });
+  });
+});
+
+describe('MetadataService cache', () => {
+  let env: Env;
+  let openLibraryProvider: OpenLibraryProvider;
+  let googleBooksProvider: GoogleBooksProvider;
+  let service: MetadataService;
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    env = {
+      DB: await createTestDatabase(),
+      CONFIG: { get: async () => null }
+    } as unknown as Env;
+
+    openLibraryProvider = new OpenLibraryProvider();
+    googleBooksProvider = new GoogleBooksProvider();
+    vi.spyOn(openLibraryProvider, 'fetch').mockResolvedValue(openLibrary[`ISBN:${ISBN}`]);
+    vi.spyOn(googleBooksProvider, 'fetch').mockResolvedValue(googleBooks.items[0].volumeInfo);
+
+    service = new MetadataService(env, [openLibraryProvider, googleBooksProvider]);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('parses fetched responses in priority order', async () => {
+    const metadata = await service.fetchMetadata(ISBN);
+
+    expect(metadata.records?.map(record => record.source)).toEqual(['google_books', 'open_library']);
+    expect(metadata.records?.[0].title).toBe('The Secret History');
+    expect(metadata.open_library?.title).toBe('The secret history');
+  });
+
+  it('serves repeat lookups from the cache, for either ISBN form', async () => {
+    const first = await service.fetchMetadata(ISBN);
+    const second = await service.fetchMetadata('0-14-016777-3');
+
+    expect(openLibraryProvider.fetch).toHaveBeenCalledTimes(1);
+    expect(googleBooksProvider.fetch).toHaveBeenCalledTimes(1);
+    expect(second).toEqual(first);
+  });
+
+  it('fetches again once the TTL has passed', async () => {
+    await service.fetchMetadata(ISBN);
+
+    vi.setSystemTime(Date.now() + 29 * DAY_MS);
+    await service.fetchMetadata(ISBN);
+    expect(openLibraryProvider.fetch).toHaveBeenCalledTimes(1);
+
+    vi.setSystemTime(Date.now() + 2 * DAY_MS);
+    await service.fetchMetadata(ISBN);
+    expect(openLibraryProvider.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps not-found responses for at most a day', async () => {
+    vi.mocked(openLibraryProvider.fetch).mockResolvedValue(null);
+    vi.mocked(googleBooksProvider.fetch).mockResolvedValue(null);
+
+    await expect(service.fetchMetadata(ISBN)).rejects.toThrow('Could not fetch metadata');
+    await expect(service.fetchMetadata(ISBN)).rejects.toThrow('Could not fetch metadata');
+    expect(openLibraryProvider.fetch).toHaveBeenCalledTimes(1);
+
+    vi.setSystemTime(Date.now() + DAY_MS + 1000);
+    await expect(service.fetchMetadata(ISBN)).rejects.toThrow('Could not fetch metadata');
+    expect(openLibraryProvider.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not cache failures', async () => {
+    vi.mocked(googleBooksProvider.fetch).mockRejectedValueOnce(new Error('Google Books API error: 503'));
+
+    const first = await service.fetchMetadata(ISBN);
+    const second = await service.fetchMetadata(ISBN);
+
+    expect(first.records?.map(record => record.source)).toEqual(['open_library']);
+    expect(second.records?.map(record => record.source)).toEqual(['google_books', 'open_library']);
+    expect(googleBooksProvider.fetch).toHaveBeenCalledTimes(2);
+    expect(openLibraryProvider.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('skips the cache on refresh and stores the new response', async () => {
+    await service.fetchMetadata(ISBN);
+
+    vi.mocked(openLibraryProvider.fetch).mockResolvedValue({ ...openLibrary[`ISBN:${ISBN}`], title: 'The Secret History (revised)' });
+    const refreshed = await service.fetchMetadata(ISBN, { refresh: true });
+    const cached = await service.fetchMetadata(ISBN);
+
+    expect(openLibraryProvider.fetch).toHaveBeenCalledTimes(2);
+    expect(refreshed.open_library?.title).toBe('The Secret History (revised)');
+    expect(cached.open_library?.title).toBe('The Secret History (revised)');
+  });
+});
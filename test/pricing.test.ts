@@ -0,0 +1,167 @@
+import { describe, it, expect, vi } from 'vitest';
+import { calculatePrice, mergePricingRules, DEFAULT_PRICING_RULES, PricingInput } from '../src/services/pricing';
+import { MarketPrice, PricingRules } from '../src/types';
+
+const rules: PricingRules = DEFAULT_PRICING_RULES;
+
+function market(condition: MarketPrice['condition'], price: number, currency: string = 'GBP'): MarketPrice {
+  return { source: 'test', condition, price, currency };
+}
+
+function price(input: Partial<PricingInput> & { cost_price: number }, overrides: Partial<PricingRules> = {}) {
+  return calculatePrice({ condition: 'good', ...input }, { ...rules, ...overrides });
+}
+
+const stepRules = (suggestion: ReturnType<typeof calculatePrice>) => suggestion.steps.map(step => step.rule);
+
+describe('calculatePrice', () => {
+  describe('basis', () => {
+    it('marks up cost when there are no market prices', () => {
+      const suggestion = price({ cost_price: 200 });
+
+      expect(suggestion.basis).toBe('markup');
+      expect(suggestion.steps[0]).toMatchObject({ rule: 'markup', price: 600 });
+      expect(suggestion.price).toBe(599);
+    });
+
+    it('uses the median market price as a good used copy', () => {
+      // new 1000 -> 400, good 500 -> 500, very_good 660 -> 600
+      const suggestion = price({
+        cost_price: 100,
+        market_prices: [market('new', 1000), market('good', 500), market('very_good', 660)]
+      });
+
+      expect(suggestion.basis).toBe('market');
+      expect(suggestion.steps[0]).toMatchObject({ rule: 'market', price: 500 });
+      expect(suggestion.price).toBe(499);
+    });
+
+    it('ignores non-GBP and zero market prices', () => {
+      const suggestion = price({
+        cost_price: 200,
+        market_prices: [market('good', 9999, 'USD'), market('good', 0)]
+      });
+
+      expect(suggestion.basis).toBe('markup');
+      expect(suggestion.market_prices).toEqual([]);
+    });
+  });
+
+  describe('adjustments', () => {
+    it('applies the condition multiplier', () => {
+      const suggestion = price({ cost_price: 200, condition: 'like_new' });
+
+      expect(suggestion.steps[1]).toMatchObject({ rule: 'condition', price: 720 });
+      expect(suggestion.price).toBe(699);
+    });
+
+    it('adjusts for rating and length once there are enough ratings', () => {
+      const metadata = { average_rating: 4.5, ratings_count: 50, page_count: 700 };
+      const suggestion = price({ cost_price: 200, metadata });
+
+      expect(stepRules(suggestion)).toEqual(['markup', 'rating', 'page_count', 'rounding']);
+      expect(suggestion.steps[2].price).toBe(726);
+    });
+
+    it('ignores a rating from too few ratings', () => {
+      const suggestion = price({ cost_price: 200, metadata: { average_rating: 1, ratings_count: 3 } });
+
+      expect(stepRules(suggestion)).not.toContain('rating');
+    });
+  });
+
+  describe('limits', () => {
+    it('caps the price at the max markup', () => {
+      const suggestion = price({ cost_price: 100, market_prices: [market('good', 5000)] });
+
+      expect(suggestion.steps).toContainEqual(expect.objectContaining({ rule: 'max_markup', price: 1000 }));
+      expect(suggestion.price).toBe(999);
+    });
+
+    it('raises the price to the minimum', () => {
+      const suggestion = price({ cost_price: 50 }, { round_to_99: false });
+
+      expect(suggestion.steps.at(-1)).toMatchObject({ rule: 'min_price', price: 299 });
+    });
+
+    it('raises the price so each sale donates the charity floor', () => {
+      const suggestion = price({ cost_price: 500, market_prices: [market('good', 300)] }, { round_to_99: false });
+
+      expect(suggestion.steps.at(-1)).toMatchObject({ rule: 'charity_floor', price: 600 });
+    });
+
+    it('lets the floors win over the ceiling', () => {
+      // 10x a 20p cost is 200p, below the 299p minimum
+      const suggestion = price({ cost_price: 20 });
+
+      expect(stepRules(suggestion)).toContain('min_price');
+      expect(suggestion.price).toBe(299);
+    });
+  });
+
+  describe('rounding', () => {
+    it('rounds to the nearest .99', () => {
+      expect(price({ cost_price: 200 }).price).toBe(599);
+      expect(price({ cost_price: 217 }).price).toBe(699); // 651
+    });
+
+    it('rounds up rather than drop below a floor', () => {
+      // charity floor 600 rounds to 599, so 699
+      const suggestion = price({ cost_price: 500, market_prices: [market('good', 300)] });
+
+      expect(suggestion.price).toBe(699);
+    });
+
+    it('rounds down rather than exceed the ceiling', () => {
+      // capped at 1050, which rounds to 1099 - over the ceiling
+      const suggestion = price({ cost_price: 105, market_prices: [market('good', 5000)] });
+
+      expect(suggestion.price).toBe(999);
+    });
+
+    it('keeps the exact price when rounding is off', () => {
+      const suggestion = price({ cost_price: 200 }, { round_to_99: false });
+
+      expect(suggestion.price).toBe(600);
+      expect(stepRules(suggestion)).not.toContain('rounding');
+    });
+  });
+});
+
+describe('mergePricingRules', () => {
+  it('returns the defaults for empty rules', () => {
+    const merged = mergePricingRules({});
+
+    expect(merged).toEqual(DEFAULT_PRICING_RULES);
+    expect(merged.condition_multipliers).not.toBe(DEFAULT_PRICING_RULES.condition_multipliers);
+  });
+
+  it('applies valid overrides over the defaults', () => {
+    const merged = mergePricingRules({
+      base_markup: 4,
+      round_to_99: false,
+      market_sources: ['manual'],
+      condition_multipliers: { like_new: 1.5 } as PricingRules['condition_multipliers']
+    });
+
+    expect(merged).toMatchObject({ base_markup: 4, round_to_99: false, market_sources: ['manual'] });
+    expect(merged.condition_multipliers).toEqual({ ...DEFAULT_PRICING_RULES.condition_multipliers, like_new: 1.5 });
+    expect(merged.max_markup).toBe(DEFAULT_PRICING_RULES.max_markup);
+  });
+
+  it('ignores invalid values', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const merged = mergePricingRules({
+      base_markup: -1,
+      min_price: 'cheap',
+      round_to_99: 'yes',
+      market_sources: [1],
+      condition_multipliers: { mint: 2, good: -1 }
+    } as unknown as Partial<PricingRules>);
+
+    expect(merged).toEqual(DEFAULT_PRICING_RULES);
+    expect(warn).toHaveBeenCalledTimes(4);
+    warn.mockRestore();
+  });
+});
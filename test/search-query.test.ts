@@ -0,0 +1,166 @@
+import { describe, it, expect, vi, beforeAll } from 'vitest';
+import { parseSearchQuery, formatSnippet, INVALID_SEARCH_QUERY } from '../src/utils/search-query';
+import { DatabaseService } from '../src/services/database';
+import { searchBooks } from '../src/routes/public';
+import { Env } from '../src/types';
+import { createTestDatabase } from './helpers/d1';
+
+describe('parseSearchQuery', () => {
+  it.each([
+    ['gatsby', '"gatsby"'],
+    ['great gatsby', '"great" AND "gatsby"'],
+    ['"great gatsby"', '"great gatsby"'],
+    ['gats*', '"gats"*'],
+    ['"the great"*', '"the great"*'],
+    ['author:king', 'author : "king"'],
+    ['by:king', 'author : "king"'],
+    ['AUTHOR:king', 'author : "king"'],
+    ['tags:cosy', 'vibe_tags : "cosy"'],
+    ['title:"the hobbit"', 'title : "the hobbit"'],
+    ['author: king', 'author : "king"'],
+    ['horror -gore', '("horror") NOT "gore"'],
+    ['horror -"body horror" -author:king', '("horror") NOT "body horror" NOT author : "king"'],
+    ['hello-world', '"hello-world"'],
+    ['isbn:123', '"isbn:123"']
+  ])('%s -> %s', (input, match) => {
+    expect(parseSearchQuery(input).match).toBe(match);
+  });
+
+  it.each([
+    ['cats OR dogs', '"cats" AND "OR" AND "dogs"'],
+    ['NEAR(cats dogs)', '"NEAR(cats" AND "dogs)"'],
+    ['(cats', '"(cats"'],
+    ['cats)', '"cats)"'],
+    ['^start', '"^start"'],
+    ['title:*', null],
+    ['gat**sby', '"gat sby"'],
+    ['"say ""hi"""', '"say" AND "hi"']
+  ])('quotes FTS syntax in %s', (input, match) => {
+    if (match === null) {
+      expect(() => parseSearchQuery(input)).toThrow();
+    } else {
+      expect(parseSearchQuery(input).match).toBe(match);
+    }
+  });
+
+  it('returns the wanted terms as plain text', () => {
+    const parsed = parseSearchQuery('author:king "the shining" -gore');
+
+    expect(parsed.text).toBe('king the shining');
+    expect(parsed.terms).toEqual([
+      { text: 'king', phrase: false, prefix: false, negated: false, field: 'author' },
+      { text: 'the shining', phrase: true, prefix: false, negated: false, field: undefined },
+      { text: 'gore', phrase: false, prefix: false, negated: true, field: undefined }
+    ]);
+  });
+
+  it.each([
+    ['', 'empty'],
+    ['   ', 'empty'],
+    ['a'.repeat(201), 'at most 200 characters'],
+    [Array.from({ length: 21 }, (_, i) => `word${i}`).join(' '), 'at most 20 terms'],
+    ['"unterminated phrase', 'Unterminated quote'],
+    ['title:"the hobbit', 'Unterminated quote'],
+    ['-gore', 'not excluded'],
+    ['*** ---', 'no searchable words'],
+    ['author:', 'needs a search term']
+  ])('rejects %j', (input, message) => {
+    expect(() => parseSearchQuery(input)).toThrow(message);
+
+    try {
+      parseSearchQuery(input);
+    } catch (error) {
+      expect(error).toMatchObject({ statusCode: 400, code: INVALID_SEARCH_QUERY });
+    }
+  });
+});
+
+describe('formatSnippet', () => {
+  it('escapes HTML and marks highlighted terms', () => {
+    expect(formatSnippet('Fish & \u0001Chips\u0002 <b>"quick"</b>'))
+      .toBe('Fish &amp; <mark>Chips</mark> &lt;b&gt;&quot;quick&quot;&lt;/b&gt;');
+  });
+
+  it('ignores missing snippets', () => {
+    expect(formatSnippet(null)).toBeUndefined();
+  });
+});
+
+describe('keyword search over FTS5', () => {
+  let env: Env;
+  let db: DatabaseService;
+
+  const editions = [
+    ['e1', 'The Shining', 'Stephen King', 'A family heads to an isolated hotel for the winter', 'horror, haunted'],
+    ['e2', 'The Great Gatsby', 'F. Scott Fitzgerald', 'Jazz age New York (and its excesses)', 'classic'],
+    ['e3', 'Carrie', 'Stephen King', 'A shy girl with telekinetic powers and a prom night', 'horror, gore'],
+    ['e4', 'King Lear', 'William Shakespeare', 'An ageing king divides his kingdom', 'tragedy'],
+    ['e5', 'Fish & Chips <Cookbook>', 'A. Cook', 'Batter, chips and "mushy" peas', 'cooking']
+  ];
+
+  const search = async (input: string) =>
+    (await db.searchBooksByKeyword(parseSearchQuery(input).match)).map(({ book }) => book.edition_id).sort();
+
+  beforeAll(async () => {
+    env = { DB: await createTestDatabase(), ENVIRONMENT: 'development' } as unknown as Env;
+    db = new DatabaseService(env);
+
+    for (const [id, title, author, description, tags] of editions) {
+      await env.DB.prepare(`
+        INSERT INTO editions (id, isbn, title, author, description, vibe_tags, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, '2026-01-01T00:00:00Z', '2026-01-01T00:00:00Z')
+      `).bind(id, `isbn-${id}`, title, author, description, tags).run();
+      await env.DB.prepare(`
+        INSERT INTO books (id, edition_id, condition, cost_price, sell_price, status, created_at, updated_at)
+        VALUES (?, ?, 'good', 100, 499, 'live', '2026-01-01T00:00:00Z', '2026-01-01T00:00:00Z')
+      `).bind(`copy-${id}`, id).run();
+    }
+  });
+
+  it('matches terms in any column', async () => {
+    expect(await search('king')).toEqual(['e1', 'e3', 'e4']);
+  });
+
+  it('scopes terms to a field', async () => {
+    expect(await search('author:king')).toEqual(['e1', 'e3']);
+    expect(await search('title:king')).toEqual(['e4']);
+    expect(await search('tags:horror')).toEqual(['e1', 'e3']);
+  });
+
+  it('matches phrases, prefixes and exclusions', async () => {
+    expect(await search('"great gatsby"')).toEqual(['e2']);
+    expect(await search('"gatsby great"')).toEqual([]);
+    expect(await search('gats*')).toEqual(['e2']);
+    expect(await search('king*')).toEqual(['e1', 'e3', 'e4']);
+    expect(await search('horror -gore')).toEqual(['e1']);
+  });
+
+  it('runs input full of FTS and SQL syntax as plain words', async () => {
+    for (const input of ['king OR', 'NEAR(king', '(king', 'king)', 'AND', '^king', 'title:king*', 'king\'; DROP TABLE editions; --']) {
+      await expect(search(input)).resolves.toBeInstanceOf(Array);
+    }
+
+    expect(await search('king)')).toEqual(['e1', 'e3', 'e4']);
+    expect(await search('AND')).toEqual(['e2', 'e3', 'e5']);
+    expect(await search('king')).toHaveLength(3);
+  });
+
+  it('returns escaped, highlighted snippets', async () => {
+    const [telekinetic] = await db.searchBooksByKeyword(parseSearchQuery('telekinetic').match);
+    const [chips] = await db.searchBooksByKeyword(parseSearchQuery('title:chips').match);
+
+    expect(telekinetic.snippet).toContain('<mark>telekinetic</mark>');
+    expect(chips.snippet).toBe('Fish &amp; <mark>Chips</mark> &lt;Cookbook&gt;');
+  });
+
+  it('answers unusable queries with a 400', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const response = await searchBooks(new Request('https://bookstore.test/api/search?q=%22unterminated'), env);
+    const body = await response.json<{ success: boolean; error: string; code: string }>();
+
+    expect(response.status).toBe(400);
+    expect(body).toMatchObject({ success: false, code: INVALID_SEARCH_QUERY });
+    expect(body.error).toContain('Unterminated quote');
+  });
+});